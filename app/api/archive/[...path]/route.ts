@@ -0,0 +1,94 @@
+import { type NextRequest, NextResponse } from "next/server"
+import {
+  getArchiveChapter,
+  getArchiveChapters,
+  getArchiveCover,
+  getArchiveManga,
+  getArchivePage,
+  searchArchive,
+} from "@/lib/archive-library"
+
+// Serves the local archive in the same shapes as the MangaDex API:
+//   manga?title=&limit=&offset=   search
+//   manga/:id                     details
+//   manga/:id/feed                every chapter
+//   manga/:id/cover               cover image
+//   chapter/:id                   chapter details
+//   chapter/:id/pages             page URLs
+//   chapter/:id/pages/:index      page image
+
+const notFound = (what: string) => NextResponse.json({ result: "error", error: `${what} not found` }, { status: 404 })
+
+function imageResponse(image: { bytes: Uint8Array; mimeType: string }) {
+  return new Response(image.bytes, {
+    headers: {
+      "content-type": image.mimeType,
+      "cache-control": "public, max-age=3600",
+    },
+  })
+}
+
+export async function GET(request: NextRequest, { params }: { params: { path?: string[] } }) {
+  try {
+    const [resource, rawId, ...rest] = (params.path || []).map((segment) => decodeURIComponent(segment))
+    const action = rest.join("/")
+
+    if (resource === "manga" && !rawId) {
+      const searchParams = request.nextUrl.searchParams
+      const limit = Math.min(100, Math.max(1, Number.parseInt(searchParams.get("limit") || "20", 10) || 20))
+      const offset = Math.max(0, Number.parseInt(searchParams.get("offset") || "0", 10) || 0)
+      const results = await searchArchive(searchParams.get("title") || "", limit, offset)
+      return NextResponse.json({ result: "ok", response: "collection", ...results })
+    }
+
+    if (resource === "manga" && action === "") {
+      const manga = await getArchiveManga(rawId)
+      if (!manga) return notFound("Manga")
+      return NextResponse.json({ result: "ok", response: "entity", data: manga })
+    }
+
+    if (resource === "manga" && action === "feed") {
+      const chapters = await getArchiveChapters(rawId)
+      if (!chapters) return notFound("Manga")
+      return NextResponse.json({
+        result: "ok",
+        response: "collection",
+        data: chapters,
+        limit: chapters.length,
+        offset: 0,
+        total: chapters.length,
+      })
+    }
+
+    if (resource === "manga" && action === "cover") {
+      const cover = await getArchiveCover(rawId)
+      return cover ? imageResponse(cover) : notFound("Cover")
+    }
+
+    if (resource === "chapter" && action === "") {
+      const chapter = await getArchiveChapter(rawId)
+      if (!chapter) return notFound("Chapter")
+      return NextResponse.json({ result: "ok", response: "entity", data: chapter })
+    }
+
+    if (resource === "chapter" && action === "pages") {
+      const chapter = await getArchiveChapter(rawId)
+      if (!chapter) return notFound("Chapter")
+      const base = `/api/archive/chapter/${encodeURIComponent(rawId)}/pages`
+      return NextResponse.json({
+        result: "ok",
+        pages: Array.from({ length: chapter.attributes.pages }, (_, index) => `${base}/${index}`),
+      })
+    }
+
+    if (resource === "chapter" && rest[0] === "pages" && rest.length === 2) {
+      const page = await getArchivePage(rawId, Number.parseInt(rest[1], 10))
+      return page ? imageResponse(page) : notFound("Page")
+    }
+
+    return NextResponse.json({ result: "error", error: "Unknown archive path" }, { status: 400 })
+  } catch (error) {
+    console.error("Archive GET error:", error)
+    return NextResponse.json({ result: "error", error: "Failed to read the archive" }, { status: 500 })
+  }
+}
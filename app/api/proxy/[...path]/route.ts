@@ -1,27 +1,86 @@
 import { type NextRequest, NextResponse } from "next/server"
+import { isDemoMode } from "@/lib/demo-mode"
+import { findFixture, fixtureKey, fixtureKeyForUrl, isRecordingFixtures, recordFixture } from "@/lib/demo-fixtures"
+import {
+  type CacheStatus,
+  type CachedResponse,
+  cacheHeaders,
+  cachedFetch,
+  getCachePolicy,
+  getCachePolicyForUrl,
+  matchesEtag,
+} from "@/lib/proxy-cache"
+import { ProxyRequestError, assertAllowedUrl, checkRateLimit, getClientKey, guardedFetch, limitedFetch } from "@/lib/proxy-guard"
+
+// Demo mode answers from recorded fixtures instead of going upstream
+async function serveFixture(key: string | null) {
+  const fixture = key ? await findFixture(key) : null
+  if (!fixture) {
+    return NextResponse.json(
+      { result: "error", error: "No demo fixture recorded for this request", request: key },
+      { status: 404 }
+    )
+  }
+  return NextResponse.json(fixture.body, { status: fixture.status ?? 200 })
+}
+
+// Answers a cached or fresh upstream response, or a body-less 304 when the
+// browser already holds this version
+function cachedResponse(request: NextRequest, response: CachedResponse, cacheStatus: CacheStatus) {
+  const headers = cacheHeaders(response, cacheStatus)
+  if (response.status === 200 && matchesEtag(request.headers.get("if-none-match"), response.etag)) {
+    return new Response(null, { status: 304, headers })
+  }
+  return new Response(response.body, { status: response.status, headers })
+}
+
+// Only answers that really came from upstream are worth recording
+async function recordResponse(key: string | null, response: CachedResponse, cacheStatus: CacheStatus) {
+  const fromUpstream = cacheStatus === "MISS" || cacheStatus === "BYPASS"
+  if (!key || !isRecordingFixtures() || response.status !== 200 || !fromUpstream) return
+  try {
+    await recordFixture(key, response.status, JSON.parse(new TextDecoder().decode(response.body)))
+  } catch {
+    // Not JSON, nothing to record
+  }
+}
+
+function rateLimitedResponse(resetAt: number, limit: number) {
+  const retryAfter = Math.max(1, Math.ceil((resetAt - Date.now()) / 1000))
+  return NextResponse.json(
+    { error: "Too many requests", retryAfter },
+    {
+      status: 429,
+      headers: {
+        "retry-after": String(retryAfter),
+        "x-ratelimit-limit": String(limit),
+        "x-ratelimit-remaining": "0",
+      },
+    }
+  )
+}
 
 export async function GET(request: NextRequest, { params }: { params: { path?: string[] } }) {
   try {
     const searchParams = request.nextUrl.searchParams
+    // searchParams already decodes the value once
     const directUrl = searchParams.get("url")
 
-    // Case 1: If `url` param is provided, do a direct fetch
+    // Case 1: If `url` param is provided, fetch it when it is an allowed upstream
     if (directUrl) {
-      const decodedUrl = decodeURIComponent(directUrl)
-      try {
-        const response = await fetch(decodedUrl)
-        const data = await response.text()
-        return new Response(data, {
-          status: response.status,
-          headers: {
-            "content-type": response.headers.get("content-type") ?? "application/json",
-          },
-        })
-      } catch (err) {
-        return new Response(JSON.stringify({ error: "API request failed", details: String(err) }), {
-          status: 500,
-        })
+      if (isDemoMode) {
+        return serveFixture(fixtureKeyForUrl(directUrl))
       }
+      const rateLimit = checkRateLimit(getClientKey(request.ip, request.headers))
+      if (rateLimit.limited) return rateLimitedResponse(rateLimit.resetAt, rateLimit.limit)
+
+      // Malformed and disallowed URLs are refused before anything else looks at them
+      await assertAllowedUrl(directUrl)
+      const { response, cacheStatus } = await cachedFetch(directUrl, getCachePolicyForUrl(directUrl), {
+        fetcher: guardedFetch,
+      })
+      await recordResponse(fixtureKeyForUrl(directUrl), response, cacheStatus)
+      return cachedResponse(request, response, cacheStatus)
     }
 
     // Case 2: Fallback to dynamic proxy based on path
@@ -50,28 +109,36 @@ export async function GET(request: NextRequest, { params }: { params: { path?: s
         return NextResponse.json({ error: "Invalid API name" }, { status: 400 })
     }
 
+    if (isDemoMode) {
+      return serveFixture(fixtureKey(apiName, apiPath, searchParams))
+    }
+
     if (!baseUrl) {
       return NextResponse.json({ error: `Base URL for ${apiName} not configured` }, { status: 500 })
     }
 
-    const url = `${baseUrl}/${apiPath}${baseSearchParams ? `?${baseSearchParams}` : ""}`
-
-    console.log("Proxy GET Fetching URL:", url)
+    const rateLimit = checkRateLimit(getClientKey(request.ip, request.headers))
+    if (rateLimit.limited) return rateLimitedResponse(rateLimit.resetAt, rateLimit.limit)
 
-    const response = await fetch(url, { headers })
+    const url = `${baseUrl}/${apiPath}${baseSearchParams ? `?${baseSearchParams}` : ""}`
+    const { response, cacheStatus } = await cachedFetch(url, getCachePolicy(apiName, apiPath), {
+      headers,
+      fetcher: limitedFetch,
+    })
 
-    if (!response.ok) {
-      const errorText = await response.text()
+    if (response.status < 200 || response.status >= 300) {
       return NextResponse.json(
-        { error: `API request failed: ${response.statusText}`, details: errorText },
+        { error: `API request failed: ${response.statusText}`, details: new TextDecoder().decode(response.body) },
         { status: response.status }
       )
     }
 
-    const data = await response.json()
-    return NextResponse.json(data, { status: response.status })
-
+    await recordResponse(fixtureKey(apiName, apiPath, searchParams), response, cacheStatus)
+    return cachedResponse(request, response, cacheStatus)
   } catch (error) {
+    if (error instanceof ProxyRequestError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
     console.error("Proxy GET error:", error)
     return NextResponse.json({ error: "Failed to fetch data via proxy" }, { status: 500 })
   }
@@ -79,6 +146,14 @@ export async function GET(request: NextRequest, { params }: { params: { path?: s
 
 
 export async function POST(request: NextRequest, { params }: { params: { path: string[] } }) {
+  // Nothing leaves the machine in demo mode, reports just succeed
+  if (isDemoMode) {
+    return NextResponse.json({ result: "ok" })
+  }
+
+  const rateLimit = checkRateLimit(getClientKey(request.ip, request.headers))
+  if (rateLimit.limited) return rateLimitedResponse(rateLimit.resetAt, rateLimit.limit)
+
   try {
     const [apiName, ...apiPathSegments] = params.path
     const apiPath = apiPathSegments.join("/")
@@ -97,6 +172,10 @@ export async function POST(request: NextRequest, { params }: { params: { path: s
       case "kitsu":
         baseUrl = process.env.KITSU_API_URL || "https://kitsu.io/api/edge"
         break
+      case "mangadex-network":
+        // MangaDex@Home load reports
+        baseUrl = process.env.MANGADEX_NETWORK_API_URL || "https://api.mangadex.network"
+        break
       default:
         return NextResponse.json({ error: "Invalid API name" }, { status: 400 })
     }
@@ -107,9 +186,6 @@ export async function POST(request: NextRequest, { params }: { params: { path: s
 
     const url = `${baseUrl}/${apiPath}`
 
-    console.log("Proxy POSTing to URL:", url)
-    console.log("Proxy POST Request Body:", body)
-
     const response = await fetch(url, {
       method: "POST",
       headers: headers,
@@ -127,7 +203,6 @@ export async function POST(request: NextRequest, { params }: { params: { path: s
     }
 
     const data = await response.json()
-    console.log("Proxy POST Received Response:", data)
     return NextResponse.json(data, { status: response.status })
   } catch (error) {
     console.error("Proxy POST error:", error)
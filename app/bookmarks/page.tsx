@@ -1,15 +1,25 @@
 'use client'
 
-import { useEffect, useState } from 'react'
+import { useEffect, useMemo, useState } from 'react'
 import Link from 'next/link'
 import Image from 'next/image'
 import { Bookmark as BookmarkIcon, ArrowLeft, X } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { getBookmarks, removeBookmark, Bookmark as BookmarkType } from '@/lib/bookmark-utils'
+import { groupBookmarksByManga } from '@/lib/page-bookmarks'
+import { usePageBookmarks } from '@/hooks/use-page-bookmarks'
+import PageBookmarkCard from '@/components/page-bookmark-card'
 
 export default function BookmarksPage() {
   const [bookmarks, setBookmarks] = useState<BookmarkType[]>([])
   const [loading, setLoading] = useState(true)
+  const {
+    bookmarks: pageBookmarks,
+    loading: pageBookmarksLoading,
+    updateNote,
+    removeBookmark: removePageBookmark,
+  } = usePageBookmarks()
+  const bookmarkGroups = useMemo(() => groupBookmarksByManga(pageBookmarks), [pageBookmarks])
 
   useEffect(() => {
     const savedBookmarks = getBookmarks()
@@ -33,7 +43,7 @@ export default function BookmarksPage() {
     })
   }
 
-  if (loading) {
+  if (loading || pageBookmarksLoading) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-gray-900 via-black to-gray-900 flex items-center justify-center">
         <div className="animate-pulse">
@@ -44,7 +54,7 @@ export default function BookmarksPage() {
     )
   }
 
-  if (bookmarks.length === 0) {
+  if (bookmarks.length === 0 && pageBookmarks.length === 0) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-gray-900 via-black to-gray-900 flex items-center justify-center">
         <div className="text-center p-8 max-w-md">
@@ -52,7 +62,7 @@ export default function BookmarksPage() {
             <BookmarkIcon className="w-8 h-8 text-blue-400" />
           </div>
           <h1 className="text-2xl font-bold text-white mb-2">No Bookmarks Found</h1>
-          <p className="text-gray-400 mb-6">You haven't bookmarked any manga or anime yet.</p>
+          <p className="text-gray-400 mb-6">You haven&apos;t bookmarked any manga, anime or pages yet.</p>
           <Button asChild>
             <Link href="/search">
               <ArrowLeft className="w-4 h-4 mr-2" />
@@ -67,10 +77,14 @@ export default function BookmarksPage() {
   return (
     <div className="min-h-screen bg-gradient-to-br from-gray-900 via-black to-gray-900">
       <div className="container mx-auto px-4 py-12">
-        <div className="flex items-center justify-between mb-8">
-          <h1 className="text-3xl font-bold text-white">Your Bookmarks</h1>
-          <span className="text-gray-400">{bookmarks.length} of 5 slots used</span>
-        </div>
+        <h1 className="text-3xl font-bold text-white mb-8">Your Bookmarks</h1>
+
+        {bookmarks.length > 0 && (
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-xl font-semibold text-white">Titles</h2>
+            <span className="text-gray-400">{bookmarks.length} of 5 slots used</span>
+          </div>
+        )}
 
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
           {bookmarks.map((bookmark) => (
@@ -126,6 +140,30 @@ export default function BookmarksPage() {
             </div>
           ))}
         </div>
+
+        {bookmarkGroups.length > 0 && (
+          <div className={`space-y-8 ${bookmarks.length > 0 ? 'mt-12' : ''}`}>
+            <div className="flex items-center justify-between">
+              <h2 className="text-xl font-semibold text-white">Pages</h2>
+              <span className="text-gray-400">{pageBookmarks.length} bookmarked</span>
+            </div>
+            {bookmarkGroups.map((group) => (
+              <section key={group.mangaId}>
+                <h3 className="font-bold text-white text-lg mb-3">{group.mangaTitle}</h3>
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                  {group.bookmarks.map((bookmark) => (
+                    <PageBookmarkCard
+                      key={bookmark.id}
+                      bookmark={bookmark}
+                      onSaveNote={updateNote}
+                      onRemove={removePageBookmark}
+                    />
+                  ))}
+                </div>
+              </section>
+            ))}
+          </div>
+        )}
       </div>
     </div>
   )
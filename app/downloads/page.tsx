@@ -6,23 +6,55 @@ import { useRouter } from 'next/navigation'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
-import { Download, Trash2, FolderOpen, HardDrive, X } from 'lucide-react'
+import { Download, Trash2, FolderOpen, HardDrive, X, FileDown } from 'lucide-react'
 import Link from 'next/link'
 import Image from 'next/image'
 import { toast } from 'sonner'
+import {
+  getDownloads,
+  deleteDownload as removeDownload,
+  clearDownloads,
+  saveDownloadRecord,
+  type DownloadedChapter,
+} from '@/lib/downloads'
+import { useDownloadQueue } from '@/hooks/use-download-queue'
+import DownloadQueuePanel from '@/components/downloads/download-queue-panel'
+import ImportPanel from '@/components/downloads/import-panel'
+import ExportMenu from '@/components/export-menu'
+import {
+  buildExportMetadata,
+  buildSeriesMetadata,
+  exportChapters,
+  getExportFilename,
+  saveBlob,
+  type ExportFormat,
+  type SeriesMetadata,
+} from '@/lib/export'
+import { getPrimaryEnglishTitle, getSourceForId } from '@/lib/sources'
+import { searchKitsuManga } from '@/lib/kitsu-api'
+import { suggestPreferences } from '@/lib/reader-preferences'
 
-interface DownloadedChapter {
-  id: string
-  mangaId: string
-  mangaTitle: string
-  mangaSlug: string
-  chapterId: string
-  chapterNumber: string
-  chapterTitle: string
-  posterUrl: string
-  pages: string[]
-  downloadedAt: string
-  size: number
+// Downloads made before series metadata was stored with them look it up once
+// and keep it. Imported files have nothing to look up.
+async function getSeriesMetadata(download: DownloadedChapter): Promise<SeriesMetadata | undefined> {
+  if (download.seriesMetadata || download.source === 'local') return download.seriesMetadata
+
+  try {
+    const { data: manga } = await getSourceForId(download.mangaId).getManga(download.mangaId)
+    if (!manga) return undefined
+    const kitsuManga = await searchKitsuManga(getPrimaryEnglishTitle(manga), 1)
+      .then((response) => response.data[0] || null)
+      .catch(() => null)
+    const seriesMetadata = buildSeriesMetadata({ manga, kitsuManga, direction: suggestPreferences(manga).direction })
+
+    getDownloads()
+      .filter(d => d.mangaId === download.mangaId && !d.seriesMetadata)
+      .forEach(d => saveDownloadRecord({ ...d, seriesMetadata }))
+    return seriesMetadata
+  } catch (error) {
+    console.warn('Could not load series metadata for export:', error)
+    return undefined
+  }
 }
 
 export default function DownloadsPage() {
@@ -31,6 +63,9 @@ export default function DownloadsPage() {
   const [downloads, setDownloads] = useState<DownloadedChapter[]>([])
   const [loading, setLoading] = useState(true)
   const [totalSize, setTotalSize] = useState(0)
+  const [exportingId, setExportingId] = useState<string | null>(null)
+  const { items: queueItems } = useDownloadQueue()
+  const completedInQueue = queueItems.filter(item => item.status === 'completed').length
 
   useEffect(() => {
     if (!authLoading && !user) {
@@ -41,14 +76,14 @@ export default function DownloadsPage() {
     if (user) {
       loadDownloads()
     }
-  }, [user, authLoading, router])
+  }, [user, authLoading, router, completedInQueue])
 
   const loadDownloads = () => {
     try {
-      const savedDownloads = JSON.parse(localStorage.getItem('manga_downloads') || '[]')
+      const savedDownloads = getDownloads()
       setDownloads(savedDownloads)
       
-      const size = savedDownloads.reduce((acc: number, download: DownloadedChapter) => acc + download.size, 0)
+      const size = savedDownloads.reduce((acc, download) => acc + download.size, 0)
       setTotalSize(size)
     } catch (error) {
       console.error('Error loading downloads:', error)
@@ -57,10 +92,10 @@ export default function DownloadsPage() {
     }
   }
 
-  const deleteDownload = (downloadId: string) => {
+  const deleteDownload = async (downloadId: string) => {
     try {
+      await removeDownload(downloadId)
       const updatedDownloads = downloads.filter(d => d.id !== downloadId)
-      localStorage.setItem('manga_downloads', JSON.stringify(updatedDownloads))
       setDownloads(updatedDownloads)
       
       const size = updatedDownloads.reduce((acc, download) => acc + download.size, 0)
@@ -73,9 +108,9 @@ export default function DownloadsPage() {
     }
   }
 
-  const clearAllDownloads = () => {
+  const clearAllDownloads = async () => {
     try {
-      localStorage.removeItem('manga_downloads')
+      await clearDownloads()
       setDownloads([])
       setTotalSize(0)
       toast.success('All downloads cleared')
@@ -85,6 +120,42 @@ export default function DownloadsPage() {
     }
   }
 
+  // Downloaded chapters of the same manga and volume, in chapter order
+  const getVolumeDownloads = (download: DownloadedChapter) =>
+    downloads
+      .filter(d => d.mangaId === download.mangaId && d.volume && d.volume === download.volume)
+      .sort((a, b) => Number.parseFloat(a.chapterNumber) - Number.parseFloat(b.chapterNumber))
+
+  const handleExport = async (download: DownloadedChapter, targetId: string, format: ExportFormat) => {
+    const isVolume = targetId === 'volume'
+    const chapters = isVolume ? getVolumeDownloads(download) : [download]
+
+    setExportingId(download.id)
+    const toastId = toast.loading(`Exporting ${format.toUpperCase()}...`)
+    try {
+      const metadata = buildExportMetadata({
+        series: download.mangaTitle,
+        title: isVolume ? `Volume ${download.volume}` : download.chapterTitle || undefined,
+        number: isVolume ? undefined : download.chapterNumber,
+        volume: download.volume || undefined,
+        seriesMetadata: await getSeriesMetadata(download),
+      })
+      if (!download.seriesMetadata) loadDownloads()
+      const blob = await exportChapters(
+        format,
+        metadata,
+        chapters.map(d => ({ id: d.chapterId, number: d.chapterNumber, title: d.chapterTitle }))
+      )
+      saveBlob(blob, getExportFilename(metadata, format))
+      toast.success('Export complete!', { id: toastId })
+    } catch (error) {
+      console.error('Error exporting download:', error)
+      toast.error('Failed to export', { id: toastId })
+    } finally {
+      setExportingId(null)
+    }
+  }
+
   const formatSize = (bytes: number) => {
     if (bytes === 0) return '0 Bytes'
     const k = 1024
@@ -164,6 +235,10 @@ export default function DownloadsPage() {
             </CardContent>
           </Card>
 
+          <DownloadQueuePanel />
+
+          <ImportPanel onImported={loadDownloads} />
+
           {/* Downloads List */}
           {downloads.length === 0 ? (
             <Card className="bg-gray-800/30 border-gray-700/50">
@@ -208,16 +283,22 @@ export default function DownloadsPage() {
                               {download.chapterTitle && `: ${download.chapterTitle}`}
                             </p>
                             <div className="flex items-center gap-4 mt-2 text-xs text-gray-500">
-                              <span>{download.pages.length} pages</span>
+                              <span>{download.pageCount} pages</span>
                               <span>{formatSize(download.size)}</span>
                               <span>{formatDate(download.downloadedAt)}</span>
                             </div>
                           </div>
                           
                           <div className="flex items-center gap-2 ml-4">
-                            <Badge className="bg-green-600/20 text-green-400 border-green-600/30">
-                              Downloaded
-                            </Badge>
+                            {download.source === 'local' ? (
+                              <Badge className="bg-purple-600/20 text-purple-400 border-purple-600/30">
+                                Imported
+                              </Badge>
+                            ) : (
+                              <Badge className="bg-green-600/20 text-green-400 border-green-600/30">
+                                Downloaded
+                              </Badge>
+                            )}
                             <Button
                               variant="ghost"
                               size="icon"
@@ -238,11 +319,28 @@ export default function DownloadsPage() {
                           Read Offline
                         </Link>
                       </Button>
-                      <Button asChild variant="outline" size="sm">
-                        <Link href={`/manga/${download.mangaSlug}`}>
-                          View Manga
-                        </Link>
-                      </Button>
+                      {download.source !== 'local' && (
+                        <Button asChild variant="outline" size="sm">
+                          <Link href={`/manga/${download.mangaSlug}`}>
+                            View Manga
+                          </Link>
+                        </Button>
+                      )}
+                      <ExportMenu
+                        targets={[
+                          { id: 'chapter', label: 'This chapter' },
+                          ...(download.volume && getVolumeDownloads(download).length > 1
+                            ? [{ id: 'volume', label: `Volume ${download.volume} (${getVolumeDownloads(download).length} chapters)` }]
+                            : []),
+                        ]}
+                        onExport={(targetId, format) => handleExport(download, targetId, format)}
+                        disabled={exportingId !== null}
+                      >
+                        <Button variant="outline" size="sm">
+                          <FileDown className="w-4 h-4 mr-2" />
+                          Export
+                        </Button>
+                      </ExportMenu>
                     </div>
                   </CardContent>
                 </Card>
@@ -1,6 +1,6 @@
 "use client"
 
-import { useEffect, useState } from "react"
+import { useEffect, useMemo, useState } from "react"
 import { useParams, useRouter } from 'next/navigation'
 import { useAuth } from '@/contexts/auth-context'
 import MangaBanner from '@/components/manga/manga-banner'
@@ -13,20 +13,27 @@ import {
   getKitsuCoverImage,
   type KitsuManga,
 } from "@/lib/kitsu-api"
-import { getMangaDxChapters, getMangaDxManga, getPrimaryEnglishTitle, type Chapter } from "@/lib/mangadx-api"
+import { getPrimaryEnglishTitle, getSourceForId, type Chapter, type Manga } from "@/lib/sources"
 import LoadingSpinner from "@/components/loading-spinner"
 import { Button } from "@/components/ui/button"
+import { usePreferredLanguages } from "@/hooks/use-preferred-languages"
+import { groupChaptersByNumber, pickUpload } from "@/lib/scanlation-groups"
 
 export default function MangaDetailPage() {
   const params = useParams()
   const router = useRouter()
   const [kitsuManga, setKitsuManga] = useState<KitsuManga | null>(null)
   const [chapters, setChapters] = useState<Chapter[]>([])
+  const [availableLanguages, setAvailableLanguages] = useState<string[]>([])
   const [loading, setLoading] = useState(true)
+  const [chaptersLoading, setChaptersLoading] = useState(true)
   const [mangaDxId, setMangaDxId] = useState<string | null>(null)
+  // The source's own entry, for titles Kitsu doesn't know
+  const [sourceManga, setSourceManga] = useState<Manga | null>(null)
   const { user } = useAuth()
+  const { languages, ready: languagesReady, setLanguages } = usePreferredLanguages()
 
-  const slug = params.slug as string
+  const slug = decodeURIComponent(params.slug as string)
 
   useEffect(() => {
     const fetchMangaDetails = async () => {
@@ -34,55 +41,38 @@ export default function MangaDetailPage() {
         setLoading(true)
         console.log("MangaDetailPage: Processing slug:", slug)
 
-        // Check if slug is already a MangaDx ID (UUID format)
-        const isUUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(slug)
-        
-        let currentMangaDxId: string
-        
-        if (isUUID) {
-          // Slug is already a MangaDx ID
-          currentMangaDxId = slug
-          console.log("MangaDetailPage: Using slug as MangaDx ID:", currentMangaDxId)
-        } else {
-          // Slug is a title-based slug, need to search for MangaDx ID
-          console.log("MangaDetailPage: Searching for MangaDx ID using slug:", slug)
-          
-          // Convert slug back to searchable title
-          const searchTitle = slug.replace(/-/g, ' ')
-          
-          // Search MangaDx for the manga
-          const searchResponse = await fetch(`/api/proxy/mangadx/manga?title=${encodeURIComponent(searchTitle)}&limit=1&includes[]=cover_art`)
-          const searchData = await searchResponse.json()
-          
-          if (!searchData.data || searchData.data.length === 0) {
-            console.error("MangaDetailPage: No manga found for slug:", slug)
-            setLoading(false)
-            return
-          }
-          
-          currentMangaDxId = searchData.data[0].id
-          console.log("MangaDetailPage: Found MangaDx ID:", currentMangaDxId)
-          
-          // Update URL to use MangaDx ID for consistency
-          router.replace(`/manga/${currentMangaDxId}`, { scroll: false })
+        // Titles and ids both resolve through the source the slug belongs to
+        const source = getSourceForId(slug)
+        const currentMangaId = await source.resolveMangaId(slug)
+        if (!currentMangaId) {
+          console.error("MangaDetailPage: No manga found for slug:", slug)
+          setLoading(false)
+          return
+        }
+        console.log(`MangaDetailPage: Using ${source.name} ID:`, currentMangaId)
+
+        if (currentMangaId !== slug) {
+          // Update URL to use the manga ID for consistency
+          router.replace(`/manga/${currentMangaId}`, { scroll: false })
         }
 
-        setMangaDxId(currentMangaDxId)
+        setMangaDxId(currentMangaId)
+
+        const mangaResponse = await source.getManga(currentMangaId)
+        const mdManga = mangaResponse.data
 
-        // Get MangaDx manga details
-        const mangaDxResponse = await getMangaDxManga(currentMangaDxId)
-        const mdManga = mangaDxResponse.data
-        
         if (!mdManga) {
-          console.error("MangaDetailPage: No MangaDx manga found for ID:", currentMangaDxId)
+          console.error("MangaDetailPage: No manga found for ID:", currentMangaId)
           setLoading(false)
           return
         }
 
+        setSourceManga(mdManga)
+        setAvailableLanguages(mdManga.attributes.availableTranslatedLanguages || [])
         const mdTitle = getPrimaryEnglishTitle(mdManga)
-        console.log("MangaDetailPage: MangaDx title:", mdTitle)
+        console.log("MangaDetailPage: Title:", mdTitle)
 
-        // Search Kitsu for additional metadata using the MangaDx title
+        // Search Kitsu for additional metadata using the source's title
         let kitsuData: KitsuManga | null = null
         try {
           const kitsuSearchData = await searchKitsuManga(mdTitle, 1)
@@ -94,26 +84,9 @@ export default function MangaDetailPage() {
 
         setKitsuManga(kitsuData)
 
-        // Get chapters from MangaDx
-        const chaptersData = await getMangaDxChapters(currentMangaDxId)
-        const sortedChapters = (chaptersData.data || []).sort((a, b) => {
-          const aChapter = Number.parseFloat(a.attributes.chapter || "0")
-          const bChapter = Number.parseFloat(b.attributes.chapter || "0")
-          const aVolume = Number.parseFloat(a.attributes.volume || "0")
-          const bVolume = Number.parseFloat(b.attributes.volume || "0")
-
-          if (aVolume !== bVolume) {
-            return aVolume - bVolume
-          }
-          return aChapter - bChapter
-        })
-        setChapters(sortedChapters)
-        console.log("MangaDetailPage: Chapters fetched:", sortedChapters.length)
-
       } catch (error) {
         console.error("MangaDetailPage: Error fetching manga details:", error)
         setKitsuManga(null)
-        setChapters([])
       } finally {
         setLoading(false)
       }
@@ -124,7 +97,37 @@ export default function MangaDetailPage() {
     }
   }, [slug, router])
 
-  if (loading) {
+  // One chapter per number in the best available language, for the header
+  const headerChapters = useMemo(
+    () => groupChaptersByNumber(chapters).map((entry) => pickUpload(entry.uploads, null, languages)),
+    [chapters, languages]
+  )
+
+  // Chapters in all preferred languages, fetched again when the list changes
+  useEffect(() => {
+    if (!mangaDxId || !languagesReady) return
+
+    let cancelled = false
+    getSourceForId(mangaDxId)
+      .getChapterFeed(mangaDxId, languages)
+      .then((sortedChapters) => {
+        if (cancelled) return
+        setChapters(sortedChapters)
+        console.log("MangaDetailPage: Chapters fetched:", sortedChapters.length)
+      })
+      .catch((error) => {
+        console.error("MangaDetailPage: Error fetching chapters:", error)
+        if (!cancelled) setChapters([])
+      })
+      .finally(() => {
+        if (!cancelled) setChaptersLoading(false)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [mangaDxId, languages, languagesReady])
+
+  if (loading || (mangaDxId && chaptersLoading)) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-gray-900 via-black to-gray-900 flex items-center justify-center">
         <LoadingSpinner />
@@ -145,11 +148,15 @@ export default function MangaDetailPage() {
     )
   }
 
-  const posterUrl = kitsuManga ? getKitsuPosterImage(kitsuManga.attributes.posterImage) : "/placeholder.svg"
+  const sourceCoverUrl = sourceManga ? getSourceForId(mangaDxId).getCoverUrl(sourceManga, 512) : null
+  const posterUrl = kitsuManga ? getKitsuPosterImage(kitsuManga.attributes.posterImage) : sourceCoverUrl || "/placeholder.svg"
   const coverUrl = kitsuManga
     ? getKitsuCoverImage(kitsuManga.attributes.coverImage) || getKitsuPosterImage(kitsuManga.attributes.posterImage)
-    : "/placeholder.svg?height=400&width=1200"
-  const title = kitsuManga?.attributes.canonicalTitle || kitsuManga?.attributes.titles.en_jp || "Unknown Title"
+    : sourceCoverUrl || "/placeholder.svg?height=400&width=1200"
+  const title =
+    kitsuManga?.attributes.canonicalTitle ||
+    kitsuManga?.attributes.titles.en_jp ||
+    (sourceManga ? getPrimaryEnglishTitle(sourceManga) : "Unknown Title")
 
   // Prepare manga data for library operations - use MangaDx ID as primary identifier
   const mangaData = {
@@ -157,7 +164,7 @@ export default function MangaDetailPage() {
     manga_title: title,
     manga_slug: mangaDxId, // Use MangaDx ID as slug for consistency
     poster_url: posterUrl,
-    total_chapters: kitsuManga?.attributes.chapterCount || chapters.length || undefined,
+    total_chapters: kitsuManga?.attributes.chapterCount || headerChapters.length || undefined,
   }
 
   return (
@@ -170,14 +177,18 @@ export default function MangaDetailPage() {
               kitsuManga={kitsuManga}
               mangaData={mangaData}
               mangaSlug={mangaDxId}
-              chapters={chapters}
+              chapters={headerChapters}
             />
           </aside>
           <div className="md:col-span-2 lg:col-span-3 space-y-8">
             <MangaDetails
               kitsuManga={kitsuManga}
+              manga={sourceManga}
               chapters={chapters}
               mangaSlug={mangaDxId}
+              languages={languages}
+              availableLanguages={availableLanguages}
+              onLanguagesChange={setLanguages}
             />
             <MangaComments
               mangaId={mangaDxId}
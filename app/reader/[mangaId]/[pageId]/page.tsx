@@ -1,6 +1,6 @@
 "use client"
 
-import { useEffect, useState, useRef, useCallback } from "react";
+import { useEffect, useState, useRef, useCallback, useMemo } from "react";
 import { useParams, useRouter, useSearchParams } from "next/navigation";
 import {
   ArrowLeft,
@@ -18,23 +18,19 @@ import {
   Pause,
   Settings,
   BookOpen,
+  FileDown,
   Monitor,
   Smartphone,
   Tablet,
+  Search,
+  Keyboard,
+  LayoutGrid,
 } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { Slider } from "@/components/ui/slider"
-import Image from "next/image"
+import { Switch } from "@/components/ui/switch"
 import { searchKitsuManga, type KitsuManga } from "@/lib/kitsu-api"
-import {
-  getMangaDxChapter,
-  getMangaDxChapterPages,
-  getMangaDxManga,
-  getMangaDxChapters,
-  getPrimaryEnglishTitle,
-  slugToMangaDxId,
-  type Chapter,
-} from "@/lib/mangadx-api"
+import { getPrimaryEnglishTitle, getSourceForId, type Chapter, type Manga } from "@/lib/sources"
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Card, CardContent } from "@/components/ui/card"
@@ -42,31 +38,85 @@ import { Badge } from "@/components/ui/badge"
 import { toast } from "sonner"
 import DummyMangaPage from "@/components/dummy-manga-page"
 import { titleToSlug } from "@/lib/slugify"
-
-type ReadingMode = "single" | "double" | "vertical" | "webtoon"
-type Direction = "ltr" | "rtl"
-
-interface DownloadedChapter {
-  id: string
-  mangaId: string
-  mangaTitle: string
-  mangaSlug: string
-  chapterId: string
-  chapterNumber: string
-  chapterTitle: string
-  posterUrl: string
-  pages: string[]
-  downloadedAt: string
-  size: number
+import {
+  downloadChapter,
+  downloadToChapter,
+  getDownloadedChapter,
+  loadChapterPageUrls,
+  loadOfflinePages,
+  resolveChapterPageUrls,
+} from "@/lib/downloads"
+import {
+  reportAtHomeLoad,
+  resolveImageQuality,
+  type ImageQuality,
+  type ImageQualitySetting,
+} from "@/lib/at-home"
+import { useSlowConnection } from "@/hooks/use-slow-connection"
+import { prefetchChapter } from "@/lib/chapter-prefetch"
+import { getLocalChapters, isLocalMangaId } from "@/lib/local-import"
+import { buildExportMetadata, buildSeriesMetadata, exportChapters, getExportFilename, saveBlob, type ExportFormat } from "@/lib/export"
+import ExportMenu from "@/components/export-menu"
+import {
+  MAX_SCROLL_SPEED,
+  MAX_ZOOM,
+  MIN_SCROLL_SPEED,
+  MIN_ZOOM,
+  suggestPreferences,
+  type Direction,
+  type FitMode,
+  type ReadingMode,
+} from "@/lib/reader-preferences"
+import { useReaderPreferences } from "@/hooks/use-reader-preferences"
+import { useAuth } from "@/contexts/auth-context"
+import { saveChapterProgress } from "@/lib/read-state"
+import { addToLibrary, dismissLibraryPrompt, isLibraryPromptDismissed, recordChapterFinished } from "@/lib/library"
+import { buildSpreads, findSpreadIndex, getSpreadOffset, isWidePage, saveSpreadOffset } from "@/lib/page-spreads"
+import { buildReadingList, formatGroupNames, getChapterGroups, getPreferredGroup, groupChaptersByNumber, pickUpload } from "@/lib/scanlation-groups"
+import { usePreferredGroup } from "@/hooks/use-preferred-group"
+import { usePreferredLanguages } from "@/hooks/use-preferred-languages"
+import { getLanguageBadge, getLanguageName } from "@/lib/language-preferences"
+import ContinuousStrip, { type ContinuousStripHandle, type StripPosition } from "@/components/reader/continuous-strip"
+import ZoomablePageView from "@/components/reader/zoomable-page-view"
+import TapZones from "@/components/reader/tap-zones"
+import ReaderControlsDialog from "@/components/reader/reader-controls-dialog"
+import ShortcutsOverlay from "@/components/reader/shortcuts-overlay"
+import { findAction, getTapZones, type KeyBindings, type TapZoneLayout } from "@/lib/reader-controls"
+import PageImage, { GammaFilter } from "@/components/reader/page-image"
+import PageBookmarkButton from "@/components/reader/page-bookmark-button"
+import GuidedPageView from "@/components/reader/guided-page-view"
+import { usePagePanels } from "@/hooks/use-page-panels"
+import { useAutoScroll } from "@/hooks/use-auto-scroll"
+import { usePageBookmarks } from "@/hooks/use-page-bookmarks"
+import { createBookmarkThumbnail } from "@/lib/page-bookmarks"
+import {
+  BRIGHTNESS_RANGE,
+  CONTRAST_RANGE,
+  DEFAULT_IMAGE_ADJUSTMENTS,
+  GAMMA_RANGE,
+  buildImageFilter,
+  getCropMode,
+  renderEnhancedPage,
+  type ColorMode,
+  type ImageAdjustments,
+} from "@/lib/image-enhancement"
+
+// How a page is sized in the paged modes before zooming
+const FIT_MODE_CLASSES: Record<FitMode, string> = {
+  screen: "max-w-full max-h-full h-full w-auto object-contain",
+  width: "w-full h-auto max-h-none",
+  height: "h-full w-auto max-w-none",
+  original: "w-auto h-auto max-w-none max-h-none",
 }
 
 export default function ReaderPage() {
   const params = useParams();
   const router = useRouter();
   const searchParams = useSearchParams();
+  const { user } = useAuth();
 
   // Get parameters from URL
-  const mangaSlugParam = params.mangaId as string | undefined;
+  const mangaSlugParam = params.mangaId ? decodeURIComponent(params.mangaId as string) : undefined;
   const pageParam = params.pageId as string | undefined;
   const chapterQuery = searchParams?.get("chapter");
 
@@ -74,6 +124,8 @@ export default function ReaderPage() {
   const isPageNumber = pageParam && /^\d+$/.test(pageParam);
   const initialPage = isPageNumber ? parseInt(pageParam, 10) : 1;
   const chapterIdFromUrl = !isPageNumber ? pageParam : chapterQuery;
+  // Imported titles only exist on this device and have no details page
+  const isLocalTitle = isLocalMangaId(mangaSlugParam);
 
   // State
   const [loading, setLoading] = useState(true);
@@ -86,30 +138,152 @@ export default function ReaderPage() {
   const [imageUrls, setImageUrls] = useState<string[]>([])
   const [currentPage, setCurrentPage] = useState(1)
   const [totalPages, setTotalPages] = useState(0)
-  const [zoom, setZoom] = useState(100)
-  const [darkMode, setDarkMode] = useState(true)
-  const [readingMode, setReadingMode] = useState<ReadingMode>("single")
-  const [direction, setDirection] = useState<Direction>("rtl")
   const [showControls, setShowControls] = useState(true)
   const [showSettings, setShowSettings] = useState(false)
+  const [showShortcuts, setShowShortcuts] = useState(false)
+  const [showControlsEditor, setShowControlsEditor] = useState(false)
   const [autoPlay, setAutoPlay] = useState(false)
-  const [autoPlayTimeout, setAutoPlayTimeout] = useState(3)
   const [isFullscreen, setIsFullscreen] = useState(false)
   const [pageTransition, setPageTransition] = useState(false)
   const [downloading, setDownloading] = useState(false)
+  const [exporting, setExporting] = useState(false)
   const [isOffline, setIsOffline] = useState(false)
+  // Bumped on every full chapter load so the continuous strip starts over
+  const [chapterLoadCount, setChapterLoadCount] = useState(0)
+  const [loupeEnabled, setLoupeEnabled] = useState(false)
+  const [panelIndex, setPanelIndex] = useState(0)
+  const [editingPanels, setEditingPanels] = useState(false)
+  // Going back from a page's first panel lands on the last panel of the page before
+  const enterPageAtEnd = useRef(false)
 
   // Data state
   const [kitsuManga, setKitsuManga] = useState<KitsuManga | null>(null)
+  const [mangaDxManga, setMangaDxManga] = useState<Manga | null>(null)
   const [currentMangaDxChapter, setCurrentMangaDxChapter] = useState<Chapter | null>(null)
   const [allMangaDxChapters, setAllMangaDxChapters] = useState<Chapter[]>([])
   const [loadedImages, setLoadedImages] = useState<Map<number, string>>(new Map())
+  const [widePages, setWidePages] = useState<Set<number>>(new Set())
+  const [spreadOffset, setSpreadOffset] = useState(false)
+
+  // Reading mode, direction, zoom, theme and auto-play delay come from the
+  // user's defaults or this manga's own profile
+  const suggestedPreferences = useMemo(() => suggestPreferences(mangaDxManga), [mangaDxManga])
+  const {
+    preferences,
+    ready: preferencesReady,
+    hasMangaProfile,
+    updatePreferences,
+    setMangaProfile,
+  } = useReaderPreferences(mangaDxId, suggestedPreferences)
+  const {
+    readingMode,
+    direction,
+    zoom,
+    fitMode,
+    darkMode,
+    autoPlayTimeout,
+    imageQuality: imageQualitySetting,
+    keyBindings,
+    tapZones,
+    swipeToTurn,
+    imageAdjustments,
+    guidedView,
+    autoScrollSpeed,
+  } = preferences
+  const setReadingMode = (value: ReadingMode) => updatePreferences({ readingMode: value })
+  const setDirection = (value: Direction) => updatePreferences({ direction: value })
+  const setZoom = (value: number) => updatePreferences({ zoom: value })
+  const setFitMode = (value: FitMode) => updatePreferences({ fitMode: value })
+  const setDarkMode = (value: boolean) => updatePreferences({ darkMode: value })
+  const setAutoPlayTimeout = (value: number) => updatePreferences({ autoPlayTimeout: value })
+  const setImageQuality = (value: ImageQualitySetting) => updatePreferences({ imageQuality: value })
+  const setKeyBindings = (value: KeyBindings) => updatePreferences({ keyBindings: value })
+  const setTapZones = (value: TapZoneLayout) => updatePreferences({ tapZones: value })
+  const setSwipeToTurn = (value: boolean) => updatePreferences({ swipeToTurn: value })
+  const setGuidedView = (value: boolean) => updatePreferences({ guidedView: value })
+  const changeAutoScrollSpeed = useCallback(
+    (factor: number) =>
+      updatePreferences({
+        autoScrollSpeed: Math.min(MAX_SCROLL_SPEED, Math.max(MIN_SCROLL_SPEED, Math.round((autoScrollSpeed * factor) / 5) * 5)),
+      }),
+    [autoScrollSpeed, updatePreferences]
+  )
+  const tapZoneList = useMemo(() => getTapZones(tapZones, direction), [tapZones, direction])
+  const adjustImage = (changes: Partial<ImageAdjustments>) =>
+    updatePreferences({ imageAdjustments: { ...imageAdjustments, ...changes } })
+  const imageFilter = buildImageFilter(imageAdjustments, darkMode)
+  const cropMode = getCropMode(imageAdjustments, readingMode === "webtoon")
+
+  // "auto" switches to data saver images on slow or metered connections
+  const slowConnection = useSlowConnection()
+  const imageQuality = resolveImageQuality(imageQualitySetting, slowConnection)
 
   // Refs
   const readerRef = useRef<HTMLDivElement>(null)
   const autoHideTimer = useRef<NodeJS.Timeout | null>(null)
   const autoPlayTimer = useRef<NodeJS.Timeout | null>(null)
   const loadingStates = useRef<Set<number>>(new Set())
+  const offlineObjectUrls = useRef<string[]>([])
+  const stripRef = useRef<ContinuousStripHandle>(null)
+  // Chapter whose pages are on screen; URL updates pointing at it must not reload it
+  const shownChapterId = useRef<string | null>(null)
+  const readStateTimer = useRef<NodeJS.Timeout | null>(null)
+  // `user:chapter:page` last written (or scheduled) to the read state
+  const savedReadState = useRef<string | null>(null)
+  const finishedChapters = useRef<Set<string>>(new Set())
+  const libraryPrompted = useRef(false)
+  // Chapter whose page list is on screen and the quality it was built for
+  const shownPageList = useRef<{ chapterId: string; quality: ImageQuality } | null>(null)
+  const serverRefresh = useRef<Promise<string[] | null> | null>(null)
+  const failedPages = useRef<Set<number>>(new Set())
+  const imageQualityRef = useRef(imageQuality)
+  imageQualityRef.current = imageQuality
+  const prefetchController = useRef<AbortController | null>(null)
+  const prefetchedChapters = useRef<Set<string>>(new Set())
+
+  const isContinuous = readingMode === "vertical" || readingMode === "webtoon"
+
+  // Double-page spreads in reading order, with wide pages shown on their own
+  const spreads = useMemo(() => buildSpreads(totalPages, widePages, spreadOffset), [totalPages, widePages, spreadOffset])
+
+  // The cover offset is remembered per manga
+  useEffect(() => {
+    if (mangaDxId) {
+      setSpreadOffset(getSpreadOffset(mangaDxId))
+    }
+  }, [mangaDxId])
+
+  const toggleSpreadOffset = useCallback((offset: boolean) => {
+    setSpreadOffset(offset)
+    if (mangaDxId) {
+      saveSpreadOffset(mangaDxId, offset)
+    }
+  }, [mangaDxId])
+
+  // Chapters come in the user's preferred languages. A language picked in the
+  // reader goes first for the rest of the session.
+  const { languages: preferredLanguages, ready: languagesReady } = usePreferredLanguages()
+  const [languageOverride, setLanguageOverride] = useState<string | null>(null)
+  const languages = useMemo(
+    () => (languageOverride ? [languageOverride, ...preferredLanguages.filter((code) => code !== languageOverride)] : preferredLanguages),
+    [languageOverride, preferredLanguages]
+  )
+  const languagesRef = useRef(languages)
+  languagesRef.current = languages
+
+  // Chapter navigation uses one upload per chapter number and stays on the
+  // preferred scanlation group, or the current chapter's group, when it can
+  const { preferredGroup, setPreferredGroup } = usePreferredGroup(mangaDxId)
+  const chapterEntries = useMemo(() => groupChaptersByNumber(allMangaDxChapters), [allMangaDxChapters])
+  const readingList = useMemo(
+    () => buildReadingList(chapterEntries, preferredGroup, currentMangaDxChapter, languages),
+    [chapterEntries, preferredGroup, currentMangaDxChapter, languages]
+  )
+  const currentUploads = useMemo(
+    () => chapterEntries.find((entry) => entry.uploads.some((c) => c.id === currentMangaDxChapter?.id))?.uploads || [],
+    [chapterEntries, currentMangaDxChapter]
+  )
+  const currentGroup = currentMangaDxChapter ? getChapterGroups(currentMangaDxChapter)[0] : undefined
 
   // Auto-hide controls functionality
   const hideControlsAfterDelay = useCallback(() => {
@@ -127,9 +301,9 @@ export default function ReaderPage() {
     hideControlsAfterDelay()
   }, [hideControlsAfterDelay])
 
-  // Auto-play functionality
+  // Auto-play functionality; the long-strip modes scroll instead
   useEffect(() => {
-    if (autoPlay && currentPage < totalPages) {
+    if (autoPlay && !isContinuous && currentPage < totalPages) {
       autoPlayTimer.current = setTimeout(() => {
         nextPage()
       }, autoPlayTimeout * 1000)
@@ -139,7 +313,7 @@ export default function ReaderPage() {
         clearTimeout(autoPlayTimer.current)
       }
     }
-  }, [autoPlay, currentPage, totalPages, autoPlayTimeout])
+  }, [autoPlay, isContinuous, currentPage, totalPages, autoPlayTimeout])
 
   // Fullscreen detection
   useEffect(() => {
@@ -150,7 +324,45 @@ export default function ReaderPage() {
     return () => document.removeEventListener("fullscreenchange", handleFullscreenChange)
   }, [])
 
-  const loadImageWithRetry = useCallback(async (pageIndex: number, url: string, retries = 3) => {
+  // Asks the source for a fresh page list of the chapter on screen (another
+  // @Home node for MangaDex) and swaps in its URLs. Pages that had given up are
+  // loaded again from the new list.
+  const refreshAtHomeServer = useCallback(() => {
+    const chapterId = shownChapterId.current
+    if (!chapterId) return Promise.resolve(null)
+
+    if (!serverRefresh.current) {
+      const quality = imageQualityRef.current
+      serverRefresh.current = getSourceForId(chapterId)
+        .getChapterPages(chapterId, { quality, refresh: true })
+        .then((urls) => {
+          if (shownChapterId.current !== chapterId) return null
+
+          shownPageList.current = { chapterId, quality }
+          const failed = Array.from(failedPages.current)
+          failedPages.current.clear()
+          failed.forEach((pageIndex) => loadingStates.current.delete(pageIndex))
+          setLoadedImages((prev) => {
+            const next = new Map(prev)
+            failed.forEach((pageIndex) => next.delete(pageIndex))
+            return next
+          })
+
+          setImageUrls(urls)
+          return urls
+        })
+        .catch((error) => {
+          console.error("Error requesting a new page list:", error)
+          return null
+        })
+        .finally(() => {
+          serverRefresh.current = null
+        })
+    }
+    return serverRefresh.current
+  }, [])
+
+  const loadImageWithRetry = useCallback(async (pageIndex: number, url: string, retries = 4) => {
     if (loadingStates.current.has(pageIndex)) {
       return
     }
@@ -158,31 +370,66 @@ export default function ReaderPage() {
     loadingStates.current.add(pageIndex)
     setLoadedImages((prev) => new Map(prev).set(pageIndex, "loading"))
 
+    let pageUrl = url
     for (let i = 0; i < retries; i++) {
+      const attemptUrl = pageUrl
       try {
         await new Promise((resolve, reject) => {
           const img = new window.Image()
           img.crossOrigin = "anonymous"
           img.onload = () => {
-            setLoadedImages((prev) => new Map(prev).set(pageIndex, url))
+            reportAtHomeLoad(attemptUrl, true)
+            setLoadedImages((prev) => new Map(prev).set(pageIndex, attemptUrl))
+            if (isWidePage(img.naturalWidth, img.naturalHeight)) {
+              setWidePages((prev) => new Set(prev).add(pageIndex))
+            }
             resolve(true)
           }
           img.onerror = (e) => {
-            console.error(`Error loading image ${url} (attempt ${i + 1}):`, e)
+            console.error(`Error loading image ${attemptUrl} (attempt ${i + 1}):`, e)
+            reportAtHomeLoad(attemptUrl, false)
             reject(new Error("Image load failed"))
           }
-          img.src = url
+          img.src = attemptUrl
         })
         return
       } catch (error) {
-        if (i < retries - 1) {
+        if (i === 1 && /^https?:/.test(attemptUrl)) {
+          // The node keeps failing, carry on from a fresh one
+          const urls = await refreshAtHomeServer()
+          if (urls?.[pageIndex]) {
+            pageUrl = urls[pageIndex]
+          }
+        } else if (i < retries - 1) {
           await new Promise((res) => setTimeout(res, 1000))
         }
       }
     }
-    console.error(`Failed to load image ${url} after ${retries} attempts.`)
+    console.error(`Failed to load image ${pageUrl} after ${retries} attempts.`)
+    failedPages.current.add(pageIndex)
     setLoadedImages((prev) => new Map(prev).set(pageIndex, "/placeholder.svg"))
-  }, [])
+  }, [refreshAtHomeServer])
+
+  // A different image quality swaps the page URLs of the chapter on screen
+  useEffect(() => {
+    const current = shownPageList.current
+    if (!current || current.quality === imageQuality || current.chapterId !== shownChapterId.current) return
+
+    const { chapterId } = current
+    getSourceForId(chapterId)
+      .getChapterPages(chapterId, { quality: imageQuality })
+      .then((urls) => {
+        // Another chapter or quality took over while the list was loading
+        if (shownChapterId.current !== chapterId || imageQualityRef.current !== imageQuality) return
+        shownPageList.current = { chapterId, quality: imageQuality }
+        loadingStates.current.clear()
+        failedPages.current.clear()
+        setLoadedImages(new Map())
+        setImageUrls(urls)
+        setChapterLoadCount((count) => count + 1)
+      })
+      .catch((error) => console.error("Error switching image quality:", error))
+  }, [imageQuality])
 
   // Save reading progress to cache
   const saveReadingProgress = useCallback((page: number) => {
@@ -198,56 +445,55 @@ export default function ReaderPage() {
       chapter: currentMangaDxChapter?.attributes?.chapter || "Unknown",
       page: page,
       totalPages: totalPages,
-      posterUrl: kitsuManga?.attributes?.posterImage?.medium || kitsuManga?.attributes?.posterImage?.small,
+      posterUrl:
+        kitsuManga?.attributes?.posterImage?.medium ||
+        kitsuManga?.attributes?.posterImage?.small ||
+        (currentMangaDxChapter && getDownloadedChapter(currentMangaDxChapter.id)?.posterUrl),
       lastRead: new Date().toISOString()
     }
     localStorage.setItem("readingHistory", JSON.stringify(readingHistory))
   }, [mangaDxId, mangaTitle, currentMangaDxChapter, totalPages, kitsuManga])
 
   // Check for offline content first
-  const checkOfflineContent = useCallback(() => {
+  const checkOfflineContent = useCallback(async () => {
+    if (!chapterIdFromUrl) return false
+
     try {
-      const downloads = JSON.parse(localStorage.getItem('manga_downloads') || '[]')
-      const offlineChapter = downloads.find((d: DownloadedChapter) => 
-        d.mangaId === mangaDxId || (chapterIdFromUrl && d.chapterId === chapterIdFromUrl)
-      )
-      
-      if (offlineChapter) {
-        setIsOffline(true)
-        setImageUrls(offlineChapter.pages)
-        setTotalPages(offlineChapter.pages.length)
-        setMangaTitle(offlineChapter.mangaTitle)
-        setChapterTitle(`Chapter ${offlineChapter.chapterNumber}${offlineChapter.chapterTitle ? `: ${offlineChapter.chapterTitle}` : ''}`)
-        setCurrentMangaDxChapter({
-          id: offlineChapter.chapterId,
-          type: 'chapter',
-          attributes: {
-            chapter: offlineChapter.chapterNumber,
-            title: offlineChapter.chapterTitle,
-            volume: null,
-            pages: offlineChapter.pages.length,
-            translatedLanguage: 'en',
-            uploader: '',
-            externalUrl: null,
-            version: 1,
-            createdAt: offlineChapter.downloadedAt,
-            updatedAt: offlineChapter.downloadedAt,
-            publishAt: offlineChapter.downloadedAt,
-            readableAt: offlineChapter.downloadedAt
-          },
-          relationships: []
-        })
-        
-        // Set initial page
-        setCurrentPage(Math.min(initialPage, offlineChapter.pages.length))
-        setLoading(false)
-        return true
-      }
+      const offlineChapter = getDownloadedChapter(chapterIdFromUrl)
+      if (!offlineChapter) return false
+
+      const pageUrls = await loadOfflinePages(offlineChapter.chapterId)
+      if (!pageUrls) return false
+
+      offlineObjectUrls.current.forEach((url) => URL.revokeObjectURL(url))
+      offlineObjectUrls.current = pageUrls
+
+      setIsOffline(true)
+      setImageUrls(pageUrls)
+      setTotalPages(pageUrls.length)
+      setMangaTitle(offlineChapter.mangaTitle)
+      setChapterTitle(`Chapter ${offlineChapter.chapterNumber}${offlineChapter.chapterTitle ? `: ${offlineChapter.chapterTitle}` : ''}`)
+      setCurrentMangaDxChapter(downloadToChapter(offlineChapter))
+      shownChapterId.current = offlineChapter.chapterId
+
+      // Set initial page
+      setCurrentPage(Math.min(initialPage, pageUrls.length))
+      setChapterLoadCount((count) => count + 1)
+      setLoading(false)
+      return true
     } catch (error) {
       console.error('Error checking offline content:', error)
     }
     return false
-  }, [mangaDxId, chapterIdFromUrl, initialPage])
+  }, [chapterIdFromUrl, initialPage])
+
+  // Release stored page images when leaving the reader
+  useEffect(() => {
+    return () => {
+      offlineObjectUrls.current.forEach((url) => URL.revokeObjectURL(url))
+      offlineObjectUrls.current = []
+    }
+  }, [])
 
   // Update URL when page changes
   const updateURL = useCallback((page: number) => {
@@ -257,6 +503,99 @@ export default function ReaderPage() {
     window.history.replaceState(null, '', newUrl)
   }, [mangaSlugParam, currentMangaDxChapter])
 
+  // Keep the URL and reading history on the chapter being shown
+  useEffect(() => {
+    if (currentMangaDxChapter) {
+      updateURL(currentPage)
+      saveReadingProgress(currentPage)
+    }
+  }, [currentMangaDxChapter, currentPage, updateURL, saveReadingProgress])
+
+  // Moves the library entry along when a chapter is finished, or offers to
+  // add the title when it isn't in the library yet
+  const handleChapterFinished = useCallback(async (chapter: Chapter) => {
+    if (!user || !mangaDxId || isLocalTitle || finishedChapters.current.has(chapter.id)) return
+    finishedChapters.current.add(chapter.id)
+
+    const lastChapter = Number.parseInt(mangaDxManga?.attributes.lastChapter || "", 10)
+    const isLastListed = readingList[readingList.length - 1]?.id === chapter.id
+    const finished = {
+      chapterNumber: chapter.attributes.chapter,
+      isFinalChapter:
+        isLastListed &&
+        (mangaDxManga?.attributes.status === "completed" ||
+          (!Number.isNaN(lastChapter) && Number.parseFloat(chapter.attributes.chapter || "") >= lastChapter)),
+      totalChapters: Number.isNaN(lastChapter) ? undefined : lastChapter,
+    }
+
+    const { error, inLibrary } = await recordChapterFinished(user.id, mangaDxId, finished)
+    if (error) {
+      console.error("Error updating library progress:", error)
+      return
+    }
+    if (inLibrary || libraryPrompted.current || isLibraryPromptDismissed(mangaDxId)) return
+
+    libraryPrompted.current = true
+    toast(`Add ${mangaTitle || "this title"} to your library?`, {
+      description: "Your progress will be tracked as you read.",
+      duration: 10000,
+      action: {
+        label: "Add",
+        onClick: async () => {
+          const { error: addError } = await addToLibrary(
+            user.id,
+            {
+              manga_id: mangaDxId,
+              manga_title: mangaTitle,
+              manga_slug: mangaDxId,
+              poster_url: kitsuManga?.attributes?.posterImage?.medium,
+              total_chapters: finished.totalChapters,
+            },
+            "reading"
+          )
+          if (addError) {
+            toast.error("Failed to add to library")
+            return
+          }
+          await recordChapterFinished(user.id, mangaDxId, finished)
+          toast.success("Added to your library")
+        },
+      },
+      cancel: {
+        label: "Don't ask again",
+        onClick: () => dismissLibraryPrompt(mangaDxId),
+      },
+    })
+  }, [user, mangaDxId, isLocalTitle, mangaDxManga, readingList, mangaTitle, kitsuManga])
+
+  // Per-chapter read state. Page turns are written once the reader settles,
+  // reaching the last page completes the chapter right away. Each position is
+  // written once, and handleChapterFinished only acts once per chapter.
+  useEffect(() => {
+    if (!mangaDxId || !currentMangaDxChapter || totalPages === 0) return
+
+    const spread = readingMode === "double" ? spreads[findSpreadIndex(spreads, currentPage - 1)] : undefined
+    const lastVisiblePage = spread ? spread[spread.length - 1] + 1 : currentPage
+    const progress = { mangaId: mangaDxId, chapterId: currentMangaDxChapter.id, page: lastVisiblePage, totalPages }
+    // Other dependencies change identity without moving the reader, e.g. the spreads
+    const key = `${user?.id ?? ""}:${progress.chapterId}:${progress.page}`
+    if (key === savedReadState.current) return
+    savedReadState.current = key
+
+    const save = async () => {
+      const { error } = await saveChapterProgress(user?.id ?? null, progress)
+      if (error) console.error("Error saving read state:", error)
+    }
+
+    if (readStateTimer.current) clearTimeout(readStateTimer.current)
+    if (lastVisiblePage >= totalPages) {
+      save()
+      handleChapterFinished(currentMangaDxChapter)
+    } else {
+      readStateTimer.current = setTimeout(save, 1500)
+    }
+  }, [mangaDxId, currentMangaDxChapter, currentPage, totalPages, readingMode, spreads, user, handleChapterFinished])
+
   // Main data fetching effect
   useEffect(() => {
     const fetchReaderData = async () => {
@@ -266,13 +605,30 @@ export default function ReaderPage() {
         return;
       }
 
+      // Already on screen, e.g. after the continuous strip scrolled into it
+      if (chapterIdFromUrl && chapterIdFromUrl === shownChapterId.current) {
+        return
+      }
+
       try {
         setLoading(true)
         loadingStates.current.clear()
         setLoadedImages(new Map())
+        setWidePages(new Set())
+
+        if (isLocalTitle) {
+          setMangaDxId(mangaSlugParam)
+          setAllMangaDxChapters(getLocalChapters(mangaSlugParam))
+          if (!(await checkOfflineContent())) {
+            setError('This imported title is no longer available on this device.')
+            setLoading(false)
+          }
+          return
+        }
 
-        // Convert slug to MangaDx ID
-        const resolvedMangaDxId = await slugToMangaDxId(mangaSlugParam)
+        // Convert slug to an ID of the source it belongs to
+        const source = getSourceForId(mangaSlugParam)
+        const resolvedMangaDxId = await source.resolveMangaId(mangaSlugParam)
         if (!resolvedMangaDxId) {
           setError('Could not find manga with the provided slug.')
           setLoading(false)
@@ -282,15 +638,16 @@ export default function ReaderPage() {
         setMangaDxId(resolvedMangaDxId)
 
         // Check offline content first
-        if (checkOfflineContent()) {
+        if (await checkOfflineContent()) {
           return;
         }
 
-        // Get MangaDx manga details
-        const mangaDxResponse = await getMangaDxManga(resolvedMangaDxId)
+        // Get manga details
+        const mangaDxResponse = await source.getManga(resolvedMangaDxId)
         const mdManga = mangaDxResponse.data
         
         if (mdManga) {
+          setMangaDxManga(mdManga)
           const mdTitle = getPrimaryEnglishTitle(mdManga)
           setMangaTitle(mdTitle)
           
@@ -305,19 +662,12 @@ export default function ReaderPage() {
         }
 
         // Get all chapters for navigation
-        const allChaptersData = await getMangaDxChapters(resolvedMangaDxId, 100)
-        const sortedChapters = (allChaptersData.data || []).sort((a, b) => {
-          const aNum = Number.parseFloat(a.attributes.chapter || "0")
-          const bNum = Number.parseFloat(b.attributes.chapter || "0")
-          const aVol = Number.parseFloat(a.attributes.volume || "0")
-          const bVol = Number.parseFloat(b.attributes.volume || "0")
-
-          if (aVol !== bVol) {
-            return aVol - bVol
-          }
-          return aNum - bNum
-        })
-        setAllMangaDxChapters(sortedChapters)
+        const feedLanguages = languagesRef.current
+        const sortedChapters = await source.getChapterFeed(resolvedMangaDxId, feedLanguages)
+        // The language refresh below owns the list once the languages changed
+        if (feedLanguages === languagesRef.current) {
+          setAllMangaDxChapters(sortedChapters)
+        }
 
         // Determine which chapter to load
         let chapterToLoad: Chapter | null = null
@@ -325,7 +675,10 @@ export default function ReaderPage() {
         if (chapterIdFromUrl) {
           chapterToLoad = sortedChapters.find((c: Chapter) => c.id === chapterIdFromUrl) || null
         } else {
-          chapterToLoad = sortedChapters[0] || null
+          const [firstEntry] = groupChaptersByNumber(sortedChapters)
+          chapterToLoad = firstEntry
+            ? pickUpload(firstEntry.uploads, getPreferredGroup(resolvedMangaDxId), feedLanguages)
+            : null
         }
 
         if (!chapterToLoad) {
@@ -335,37 +688,35 @@ export default function ReaderPage() {
         }
 
         // Get current chapter details
-        const currentChapterDetails = await getMangaDxChapter(chapterToLoad.id)
+        const currentChapterDetails = await source.getChapter(chapterToLoad.id)
         setCurrentMangaDxChapter(currentChapterDetails.data)
+        shownChapterId.current = chapterToLoad.id
         const chTitle = `Chapter ${currentChapterDetails.data?.attributes?.chapter || "?"}${
           currentChapterDetails.data?.attributes?.title ? `: ${currentChapterDetails.data.attributes.title}` : ""
         }`;
         setChapterTitle(chTitle)
 
-        // Get chapter pages
-        const pagesResponse = await getMangaDxChapterPages(chapterToLoad.id)
-        const baseUrl = pagesResponse.baseUrl
-        const chapterData = pagesResponse.chapter
-
-        if (!chapterData || !chapterData.hash || !chapterData.data) {
-          console.error("MangaDx chapter data, hash, or image list is missing:", chapterData)
+        // Get chapter pages, from a MangaDex@Home node for MangaDex
+        const quality = imageQualityRef.current
+        let rawPageUrls: string[]
+        try {
+          rawPageUrls = await source.getChapterPages(chapterToLoad.id, { quality })
+        } catch (error) {
+          console.error("Chapter page list is missing:", error)
           setImageUrls([])
           setTotalPages(0)
           setLoading(false)
           return
         }
 
-        const rawPageUrls = chapterData.data.map((page: string) => `${baseUrl}/data/${chapterData.hash}/${page}`)
+        shownPageList.current = { chapterId: chapterToLoad.id, quality }
+        failedPages.current.clear()
         setImageUrls(rawPageUrls)
         setTotalPages(rawPageUrls.length)
 
-        // Set initial page and update URL
-        const validInitialPage = Math.min(initialPage, rawPageUrls.length)
-        setCurrentPage(validInitialPage)
-        updateURL(validInitialPage)
-
-        // Save initial progress
-        saveReadingProgress(validInitialPage)
+        // Set initial page
+        setCurrentPage(Math.min(initialPage, rawPageUrls.length))
+        setChapterLoadCount((count) => count + 1)
 
       } catch (error) {
         console.error("Error fetching reader data:", error)
@@ -385,7 +736,54 @@ export default function ReaderPage() {
         clearTimeout(autoHideTimer.current)
       }
     }
-  }, [mangaSlugParam, chapterIdFromUrl, initialPage, hideControlsAfterDelay, saveReadingProgress, checkOfflineContent, updateURL])
+  }, [mangaSlugParam, isLocalTitle, chapterIdFromUrl, initialPage, hideControlsAfterDelay, checkOfflineContent])
+
+  // Refreshes the chapter list once the language list is known or changes
+  useEffect(() => {
+    if (!mangaDxId || isLocalTitle || !languagesReady) return
+
+    let cancelled = false
+    getSourceForId(mangaDxId)
+      .getChapterFeed(mangaDxId, languages)
+      .then((chapters) => {
+        if (!cancelled) setAllMangaDxChapters(chapters)
+      })
+      .catch((error) => console.error("Error fetching chapters:", error))
+    return () => {
+      cancelled = true
+    }
+  }, [mangaDxId, isLocalTitle, languages, languagesReady])
+
+  // Opening a chapter in a language outside the list keeps reading in it
+  useEffect(() => {
+    const language = currentMangaDxChapter?.attributes.translatedLanguage
+    if (!language || isLocalTitle || !languagesReady) return
+    if (!preferredLanguages.includes(language) && language !== languageOverride) {
+      setLanguageOverride(language)
+    }
+  }, [currentMangaDxChapter, isLocalTitle, languagesReady, preferredLanguages, languageOverride])
+
+  const switchLanguage = useCallback(async (language: string) => {
+    if (!mangaDxId || !mangaSlugParam || !currentMangaDxChapter) return
+    setLanguageOverride(language)
+
+    const number = currentMangaDxChapter.attributes.chapter
+    try {
+      const chapters = await getSourceForId(mangaDxId).getChapterFeed(mangaDxId, [
+        language,
+        ...preferredLanguages.filter((code) => code !== language),
+      ])
+      const uploads = chapters.filter((c) => c.attributes.translatedLanguage === language && number && c.attributes.chapter === number)
+      if (uploads.length === 0) {
+        toast.info(`Chapter ${number || "?"} isn't available in ${getLanguageName(language)}`)
+        return
+      }
+      router.push(`/reader/${mangaSlugParam}/1?chapter=${pickUpload(uploads, preferredGroup).id}`)
+    } catch (error) {
+      console.error("Error switching language:", error)
+      toast.error("Failed to load chapters in that language")
+    }
+  }, [mangaDxId, mangaSlugParam, currentMangaDxChapter, preferredLanguages, preferredGroup, router])
 
   // Preload images based on current page
   useEffect(() => {
@@ -394,8 +792,7 @@ export default function ReaderPage() {
 
       // Current page(s)
       if (readingMode === "double") {
-        pagesToLoad.push(currentPage - 1)
-        if (currentPage < totalPages) pagesToLoad.push(currentPage)
+        pagesToLoad.push(...(spreads[findSpreadIndex(spreads, currentPage - 1)] || [currentPage - 1]))
       } else {
         pagesToLoad.push(currentPage - 1)
       }
@@ -414,115 +811,292 @@ export default function ReaderPage() {
         }
       })
     }
-  }, [currentPage, imageUrls, totalPages, readingMode, loadImageWithRetry])
+  }, [currentPage, imageUrls, totalPages, readingMode, spreads, loadImageWithRetry])
 
   // Navigation functions
   const nextPage = useCallback(() => {
     setPageTransition(true)
     setTimeout(() => setPageTransition(false), 300)
 
-    const increment = readingMode === "double" ? 2 : 1
-    const newPage = Math.min(currentPage + increment, totalPages)
+    const spreadIndex = findSpreadIndex(spreads, currentPage - 1)
+    const newPage =
+      readingMode === "double" && spreadIndex !== -1
+        ? (spreads[spreadIndex + 1]?.[0] ?? currentPage - 1) + 1
+        : Math.min(currentPage + 1, totalPages)
 
     if (newPage > currentPage) {
+      if (isContinuous && currentMangaDxChapter) {
+        stripRef.current?.scrollToPage(currentMangaDxChapter.id, newPage)
+      }
       setCurrentPage(newPage)
       updateURL(newPage)
       saveReadingProgress(newPage)
-    } else if (currentPage === totalPages) {
+    } else {
       goToNextChapter()
     }
-  }, [currentPage, totalPages, readingMode, updateURL, saveReadingProgress])
+  }, [currentPage, totalPages, readingMode, spreads, isContinuous, currentMangaDxChapter, updateURL, saveReadingProgress])
 
   const prevPage = useCallback(() => {
     setPageTransition(true)
     setTimeout(() => setPageTransition(false), 300)
 
-    const decrement = readingMode === "double" ? 2 : 1
-    const newPage = Math.max(currentPage - decrement, 1)
+    const spreadIndex = findSpreadIndex(spreads, currentPage - 1)
+    const newPage =
+      readingMode === "double" && spreadIndex > 0
+        ? spreads[spreadIndex - 1][0] + 1
+        : Math.max(currentPage - 1, 1)
 
     if (newPage < currentPage) {
+      if (isContinuous && currentMangaDxChapter) {
+        stripRef.current?.scrollToPage(currentMangaDxChapter.id, newPage)
+      }
       setCurrentPage(newPage)
       updateURL(newPage)
       saveReadingProgress(newPage)
-    } else if (currentPage === 1) {
+    } else {
       goToPrevChapter()
     }
-  }, [currentPage, readingMode, updateURL, saveReadingProgress])
+  }, [currentPage, readingMode, spreads, isContinuous, currentMangaDxChapter, updateURL, saveReadingProgress])
 
   const goToNextChapter = useCallback(() => {
     if (!currentMangaDxChapter || !mangaSlugParam) return
     
-    const currentIndex = allMangaDxChapters.findIndex((c) => c.id === currentMangaDxChapter.id)
-    if (currentIndex !== -1 && currentIndex < allMangaDxChapters.length - 1) {
-      const nextChapter = allMangaDxChapters[currentIndex + 1]
+    const currentIndex = readingList.findIndex((c) => c.id === currentMangaDxChapter.id)
+    if (currentIndex !== -1 && currentIndex < readingList.length - 1) {
+      const nextChapter = readingList[currentIndex + 1]
+      if (isContinuous && stripRef.current?.scrollToChapter(nextChapter.id)) return
       router.push(`/reader/${mangaSlugParam}/1?chapter=${nextChapter.id}`)
     }
-  }, [currentMangaDxChapter, allMangaDxChapters, router, mangaSlugParam])
+  }, [currentMangaDxChapter, readingList, router, mangaSlugParam, isContinuous])
 
   const goToPrevChapter = useCallback(() => {
     if (!currentMangaDxChapter || !mangaSlugParam) return
     
-    const currentIndex = allMangaDxChapters.findIndex((c) => c.id === currentMangaDxChapter.id)
+    const currentIndex = readingList.findIndex((c) => c.id === currentMangaDxChapter.id)
     if (currentIndex > 0) {
-      const prevChapter = allMangaDxChapters[currentIndex - 1]
+      const prevChapter = readingList[currentIndex - 1]
+      if (isContinuous && stripRef.current?.scrollToChapter(prevChapter.id)) return
       router.push(`/reader/${mangaSlugParam}/1?chapter=${prevChapter.id}`)
     }
-  }, [currentMangaDxChapter, allMangaDxChapters, router, mangaSlugParam])
+  }, [currentMangaDxChapter, readingList, router, mangaSlugParam, isContinuous])
+
+  // Within the last three pages the next chapter is prepared in the background
+  useEffect(() => {
+    if (isLocalTitle || !currentMangaDxChapter || totalPages === 0 || currentPage < totalPages - 3) return
+
+    const index = readingList.findIndex((c) => c.id === currentMangaDxChapter.id)
+    const next = index !== -1 ? readingList[index + 1] : undefined
+    if (!next || next.attributes.externalUrl || prefetchedChapters.current.has(next.id) || getDownloadedChapter(next.id)) return
+
+    if (!prefetchController.current) {
+      prefetchController.current = new AbortController()
+    }
+    prefetchedChapters.current.add(next.id)
+    prefetchChapter(next.id, imageQuality, prefetchController.current.signal)
+      .then((prefetched) => {
+        // Skipped to spare the rate limit, try again on a later page
+        if (!prefetched) prefetchedChapters.current.delete(next.id)
+      })
+      .catch((error) => {
+        prefetchedChapters.current.delete(next.id)
+        if (error?.name !== "AbortError") console.warn("Could not prefetch the next chapter:", error)
+      })
+  }, [isLocalTitle, currentMangaDxChapter, currentPage, totalPages, readingList, imageQuality])
+
+  // Leaving the title cancels whatever is still being prefetched
+  useEffect(() => {
+    return () => {
+      prefetchController.current?.abort()
+      prefetchController.current = null
+      prefetchedChapters.current.clear()
+    }
+  }, [mangaDxId])
+
+  // Pages of chapters appended by the continuous strip
+  const loadStripChapter = useCallback(async (chapterId: string) => {
+    const result = await loadChapterPageUrls(chapterId, imageQualityRef.current)
+    if (result.offline) {
+      offlineObjectUrls.current.push(...result.urls)
+    }
+    return result
+  }, [])
+
+  // Page URLs from a fresh @Home node for a chapter whose pages keep failing
+  const refreshStripChapter = useCallback(
+    (chapterId: string) => resolveChapterPageUrls(chapterId, imageQualityRef.current, true),
+    []
+  )
+
+  // The continuous strip reports the page in the middle of the screen
+  const handleStripPosition = useCallback(({ chapter, page, pageUrls, offline }: StripPosition) => {
+    if (chapter.id !== currentMangaDxChapter?.id) {
+      shownChapterId.current = chapter.id
+      loadingStates.current.clear()
+      setLoadedImages(new Map())
+      setWidePages(new Set())
+      setCurrentMangaDxChapter(chapter)
+      setChapterTitle(`Chapter ${chapter.attributes.chapter || "?"}${chapter.attributes.title ? `: ${chapter.attributes.title}` : ""}`)
+      setImageUrls(pageUrls)
+      setTotalPages(pageUrls.length)
+      setIsOffline(offline)
+    }
+    setCurrentPage(page)
+  }, [currentMangaDxChapter])
+
+  // Guided view steps through the panels of a page before turning it
+  const isGuided = guidedView && readingMode === "single"
+  const guidedPageUrl = loadedImages.get(currentPage - 1)
+  const {
+    panels: pagePanels,
+    corrected: panelsCorrected,
+    setCorrection: setPanelCorrection,
+  } = usePagePanels(
+    guidedPageUrl && guidedPageUrl !== "loading" ? guidedPageUrl : null,
+    currentMangaDxChapter?.id ?? null,
+    currentPage - 1,
+    direction,
+    isGuided
+  )
+  const panelCount = pagePanels && pagePanels.length > 0 ? pagePanels.length : 1
+
+  useEffect(() => {
+    setPanelIndex(0)
+    setEditingPanels(false)
+  }, [currentPage, currentMangaDxChapter?.id])
+
+  useEffect(() => {
+    if (!pagePanels || !enterPageAtEnd.current) return
+    enterPageAtEnd.current = false
+    setPanelIndex(Math.max(0, pagePanels.length - 1))
+  }, [pagePanels])
+
+  const goForward = useCallback(() => {
+    if (isGuided && panelIndex < panelCount - 1) {
+      setPanelIndex(panelIndex + 1)
+    } else {
+      nextPage()
+    }
+  }, [isGuided, panelIndex, panelCount, nextPage])
+
+  const goBack = useCallback(() => {
+    if (isGuided && panelIndex > 0) {
+      setPanelIndex(panelIndex - 1)
+    } else {
+      enterPageAtEnd.current = isGuided && currentPage > 1
+      prevPage()
+    }
+  }, [isGuided, panelIndex, currentPage, prevPage])
+
+  const getStripElement = useCallback(() => stripRef.current?.getScrollElement() ?? null, [])
+  const handleAutoScrollEnd = useCallback(() => {
+    setAutoPlay(false)
+    toast.info("Reached the end of the last chapter")
+  }, [])
+  const { pause: pauseAutoScroll, handlers: autoScrollHandlers } = useAutoScroll({
+    getElement: getStripElement,
+    enabled: autoPlay && isContinuous,
+    speed: autoScrollSpeed,
+    onEnd: handleAutoScrollEnd,
+  })
 
   // Keyboard navigation
   useEffect(() => {
     const handleKeyPress = (e: KeyboardEvent) => {
-      if (e.target instanceof HTMLInputElement) return
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return
+      // The bindings editor records keys itself
+      if (showControlsEditor || editingPanels) return
+      if (e.ctrlKey || e.metaKey || e.altKey) return
+
+      const action = findAction(keyBindings, e.key)
+      if (showShortcuts) {
+        if (e.key === "Escape" || action === "showShortcuts") setShowShortcuts(false)
+        return
+      }
+
+      // Any other key holds auto-scroll for a moment
+      if (action !== "toggleAutoPlay" && action !== "autoScrollFaster" && action !== "autoScrollSlower") {
+        pauseAutoScroll()
+      }
 
-      switch (e.key) {
-        case "ArrowLeft":
+      switch (action) {
+        case "pageLeft":
           e.preventDefault()
-          direction === "rtl" ? nextPage() : prevPage()
+          direction === "rtl" ? goForward() : goBack()
           break
-        case "ArrowRight":
-        case " ":
+        case "pageRight":
           e.preventDefault()
-          direction === "rtl" ? prevPage() : nextPage()
+          direction === "rtl" ? goBack() : goForward()
           break
-        case "ArrowUp":
+        case "scrollUp":
           e.preventDefault()
           if (readingMode === "vertical" || readingMode === "webtoon") {
-            readerRef.current?.scrollBy(0, -100)
+            stripRef.current?.getScrollElement()?.scrollBy(0, -100)
           } else {
-            prevPage()
+            goBack()
           }
           break
-        case "ArrowDown":
+        case "scrollDown":
           e.preventDefault()
           if (readingMode === "vertical" || readingMode === "webtoon") {
-            readerRef.current?.scrollBy(0, 100)
+            stripRef.current?.getScrollElement()?.scrollBy(0, 100)
           } else {
-            nextPage()
+            goForward()
           }
           break
-        case "Escape":
+        case "exit":
           if (mangaDxId) {
-            router.push(`/manga/${mangaDxId}`)
+            router.push(isLocalTitle ? "/downloads" : `/manga/${mangaDxId}`)
           }
           break
-        case "f":
-        case "F11":
+        case "toggleFullscreen":
           e.preventDefault()
           toggleFullscreen()
           break
-        case "h":
+        case "toggleControls":
           setShowControls(!showControls)
           break
-        case "s":
+        case "toggleSettings":
           setShowSettings(!showSettings)
           break
+        case "showShortcuts":
+          setShowShortcuts(true)
+          break
+        case "toggleAutoPlay":
+          setAutoPlay(!autoPlay)
+          break
+        case "autoScrollFaster":
+          changeAutoScrollSpeed(1.25)
+          break
+        case "autoScrollSlower":
+          changeAutoScrollSpeed(0.8)
+          break
       }
       showControlsTemporarily()
     }
 
     window.addEventListener("keydown", handleKeyPress)
     return () => window.removeEventListener("keydown", handleKeyPress)
-  }, [currentPage, totalPages, router, showControlsTemporarily, mangaDxId, direction, readingMode, showControls, showSettings, nextPage, prevPage])
+  }, [
+    currentPage,
+    totalPages,
+    router,
+    showControlsTemporarily,
+    mangaDxId,
+    isLocalTitle,
+    direction,
+    readingMode,
+    showControls,
+    showSettings,
+    showShortcuts,
+    showControlsEditor,
+    keyBindings,
+    editingPanels,
+    goForward,
+    goBack,
+    autoPlay,
+    pauseAutoScroll,
+    changeAutoScrollSpeed,
+  ])
 
   const toggleFullscreen = useCallback(() => {
     if (!document.fullscreenElement) {
@@ -532,75 +1106,66 @@ export default function ReaderPage() {
     }
   }, [])
 
-  const handleScreenshot = useCallback(() => {
-    const canvas = document.createElement("canvas")
-    const ctx = canvas.getContext("2d")
+  const {
+    bookmarks: pageBookmarks,
+    addBookmark: addPageBookmark,
+    updateNote: updateBookmarkNote,
+    removeBookmark: removePageBookmark,
+  } = usePageBookmarks(mangaDxId)
+  const currentPageBookmark = pageBookmarks.find(
+    (bookmark) => bookmark.chapterId === currentMangaDxChapter?.id && bookmark.page === currentPage
+  )
 
-    if (!ctx) {
-      toast.error("Canvas not supported")
-      return
-    }
+  const handleAddPageBookmark = useCallback(async () => {
+    if (!mangaDxId || !currentMangaDxChapter) return null
 
+    const loaded = loadedImages.get(currentPage - 1)
+    const pageUrl = loaded && loaded !== "loading" ? loaded : imageUrls[currentPage - 1]
+    return addPageBookmark({
+      mangaId: mangaDxId,
+      mangaTitle,
+      mangaSlug: mangaSlugParam || mangaDxId,
+      chapterId: currentMangaDxChapter.id,
+      chapterNumber: currentMangaDxChapter.attributes.chapter,
+      page: currentPage,
+      note: null,
+      thumbnail: pageUrl ? await createBookmarkThumbnail(pageUrl) : null,
+    })
+  }, [mangaDxId, currentMangaDxChapter, loadedImages, imageUrls, currentPage, mangaTitle, mangaSlugParam, addPageBookmark])
+
+  // Saves the page the way it is shown, with crop and image adjustments
+  const handleScreenshot = useCallback(async () => {
     const currentImageUrl = loadedImages.get(currentPage - 1)
     if (!currentImageUrl || currentImageUrl === "loading" || currentImageUrl === "/placeholder.svg") {
       toast.error("Image not loaded yet")
       return
     }
 
-    const img = new window.Image()
-    img.crossOrigin = "anonymous"
-    img.onload = () => {
-      canvas.width = img.naturalWidth
-      canvas.height = img.naturalHeight
-      ctx.drawImage(img, 0, 0)
-
-      canvas.toBlob((blob) => {
-        if (blob) {
-          const url = URL.createObjectURL(blob)
-          const link = document.createElement("a")
-          link.href = url
-          link.download = `${mangaTitle}_Chapter_${currentMangaDxChapter?.attributes.chapter}_Page_${currentPage}.png`
-          document.body.appendChild(link)
-          link.click()
-          document.body.removeChild(link)
-          URL.revokeObjectURL(url)
-          toast.success("Screenshot saved!")
-        }
-      }, "image/png")
-    }
-    img.onerror = () => {
+    try {
+      const blob = await renderEnhancedPage(currentImageUrl, imageAdjustments, darkMode, cropMode)
+      saveBlob(blob, `${mangaTitle}_Chapter_${currentMangaDxChapter?.attributes.chapter}_Page_${currentPage}.png`)
+      toast.success("Screenshot saved!")
+    } catch (error) {
+      console.error("Error saving screenshot:", error)
       toast.error("Failed to load image for screenshot")
     }
-    img.src = currentImageUrl
-  }, [loadedImages, currentPage, mangaTitle, currentMangaDxChapter])
+  }, [loadedImages, currentPage, mangaTitle, currentMangaDxChapter, imageAdjustments, darkMode, cropMode])
 
   const handleDownloadChapter = useCallback(async () => {
     if (downloading || isOffline || !currentMangaDxChapter || !mangaDxId) return
 
     setDownloading(true)
     try {
-      // Calculate total size (estimate)
-      const estimatedSize = imageUrls.length * 500000 // 500KB per page estimate
-
-      const downloadData: DownloadedChapter = {
-        id: `${mangaDxId}-${currentMangaDxChapter.id}`,
+      await downloadChapter({
         mangaId: mangaDxId,
         mangaTitle: mangaTitle,
         mangaSlug: mangaDxId,
-        chapterId: currentMangaDxChapter.id,
-        chapterNumber: currentMangaDxChapter.attributes?.chapter || "Unknown",
-        chapterTitle: currentMangaDxChapter.attributes?.title || "",
-        posterUrl: kitsuManga?.attributes?.posterImage?.medium || "/placeholder.svg",
-        pages: imageUrls,
-        downloadedAt: new Date().toISOString(),
-        size: estimatedSize
-      }
-
-      const existingDownloads = JSON.parse(localStorage.getItem('manga_downloads') || '[]')
-      const updatedDownloads = existingDownloads.filter((d: DownloadedChapter) => d.id !== downloadData.id)
-      updatedDownloads.push(downloadData)
-      
-      localStorage.setItem('manga_downloads', JSON.stringify(updatedDownloads))
+        posterUrl: kitsuManga?.attributes?.posterImage?.medium,
+        seriesMetadata: buildSeriesMetadata({ manga: mangaDxManga, kitsuManga, direction }),
+        chapter: currentMangaDxChapter,
+        // Data saver pages are only for reading, downloads fetch the originals
+        pageUrls: imageQuality === "original" ? imageUrls : undefined,
+      })
       toast.success("Chapter downloaded for offline reading!")
     } catch (error) {
       console.error('Error downloading chapter:', error)
@@ -608,9 +1173,52 @@ export default function ReaderPage() {
     } finally {
       setDownloading(false)
     }
-  }, [downloading, isOffline, currentMangaDxChapter, imageUrls, mangaDxId, mangaTitle, kitsuManga])
+  }, [downloading, isOffline, currentMangaDxChapter, imageUrls, imageQuality, mangaDxId, mangaTitle, mangaDxManga, kitsuManga, direction])
+
+  const handleExport = useCallback(async (targetId: string, format: ExportFormat) => {
+    if (exporting || !currentMangaDxChapter) return
+
+    const volume = currentMangaDxChapter.attributes.volume
+    const chapters = targetId === "volume" && volume
+      ? readingList.filter((c) => c.attributes.volume === volume)
+      : [currentMangaDxChapter]
+
+    const metadata = buildExportMetadata({
+      series: mangaTitle,
+      title: targetId === "volume" ? `Volume ${volume}` : currentMangaDxChapter.attributes.title || undefined,
+      number: targetId === "volume" ? undefined : currentMangaDxChapter.attributes.chapter || undefined,
+      volume: volume || undefined,
+      manga: mangaDxManga,
+      kitsuManga,
+      direction,
+    })
+
+    setExporting(true)
+    const toastId = toast.loading(`Exporting ${format.toUpperCase()}...`)
+    try {
+      const blob = await exportChapters(
+        format,
+        metadata,
+        chapters.map((c) => ({
+          id: c.id,
+          number: c.attributes.chapter,
+          title: c.attributes.title,
+          pageUrls: c.id === currentMangaDxChapter.id && (isOffline || imageQuality === "original") ? imageUrls : undefined,
+        })),
+        (done, total) => toast.loading(`Exporting ${format.toUpperCase()}... (${done}/${total} chapters)`, { id: toastId })
+      )
+      saveBlob(blob, getExportFilename(metadata, format))
+      toast.success("Export complete!", { id: toastId })
+    } catch (error) {
+      console.error("Error exporting chapter:", error)
+      toast.error("Failed to export", { id: toastId })
+    } finally {
+      setExporting(false)
+    }
+  }, [exporting, currentMangaDxChapter, readingList, mangaTitle, mangaDxManga, kitsuManga, direction, imageUrls, imageQuality, isOffline])
 
-  const renderPage = useCallback((pageIndex: number, isSecondPage = false) => {
+  // `side` places one half of a two-page spread against the spine
+  const renderPage = useCallback((pageIndex: number, side?: "left" | "right") => {
     const imageUrl = loadedImages.get(pageIndex)
     const isLoaded = imageUrl && imageUrl !== "loading"
 
@@ -618,24 +1226,22 @@ export default function ReaderPage() {
       <div
         key={pageIndex}
         className={`relative flex-shrink-0 ${
-          readingMode === "double" ? "w-1/2" : "w-full"
-        } h-full flex items-center justify-center ${
+          side ? "w-1/2" : "w-full"
+        } h-full flex items-center ${
+          side === "left" ? "justify-end" : side === "right" ? "justify-start" : "justify-center"
+        } ${
           pageTransition ? "transition-transform duration-300 ease-in-out" : ""
         }`}
       >
         {isLoaded ? (
-          <Image
+          <PageImage
             src={imageUrl || "/placeholder.svg"}
+            cropMode={cropMode}
             alt={`Page ${pageIndex + 1}`}
             width={800}
             height={1200}
-            className={`max-w-full max-h-full object-contain ${
-              readingMode === "vertical" || readingMode === "webtoon" ? "w-full h-auto" : "h-full w-auto"
-            }`}
-            style={{
-              transform: `scale(${zoom / 100})`,
-              filter: darkMode ? "none" : "brightness(1.1) contrast(1.05)",
-            }}
+            className={FIT_MODE_CLASSES[fitMode]}
+            style={{ filter: imageFilter }}
             unoptimized
             priority={pageIndex === currentPage - 1}
           />
@@ -646,10 +1252,15 @@ export default function ReaderPage() {
         )}
       </div>
     )
-  }, [loadedImages, readingMode, pageTransition, zoom, darkMode, currentPage])
+  }, [loadedImages, pageTransition, fitMode, imageFilter, cropMode, currentPage])
+
+  const currentSpread = spreads[findSpreadIndex(spreads, currentPage - 1)] || [currentPage - 1]
 
-  // Early returns for loading and error states
-  if (loading) {
+  const detailsUrl = isLocalTitle ? "/downloads" : `/manga/${mangaDxId || mangaSlugParam}`
+
+  // Early returns for loading and error states. Pages wait for the reader
+  // preferences so they don't flash in the wrong mode.
+  if (loading || (!error && mangaDxId && !preferencesReady)) {
     return (
       <div className="min-h-screen bg-black flex items-center justify-center">
         <DummyMangaPage />
@@ -664,8 +1275,8 @@ export default function ReaderPage() {
           <h1 className="text-2xl font-bold text-red-400">Error</h1>
           <p className="text-gray-300">{error}</p>
           <div className="space-y-2">
-            <Button onClick={() => router.push(`/manga/${mangaDxId || mangaSlugParam}`)} variant="outline">
-              Go Back to Manga Details
+            <Button onClick={() => router.push(detailsUrl)} variant="outline">
+              {isLocalTitle ? "Go Back to Downloads" : "Go Back to Manga Details"}
             </Button>
             <Button onClick={() => window.location.reload()} variant="secondary">
               Reload Page
@@ -676,7 +1287,8 @@ export default function ReaderPage() {
     )
   }
 
-  if ((!kitsuManga && !isOffline) || imageUrls.length === 0) {
+  // Kitsu only adds artwork; sources it doesn't know, like the archive, still read
+  if ((!mangaDxManga && !isOffline) || imageUrls.length === 0) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-gray-900 via-black to-gray-900 flex items-center justify-center">
         <div className="text-center space-y-4">
@@ -684,16 +1296,23 @@ export default function ReaderPage() {
           <p className="text-gray-400">
             {imageUrls.length === 0 ? "No pages available for this chapter" : "Unable to load chapter data"}
           </p>
-          <Button onClick={() => router.push(`/manga/${mangaDxId || mangaSlugParam}`)} variant="outline">
-            Go Back to Manga Details
+          <Button onClick={() => router.push(detailsUrl)} variant="outline">
+            {isLocalTitle ? "Go Back to Downloads" : "Go Back to Manga Details"}
           </Button>
         </div>
       </div>
     )
   }
 
-  const canGoToPrevChapter = currentMangaDxChapter && allMangaDxChapters.findIndex((c) => c.id === currentMangaDxChapter.id) > 0
-  const canGoToNextChapter = currentMangaDxChapter && allMangaDxChapters.findIndex((c) => c.id === currentMangaDxChapter.id) < allMangaDxChapters.length - 1
+  const availableLanguages = mangaDxManga?.attributes.availableTranslatedLanguages || []
+
+  // Only the paged modes get tap zones, inside their page view so gestures reach it.
+  // Over a long strip they would swallow the wheel and touch scrolling.
+  const navigationZones = (
+    <TapZones zones={tapZoneList} onAction={(action) => (action === "next" ? goForward() : goBack())} />
+  )
+  const canGoToPrevChapter = currentMangaDxChapter && readingList.findIndex((c) => c.id === currentMangaDxChapter.id) > 0
+  const canGoToNextChapter = currentMangaDxChapter && readingList.findIndex((c) => c.id === currentMangaDxChapter.id) < readingList.length - 1
 
   return (
     <TooltipProvider>
@@ -702,21 +1321,7 @@ export default function ReaderPage() {
         className={`min-h-screen ${darkMode ? "bg-black" : "bg-gray-100"} relative overflow-hidden select-none`}
         onClick={showControlsTemporarily}
       >
-        {/* Navigation Zones */}
-        <div
-          className={`absolute ${direction === "rtl" ? "right-0" : "left-0"} top-0 w-1/3 h-full z-20 cursor-pointer`}
-          onClick={(e) => {
-            e.stopPropagation()
-            direction === "rtl" ? nextPage() : prevPage()
-          }}
-        />
-        <div
-          className={`absolute ${direction === "rtl" ? "left-0" : "right-0"} top-0 w-1/3 h-full z-20 cursor-pointer`}
-          onClick={(e) => {
-            e.stopPropagation()
-            direction === "rtl" ? prevPage() : nextPage()
-          }}
-        />
+        {imageAdjustments.gamma !== 1 && <GammaFilter gamma={imageAdjustments.gamma} />}
 
         {/* Top Controls */}
         <div
@@ -732,19 +1337,25 @@ export default function ReaderPage() {
                     <Button
                       variant="ghost"
                       size="sm"
-                      onClick={() => router.push(`/manga/${mangaDxId || mangaSlugParam}`)}
+                      onClick={() => router.push(detailsUrl)}
                       className="text-white hover:bg-gray-800"
                     >
                       <ArrowLeft className="w-4 h-4 mr-2" />
                       Back
                     </Button>
                   </TooltipTrigger>
-                  <TooltipContent>Back to Manga Details</TooltipContent>
+                  <TooltipContent>{isLocalTitle ? "Back to Downloads" : "Back to Manga Details"}</TooltipContent>
                 </Tooltip>
                 <div className="text-white">
                   <h1 className="font-semibold text-sm">{chapterTitle}</h1>
                   <p className="text-xs text-gray-400">
                     Page {currentPage} of {totalPages}
+                    {currentGroup && <span className="ml-2 text-gray-500">{currentGroup.name}</span>}
+                    {!isLocalTitle && currentMangaDxChapter?.attributes.translatedLanguage && (
+                      <Badge variant="outline" className="ml-2 px-1.5 text-[10px] text-gray-300 border-gray-600">
+                        {getLanguageBadge(currentMangaDxChapter.attributes.translatedLanguage)}
+                      </Badge>
+                    )}
                     {isOffline && <Badge className="ml-2 bg-green-600/20 text-green-400 text-xs">Offline</Badge>}
                   </p>
                 </div>
@@ -762,10 +1373,38 @@ export default function ReaderPage() {
                       {autoPlay ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
                     </Button>
                   </TooltipTrigger>
-                  <TooltipContent>{autoPlay ? "Pause Auto-play" : "Start Auto-play"}</TooltipContent>
+                  <TooltipContent>
+                    {isContinuous
+                      ? autoPlay ? "Stop Auto-scroll" : "Start Auto-scroll"
+                      : autoPlay ? "Pause Auto-play" : "Start Auto-play"}
+                  </TooltipContent>
                 </Tooltip>
 
-                {autoPlay && (
+                {autoPlay && isContinuous && (
+                  <div className="flex items-center gap-1 text-white">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => changeAutoScrollSpeed(0.8)}
+                      className="h-8 px-2 hover:bg-gray-800"
+                      title="Slower"
+                    >
+                      −
+                    </Button>
+                    <span className="text-xs w-16 text-center">{autoScrollSpeed} px/s</span>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => changeAutoScrollSpeed(1.25)}
+                      className="h-8 px-2 hover:bg-gray-800"
+                      title="Faster"
+                    >
+                      +
+                    </Button>
+                  </div>
+                )}
+
+                {autoPlay && !isContinuous && (
                   <Select
                     value={autoPlayTimeout.toString()}
                     onValueChange={(value) => setAutoPlayTimeout(Number(value))}
@@ -784,6 +1423,16 @@ export default function ReaderPage() {
                   </Select>
                 )}
 
+                {currentMangaDxChapter && (
+                  <PageBookmarkButton
+                    page={currentPage}
+                    bookmark={currentPageBookmark}
+                    onAdd={handleAddPageBookmark}
+                    onSaveNote={updateBookmarkNote}
+                    onRemove={removePageBookmark}
+                  />
+                )}
+
                 <Tooltip>
                   <TooltipTrigger asChild>
                     <Button
@@ -818,7 +1467,7 @@ export default function ReaderPage() {
 
         {/* Settings Panel */}
         {showSettings && (
-          <div className="fixed top-16 right-4 z-50 w-80">
+          <div className="fixed top-16 right-4 z-50 w-80 max-h-[calc(100vh-9rem)] overflow-y-auto">
             <Card className="bg-gray-900/95 backdrop-blur-md border-gray-700">
               <CardContent className="p-4 space-y-4">
                 <div className="flex items-center justify-between">
@@ -834,6 +1483,16 @@ export default function ReaderPage() {
                 </div>
 
                 <div className="space-y-3">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <label htmlFor="manga-profile" className="text-sm text-gray-300 block">Only for this manga</label>
+                      <p className="text-xs text-gray-500">
+                        {hasMangaProfile ? "Changes apply to this title only" : "Changes update your defaults"}
+                      </p>
+                    </div>
+                    <Switch id="manga-profile" checked={hasMangaProfile} onCheckedChange={setMangaProfile} />
+                  </div>
+
                   <div>
                     <label className="text-sm text-gray-300 block mb-2">Reading Mode</label>
                     <Select value={readingMode} onValueChange={(value: ReadingMode) => setReadingMode(value)}>
@@ -869,6 +1528,95 @@ export default function ReaderPage() {
                     </Select>
                   </div>
 
+                  {!isLocalTitle && currentMangaDxChapter && availableLanguages.length > 1 && (
+                    <div>
+                      <label className="text-sm text-gray-300 block mb-2">Language</label>
+                      <Select value={currentMangaDxChapter.attributes.translatedLanguage} onValueChange={switchLanguage}>
+                        <SelectTrigger className="bg-gray-800 border-gray-700 text-white">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {[...availableLanguages].sort().map((language) => (
+                            <SelectItem key={language} value={language}>
+                              {getLanguageName(language)} ({getLanguageBadge(language)})
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
+
+                  {currentGroup && (
+                    <div className="space-y-2">
+                      <label className="text-sm text-gray-300 block">Scanlation Group</label>
+                      {currentUploads.length > 1 && (
+                        <Select
+                          value={currentMangaDxChapter?.id}
+                          onValueChange={(chapterId) => router.push(`/reader/${mangaSlugParam}/1?chapter=${chapterId}`)}
+                        >
+                          <SelectTrigger className="bg-gray-800 border-gray-700 text-white">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {currentUploads.map((upload) => (
+                              <SelectItem key={upload.id} value={upload.id}>
+                                {getLanguageBadge(upload.attributes.translatedLanguage)} · {formatGroupNames(upload)}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      )}
+                      <div className="flex items-center justify-between">
+                        <div>
+                          <label htmlFor="preferred-group" className="text-sm text-gray-300 block">Prefer {currentGroup.name}</label>
+                          <p className="text-xs text-gray-500">Pick this group's uploads for this manga</p>
+                        </div>
+                        <Switch
+                          id="preferred-group"
+                          checked={preferredGroup === currentGroup.id}
+                          onCheckedChange={(checked) => setPreferredGroup(checked ? currentGroup.id : null)}
+                        />
+                      </div>
+                    </div>
+                  )}
+
+                  {readingMode === "double" && (
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <label htmlFor="spread-offset" className="text-sm text-gray-300 block">Shift by one page</label>
+                        <p className="text-xs text-gray-500">Show the first page alone so spreads line up</p>
+                      </div>
+                      <Switch id="spread-offset" checked={spreadOffset} onCheckedChange={toggleSpreadOffset} />
+                    </div>
+                  )}
+
+                  {!isContinuous && (
+                    <div>
+                      <label className="text-sm text-gray-300 block mb-2">Page Fit</label>
+                      <Select value={fitMode} onValueChange={(value: FitMode) => setFitMode(value)}>
+                        <SelectTrigger className="bg-gray-800 border-gray-700 text-white">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="screen">Fit Screen</SelectItem>
+                          <SelectItem value="width">Fit Width</SelectItem>
+                          <SelectItem value="height">Fit Height</SelectItem>
+                          <SelectItem value="original">Original Size</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
+
+                  {readingMode === "single" && (
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <label htmlFor="guided-view" className="text-sm text-gray-300 block">Guided view</label>
+                        <p className="text-xs text-gray-500">Steps through the panels of each page</p>
+                      </div>
+                      <Switch id="guided-view" checked={guidedView} onCheckedChange={setGuidedView} />
+                    </div>
+                  )}
+
                   <div>
                     <label className="text-sm text-gray-300 block mb-2">Reading Direction</label>
                     <Select value={direction} onValueChange={(value: Direction) => setDirection(value)}>
@@ -882,6 +1630,27 @@ export default function ReaderPage() {
                     </Select>
                   </div>
 
+                  {!isLocalTitle && (
+                    <div>
+                      <label className="text-sm text-gray-300 block mb-2">Image Quality</label>
+                      <Select value={imageQualitySetting} onValueChange={(value: ImageQualitySetting) => setImageQuality(value)}>
+                        <SelectTrigger className="bg-gray-800 border-gray-700 text-white">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="auto">Auto</SelectItem>
+                          <SelectItem value="original">Original</SelectItem>
+                          <SelectItem value="data-saver">Data Saver</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      {imageQualitySetting === "auto" && (
+                        <p className="text-xs text-gray-500 mt-1">
+                          {slowConnection ? "Using data saver on this connection" : "Using original quality"}
+                        </p>
+                      )}
+                    </div>
+                  )}
+
                   <div>
                     <label className="text-sm text-gray-300 block mb-2">Theme</label>
                     <Button
@@ -894,13 +1663,103 @@ export default function ReaderPage() {
                     </Button>
                   </div>
 
+                  <div className="space-y-3">
+                    <div className="flex items-center justify-between">
+                      <label className="text-sm text-gray-300">Image</label>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => updatePreferences({ imageAdjustments: DEFAULT_IMAGE_ADJUSTMENTS })}
+                        className="h-6 px-2 text-xs text-gray-400 hover:text-white"
+                      >
+                        Reset
+                      </Button>
+                    </div>
+                    <div>
+                      <label className="text-xs text-gray-400 block mb-2">Brightness: {imageAdjustments.brightness}%</label>
+                      <Slider
+                        value={[imageAdjustments.brightness]}
+                        onValueChange={(value) => adjustImage({ brightness: value[0] })}
+                        min={BRIGHTNESS_RANGE.min}
+                        max={BRIGHTNESS_RANGE.max}
+                        step={5}
+                      />
+                    </div>
+                    <div>
+                      <label className="text-xs text-gray-400 block mb-2">Contrast: {imageAdjustments.contrast}%</label>
+                      <Slider
+                        value={[imageAdjustments.contrast]}
+                        onValueChange={(value) => adjustImage({ contrast: value[0] })}
+                        min={CONTRAST_RANGE.min}
+                        max={CONTRAST_RANGE.max}
+                        step={5}
+                      />
+                    </div>
+                    <div>
+                      <label className="text-xs text-gray-400 block mb-2">Gamma: {imageAdjustments.gamma.toFixed(1)}</label>
+                      <Slider
+                        value={[imageAdjustments.gamma]}
+                        onValueChange={(value) => adjustImage({ gamma: Math.round(value[0] * 10) / 10 })}
+                        min={GAMMA_RANGE.min}
+                        max={GAMMA_RANGE.max}
+                        step={0.1}
+                      />
+                    </div>
+                    <Select
+                      value={imageAdjustments.colorMode}
+                      onValueChange={(value: ColorMode) => adjustImage({ colorMode: value })}
+                    >
+                      <SelectTrigger className="bg-gray-800 border-gray-700 text-white">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="normal">Original Colors</SelectItem>
+                        <SelectItem value="grayscale">Grayscale</SelectItem>
+                        <SelectItem value="sepia">Sepia</SelectItem>
+                        <SelectItem value="invert">Night (Inverted)</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <label htmlFor="auto-crop" className="text-sm text-gray-300 block">Trim margins</label>
+                        <p className="text-xs text-gray-500">Cuts white and black borders off pages</p>
+                      </div>
+                      <Switch
+                        id="auto-crop"
+                        checked={imageAdjustments.autoCrop}
+                        onCheckedChange={(checked) => adjustImage({ autoCrop: checked })}
+                      />
+                    </div>
+                  </div>
+
+                  <div>
+                    <label className="text-sm text-gray-300 block mb-2">Controls</label>
+                    <div className="flex gap-2">
+                      <Button
+                        variant="outline"
+                        onClick={() => setShowControlsEditor(true)}
+                        className="flex-1 justify-start border-gray-700 text-white"
+                      >
+                        <Keyboard className="w-4 h-4 mr-2" />
+                        Keys & Taps
+                      </Button>
+                      <Button
+                        variant="outline"
+                        onClick={() => setShowShortcuts(true)}
+                        className="border-gray-700 text-white"
+                      >
+                        Cheat Sheet
+                      </Button>
+                    </div>
+                  </div>
+
                   <div>
                     <label className="text-sm text-gray-300 block mb-2">Zoom: {zoom}%</label>
                     <Slider
                       value={[zoom]}
                       onValueChange={(value) => setZoom(value[0])}
-                      min={50}
-                      max={200}
+                      min={MIN_ZOOM}
+                      max={MAX_ZOOM}
                       step={25}
                       className="w-full"
                     />
@@ -911,28 +1770,97 @@ export default function ReaderPage() {
           </div>
         )}
 
+        {showShortcuts && (
+          <ShortcutsOverlay
+            keyBindings={keyBindings}
+            zones={isContinuous ? [] : tapZoneList}
+            swipeToTurn={swipeToTurn}
+            onClose={() => setShowShortcuts(false)}
+            onCustomize={() => {
+              setShowShortcuts(false)
+              setShowControlsEditor(true)
+            }}
+          />
+        )}
+
+        <ReaderControlsDialog
+          open={showControlsEditor}
+          onOpenChange={setShowControlsEditor}
+          keyBindings={keyBindings}
+          onKeyBindingsChange={setKeyBindings}
+          tapZones={tapZones}
+          onTapZonesChange={setTapZones}
+          swipeToTurn={swipeToTurn}
+          onSwipeToTurnChange={setSwipeToTurn}
+          direction={direction}
+        />
+
         {/* Reading Area */}
-        <div className="h-screen flex items-center justify-center p-4 pt-16 pb-20">
-          {readingMode === "vertical" || readingMode === "webtoon" ? (
-            <div className="max-w-4xl mx-auto space-y-1 overflow-y-auto h-full">
-              {imageUrls.map((_, index) => renderPage(index))}
-            </div>
-          ) : readingMode === "double" ? (
-            <div className={`flex h-full max-w-6xl mx-auto ${direction === "rtl" ? "flex-row-reverse" : "flex-row"}`}>
-              {direction === "rtl" ? (
-                <>
-                  {currentPage < totalPages && renderPage(currentPage, true)}
-                  {renderPage(currentPage - 1)}
-                </>
+        <div
+          className="h-screen flex items-center justify-center p-4 pt-16 pb-20"
+          {...(isContinuous ? autoScrollHandlers : {})}
+        >
+          {isContinuous && currentMangaDxChapter ? (
+            <ContinuousStrip
+              key={chapterLoadCount}
+              ref={stripRef}
+              chapters={readingList}
+              initialChapter={currentMangaDxChapter}
+              initialPageUrls={imageUrls}
+              initialOffline={isOffline}
+              initialPage={currentPage}
+              gapless={readingMode === "webtoon"}
+              imageStyle={{
+                transform: `scale(${zoom / 100})`,
+                filter: imageFilter,
+              }}
+              cropMode={cropMode}
+              loadChapter={loadStripChapter}
+              refreshChapter={refreshStripChapter}
+              onPositionChange={handleStripPosition}
+            />
+          ) : isGuided && guidedPageUrl && guidedPageUrl !== "loading" ? (
+            <GuidedPageView
+              src={guidedPageUrl}
+              panels={pagePanels}
+              panelIndex={panelIndex}
+              imageStyle={{ filter: imageFilter }}
+              overlay={navigationZones}
+              editing={editingPanels}
+              corrected={panelsCorrected}
+              onPanelsChange={(panels) => {
+                setPanelCorrection(panels)
+                setPanelIndex(0)
+              }}
+              onEditDone={() => setEditingPanels(false)}
+            />
+          ) : (
+            <ZoomablePageView
+              zoom={zoom}
+              onZoomChange={setZoom}
+              pageKey={readingMode === "double" ? currentSpread[0] : currentPage}
+              loupe={loupeEnabled}
+              overlay={navigationZones}
+              // Swiping towards the start of the book goes back
+              onSwipe={
+                swipeToTurn
+                  ? (swipe) => ((swipe === "left") === (direction === "ltr") ? goForward() : goBack())
+                  : undefined
+              }
+            >
+              {readingMode === "double" ? (
+                <div className={`flex h-full w-full max-w-6xl mx-auto ${direction === "rtl" ? "flex-row-reverse" : "flex-row"}`}>
+                  {currentSpread.length === 2
+                    ? currentSpread.map((pageIndex, i) =>
+                        // The first page of a pair sits on the left for LTR and on the right for RTL
+                        renderPage(pageIndex, (i === 0) === (direction === "ltr") ? "left" : "right")
+                      )
+                    : renderPage(currentSpread[0])}
+                </div>
               ) : (
-                <>
-                  {renderPage(currentPage - 1)}
-                  {currentPage < totalPages && renderPage(currentPage, true)}
-                </>
+                renderPage(currentPage - 1)
               )}
-            </div>
-          ) : (
-            <div className="h-full w-full flex items-center justify-center">{renderPage(currentPage - 1)}</div>
+            </ZoomablePageView>
           )}
         </div>
 
@@ -966,6 +1894,9 @@ export default function ReaderPage() {
                     value={[currentPage]}
                     onValueChange={(value) => {
                       const newPage = value[0]
+                      if (isContinuous && currentMangaDxChapter) {
+                        stripRef.current?.scrollToPage(currentMangaDxChapter.id, newPage)
+                      }
                       setCurrentPage(newPage)
                       updateURL(newPage)
                       saveReadingProgress(newPage)
@@ -1003,7 +1934,7 @@ export default function ReaderPage() {
                         <Button
                           variant="ghost"
                           size="sm"
-                          onClick={() => setZoom(Math.max(50, zoom - 25))}
+                          onClick={() => setZoom(Math.max(MIN_ZOOM, zoom - 25))}
                           className="text-white hover:bg-gray-800"
                         >
                           <ZoomOut className="w-3 h-3" />
@@ -1017,7 +1948,7 @@ export default function ReaderPage() {
                         <Button
                           variant="ghost"
                           size="sm"
-                          onClick={() => setZoom(Math.min(200, zoom + 25))}
+                          onClick={() => setZoom(Math.min(MAX_ZOOM, zoom + 25))}
                           className="text-white hover:bg-gray-800"
                         >
                           <ZoomIn className="w-3 h-3" />
@@ -1038,6 +1969,39 @@ export default function ReaderPage() {
                       </TooltipTrigger>
                       <TooltipContent>Reset Zoom</TooltipContent>
                     </Tooltip>
+                    {!isContinuous && (
+                      <Tooltip>
+                        <TooltipTrigger asChild>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setLoupeEnabled(!loupeEnabled)}
+                            className={`text-white hover:bg-gray-800 ${loupeEnabled ? "bg-red-600/20 text-red-400" : ""}`}
+                          >
+                            <Search className="w-3 h-3" />
+                          </Button>
+                        </TooltipTrigger>
+                        <TooltipContent>{loupeEnabled ? "Hide Magnifier" : "Magnifier"}</TooltipContent>
+                      </Tooltip>
+                    )}
+                    {isGuided && (
+                      <Tooltip>
+                        <TooltipTrigger asChild>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setEditingPanels(!editingPanels)}
+                            className={`text-white hover:bg-gray-800 ${editingPanels ? "bg-red-600/20 text-red-400" : ""}`}
+                          >
+                            <LayoutGrid className="w-3 h-3 mr-1" />
+                            <span className="text-xs">
+                              {pagePanels ? `${panelIndex + 1}/${panelCount}` : "…"}
+                            </span>
+                          </Button>
+                        </TooltipTrigger>
+                        <TooltipContent>Edit Panels</TooltipContent>
+                      </Tooltip>
+                    )}
                   </div>
                 </div>
 
@@ -1056,6 +2020,26 @@ export default function ReaderPage() {
                     </TooltipTrigger>
                     <TooltipContent>Screenshot</TooltipContent>
                   </Tooltip>
+
+                  <ExportMenu
+                    targets={[
+                      { id: "chapter", label: "This chapter" },
+                      ...(currentMangaDxChapter?.attributes.volume
+                        ? [{ id: "volume", label: `Volume ${currentMangaDxChapter.attributes.volume}` }]
+                        : []),
+                    ]}
+                    onExport={handleExport}
+                    disabled={exporting}
+                  >
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="text-white hover:bg-gray-800"
+                      title={exporting ? "Exporting..." : "Export"}
+                    >
+                      <FileDown className="w-4 h-4" />
+                    </Button>
+                  </ExportMenu>
                   
                   {!isOffline && (
                     <Tooltip>
@@ -14,7 +14,7 @@ import { Checkbox } from "@/components/ui/checkbox"
 import { Slider } from "@/components/ui/slider"
 import { Separator } from "@/components/ui/separator"
 import { Card, CardContent } from "@/components/ui/card"
-import { searchMangaDxManga, getPrimaryEnglishTitle, type Manga } from "@/lib/mangadx-api"
+import { getPrimaryEnglishTitle, getSourceForId, searchSources, type Manga } from "@/lib/sources"
 import { searchKitsuManga, getKitsuPosterImage, type KitsuManga } from "@/lib/kitsu-api"
 import LoadingSpinner from "@/components/loading-spinner"
 import { useDebounce } from "@/hooks/use-debounce"
@@ -131,12 +131,12 @@ export default function SearchPage() {
     setLoading(true)
     try {
       const offset = (currentPage - 1) * 20
-      const mangadxData = await searchMangaDxManga(query, 20, offset)
-      const mangadxMangaList = mangadxData.data || []
-      setTotalResults(mangadxData.total || 0)
+      const searchData = await searchSources(query, { limit: 20, offset })
+      const mangaList = searchData.data || []
+      setTotalResults(searchData.total || 0)
 
       const enrichedResults = await Promise.all(
-        mangadxMangaList.map(async (mdManga) => {
+        mangaList.map(async (mdManga) => {
           const mdTitle = getPrimaryEnglishTitle(mdManga)
           let kitsuPosterUrl: string | undefined
           let foundKitsuManga: KitsuManga | undefined
@@ -156,7 +156,10 @@ export default function SearchPage() {
 
           return {
             ...mdManga,
-            kitsuPosterUrl: kitsuPosterUrl || "/placeholder.svg?height=300&width=225",
+            kitsuPosterUrl:
+              kitsuPosterUrl ||
+              getSourceForId(mdManga.id).getCoverUrl(mdManga, 256) ||
+              "/placeholder.svg?height=300&width=225",
             kitsuManga: foundKitsuManga,
           }
         }),
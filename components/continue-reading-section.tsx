@@ -6,6 +6,7 @@ import { Button } from '@/components/ui/button'
 import Link from 'next/link'
 import Image from 'next/image'
 import { Badge } from '@/components/ui/badge'
+import { isLocalMangaId } from '@/lib/local-import'
 
 interface ContinueReadingItem {
   lastTime: string
@@ -119,7 +120,12 @@ export default function ContinueReadingSection() {
         {continueReading.map((item) => (
           <Link
             key={`${item.mangaSlug}-${item.lastTime}`}
-            href={`/manga/${item.mangaSlug}`}
+            href={
+              // Imported titles have no details page, so resume them directly
+              isLocalMangaId(item.mangaSlug)
+                ? `/reader/${item.mangaSlug}/${item.chapterPage.page}?chapter=${item.mangaId}`
+                : `/manga/${item.mangaSlug}`
+            }
             className="group relative"
           >
             <div className="relative bg-gradient-to-br from-gray-800/30 to-gray-900/30 backdrop-blur-sm rounded-2xl overflow-hidden border border-gray-700/30 hover:border-red-500/50 transition-all duration-300 hover:scale-105 hover:shadow-2xl hover:shadow-red-500/20">
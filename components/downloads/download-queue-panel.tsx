@@ -0,0 +1,107 @@
+'use client'
+
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Progress } from '@/components/ui/progress'
+import { Pause, Play, RotateCcw, X, ListChecks } from 'lucide-react'
+import { useDownloadQueue } from '@/hooks/use-download-queue'
+import type { QueueItemStatus } from '@/lib/download-queue'
+
+const statusStyles: Record<QueueItemStatus, { label: string; className: string }> = {
+  queued: { label: 'Queued', className: 'bg-gray-600/20 text-gray-300 border-gray-600/30' },
+  downloading: { label: 'Downloading', className: 'bg-blue-600/20 text-blue-400 border-blue-600/30' },
+  completed: { label: 'Done', className: 'bg-green-600/20 text-green-400 border-green-600/30' },
+  failed: { label: 'Failed', className: 'bg-red-600/20 text-red-400 border-red-600/30' },
+}
+
+export default function DownloadQueuePanel() {
+  const { items, paused, pause, resume, retry, retryFailed, remove, clearFinished } = useDownloadQueue()
+
+  if (items.length === 0) {
+    return null
+  }
+
+  const hasFailed = items.some(item => item.status === 'failed')
+  const hasFinished = items.some(item => item.status === 'completed')
+  const remaining = items.filter(item => item.status === 'queued' || item.status === 'downloading').length
+
+  return (
+    <Card className="bg-gray-800/30 border-gray-700/50">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="text-white text-lg">
+          Download Queue
+          <span className="ml-2 text-sm font-normal text-gray-400">
+            {remaining} remaining{paused && ' • paused'}
+          </span>
+        </CardTitle>
+        <div className="flex gap-2">
+          {hasFailed && (
+            <Button variant="outline" size="sm" onClick={retryFailed}>
+              <RotateCcw className="w-4 h-4 mr-2" />
+              Retry Failed
+            </Button>
+          )}
+          {hasFinished && (
+            <Button variant="outline" size="sm" onClick={clearFinished}>
+              <ListChecks className="w-4 h-4 mr-2" />
+              Clear Finished
+            </Button>
+          )}
+          <Button size="sm" onClick={paused ? resume : pause}>
+            {paused ? <Play className="w-4 h-4 mr-2" /> : <Pause className="w-4 h-4 mr-2" />}
+            {paused ? 'Resume' : 'Pause'}
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {items.map(item => {
+          const percent = item.totalPages > 0 ? Math.round((item.downloadedPages / item.totalPages) * 100) : 0
+          const style = statusStyles[item.status]
+
+          return (
+            <div key={item.id} className="p-3 bg-gray-900/40 rounded-lg space-y-2">
+              <div className="flex items-center justify-between gap-3">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-white truncate">{item.mangaTitle}</p>
+                  <p className="text-xs text-gray-400 truncate">
+                    Chapter {item.chapter.attributes.chapter || '?'}
+                    {item.chapter.attributes.title && `: ${item.chapter.attributes.title}`}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2 flex-shrink-0">
+                  <Badge className={style.className}>{style.label}</Badge>
+                  {item.status === 'failed' && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => retry(item.id)}
+                      className="h-8 w-8 text-gray-400 hover:text-white"
+                      title={item.error}
+                    >
+                      <RotateCcw className="w-4 h-4" />
+                    </Button>
+                  )}
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => remove(item.id)}
+                    className="h-8 w-8 text-red-400 hover:text-red-300 hover:bg-red-500/10"
+                  >
+                    <X className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+              <div className="flex items-center gap-3">
+                <Progress value={item.status === 'completed' ? 100 : percent} className="h-2 flex-1" />
+                <span className="text-xs text-gray-500 w-16 text-right">
+                  {item.downloadedPages}/{item.totalPages || '?'}
+                </span>
+              </div>
+            </div>
+          )
+        })}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,185 @@
+'use client'
+
+import { useRef, useState, type ChangeEvent, type DragEvent } from 'react'
+import { Card, CardContent } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { FileArchive, FolderUp, Loader2, Upload } from 'lucide-react'
+import { toast } from 'sonner'
+import { isArchiveFile } from '@/lib/comic-archive'
+import { importArchiveFile, importImageFolder, type ImportFile } from '@/lib/local-import'
+
+interface ImportPanelProps {
+  onImported: () => void
+}
+
+// Archives and folders picked at the same time, before import
+interface ImportSelection {
+  archives: File[]
+  folders: Map<string, ImportFile[]>
+}
+
+function addFolderFile(folders: Map<string, ImportFile[]>, path: string, file: File) {
+  const [folderName, ...rest] = path.split('/')
+  folders.set(folderName, [...(folders.get(folderName) || []), { file, path: rest.join('/') }])
+}
+
+function readEntries(reader: FileSystemDirectoryReader): Promise<FileSystemEntry[]> {
+  return new Promise((resolve, reject) => reader.readEntries(resolve, reject))
+}
+
+// Walks a dropped folder; readEntries returns entries in batches until empty
+async function collectEntry(entry: FileSystemEntry, selection: ImportSelection) {
+  if (entry.isFile) {
+    const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject))
+    if (isArchiveFile(file.name)) {
+      selection.archives.push(file)
+    } else if (entry.fullPath.split('/').length > 2) {
+      addFolderFile(selection.folders, entry.fullPath.replace(/^\//, ''), file)
+    }
+    return
+  }
+
+  const reader = (entry as FileSystemDirectoryEntry).createReader()
+  let batch = await readEntries(reader)
+  while (batch.length > 0) {
+    for (const child of batch) {
+      await collectEntry(child, selection)
+    }
+    batch = await readEntries(reader)
+  }
+}
+
+export default function ImportPanel({ onImported }: ImportPanelProps) {
+  const archiveInput = useRef<HTMLInputElement>(null)
+  const folderInput = useRef<HTMLInputElement>(null)
+  const [importing, setImporting] = useState(false)
+  const [dragging, setDragging] = useState(false)
+
+  const runImport = async (selection: ImportSelection) => {
+    const total = selection.archives.length + selection.folders.size
+    if (total === 0) {
+      toast.error('No CBZ/ZIP archives or image folders found')
+      return
+    }
+
+    setImporting(true)
+    const toastId = toast.loading('Importing...')
+    let chapters = 0
+    let failed = 0
+
+    for (const file of selection.archives) {
+      try {
+        await importArchiveFile(file)
+        chapters++
+      } catch (error) {
+        console.error(`Error importing ${file.name}:`, error)
+        failed++
+      }
+    }
+
+    for (const [folderName, files] of Array.from(selection.folders)) {
+      try {
+        const imported = await importImageFolder(files, folderName)
+        if (imported.length === 0) failed++
+        chapters += imported.length
+      } catch (error) {
+        console.error(`Error importing folder ${folderName}:`, error)
+        failed++
+      }
+    }
+
+    setImporting(false)
+    onImported()
+
+    if (chapters > 0) {
+      toast.success(`Imported ${chapters} chapter${chapters === 1 ? '' : 's'}${failed ? ` (${failed} failed)` : ''}`, { id: toastId })
+    } else {
+      toast.error('Failed to import', { id: toastId })
+    }
+  }
+
+  const handleArchives = (e: ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || [])
+    e.target.value = ''
+    runImport({ archives: files.filter((file) => isArchiveFile(file.name)), folders: new Map() })
+  }
+
+  const handleFolder = (e: ChangeEvent<HTMLInputElement>) => {
+    const selection: ImportSelection = { archives: [], folders: new Map() }
+    Array.from(e.target.files || []).forEach((file) => {
+      if (isArchiveFile(file.name)) {
+        selection.archives.push(file)
+      } else {
+        addFolderFile(selection.folders, file.webkitRelativePath || file.name, file)
+      }
+    })
+    e.target.value = ''
+    runImport(selection)
+  }
+
+  const handleDrop = async (e: DragEvent<HTMLDivElement>) => {
+    e.preventDefault()
+    setDragging(false)
+    if (importing) return
+
+    // Entries have to be grabbed before the first await, the list is cleared afterwards
+    const entries = Array.from(e.dataTransfer.items)
+      .map((item) => item.webkitGetAsEntry())
+      .filter((entry): entry is FileSystemEntry => !!entry)
+
+    const selection: ImportSelection = { archives: [], folders: new Map() }
+    try {
+      for (const entry of entries) {
+        await collectEntry(entry, selection)
+      }
+    } catch (error) {
+      console.error('Error reading dropped files:', error)
+    }
+    runImport(selection)
+  }
+
+  return (
+    <Card
+      className={`bg-gray-800/30 border-dashed transition-colors ${dragging ? 'border-red-500' : 'border-gray-700/50'}`}
+      onDragOver={(e) => {
+        e.preventDefault()
+        setDragging(true)
+      }}
+      onDragLeave={() => setDragging(false)}
+      onDrop={handleDrop}
+    >
+      <CardContent className="p-6">
+        <div className="flex flex-col md:flex-row items-center gap-4">
+          <div className="p-3 bg-red-600/20 rounded-full">
+            {importing ? <Loader2 className="w-6 h-6 text-red-400 animate-spin" /> : <Upload className="w-6 h-6 text-red-400" />}
+          </div>
+          <div className="flex-1 text-center md:text-left">
+            <h3 className="text-lg font-semibold text-white">Import Local Manga</h3>
+            <p className="text-gray-400">
+              Drop CBZ/ZIP archives or folders of images here. Folders with one subfolder per chapter become a single title.
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" disabled={importing} onClick={() => archiveInput.current?.click()}>
+              <FileArchive className="w-4 h-4 mr-2" />
+              Archives
+            </Button>
+            <Button variant="outline" disabled={importing} onClick={() => folderInput.current?.click()}>
+              <FolderUp className="w-4 h-4 mr-2" />
+              Folder
+            </Button>
+          </div>
+        </div>
+        <input ref={archiveInput} type="file" accept=".cbz,.zip" multiple hidden onChange={handleArchives} />
+        <input
+          ref={folderInput}
+          type="file"
+          multiple
+          hidden
+          onChange={handleFolder}
+          {...({ webkitdirectory: '' } as Record<string, string>)}
+        />
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,47 @@
+'use client'
+
+import type { ReactNode } from 'react'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import { EXPORT_FORMATS, type ExportFormat } from '@/lib/export'
+
+export interface ExportTarget {
+  id: string
+  label: string
+}
+
+interface ExportMenuProps {
+  targets: ExportTarget[]
+  onExport: (targetId: string, format: ExportFormat) => void
+  disabled?: boolean
+  children: ReactNode
+}
+
+export default function ExportMenu({ targets, onExport, disabled, children }: ExportMenuProps) {
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild disabled={disabled}>
+        {children}
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-56">
+        {targets.map((target, index) => (
+          <div key={target.id}>
+            {index > 0 && <DropdownMenuSeparator />}
+            <DropdownMenuLabel>{target.label}</DropdownMenuLabel>
+            {EXPORT_FORMATS.map(format => (
+              <DropdownMenuItem key={format.value} onClick={() => onExport(target.id, format.value)}>
+                {format.label}
+              </DropdownMenuItem>
+            ))}
+          </div>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
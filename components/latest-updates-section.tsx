@@ -5,7 +5,7 @@ import { Clock, BookOpen } from "lucide-react"
 import { Badge } from "@/components/ui/badge"
 import Link from "next/link"
 import Image from "next/image"
-import { getLatestUpdates, getCoverImage } from "@/lib/mangadex-api"
+import { getMangaDxCoverImage, getMangaDxLatestUpdates } from "@/lib/sources/mangadex"
 
 export default function LatestUpdatesSection() {
   const [updates, setUpdates] = useState<any[]>([])
@@ -14,7 +14,7 @@ export default function LatestUpdatesSection() {
   useEffect(() => {
     const fetchUpdates = async () => {
       try {
-        const data = await getLatestUpdates(12)
+        const data = await getMangaDxLatestUpdates(12)
         setUpdates(data.data || [])
       } catch (error) {
         console.error("Error fetching latest updates:", error)
@@ -64,7 +64,7 @@ export default function LatestUpdatesSection() {
           const coverRelationship = chapter.relationships.find((rel: any) => rel.type === "cover_art")
           const coverFilename = coverRelationship?.attributes?.fileName
           const coverUrl = coverFilename
-            ? getCoverImage(mangaRelationship.id, coverFilename)
+            ? getMangaDxCoverImage(mangaRelationship.id, coverFilename)
             : "/placeholder.svg?height=300&width=225"
 
           const title = manga.title?.en || manga.title?.[Object.keys(manga.title)[0]] || "Unknown Title"
@@ -4,6 +4,7 @@ import React, { useState, useEffect } from 'react'
 import { Button } from '@/components/ui/button'
 import { 
   DropdownMenu, 
+  DropdownMenuCheckboxItem,
   DropdownMenuContent, 
   DropdownMenuItem, 
   DropdownMenuTrigger 
@@ -12,7 +13,7 @@ import { Badge } from '@/components/ui/badge'
 import { ChevronDown, Plus, BookOpen, Clock, Pause, X, Check, RotateCcw } from 'lucide-react'
 import { READING_STATUSES, type ReadingStatus } from '@/lib/library'
 import { useAuth } from '@/contexts/auth-context'
-import { addToLibrary, updateLibraryEntry, removeFromLibrary, getLibraryEntry } from '@/lib/library'
+import { addToLibrary, updateLibraryEntry, removeFromLibrary, getLibraryEntry, setAutoTrack } from '@/lib/library'
 import { toast } from 'sonner'
 import QuickAddDialog from './quick-add-dialog'
 
@@ -42,6 +43,7 @@ export default function LibraryStatusSelector({
 }: LibraryStatusSelectorProps) {
   const { user } = useAuth()
   const [currentStatus, setCurrentStatus] = useState<ReadingStatus | null>(null)
+  const [autoTrack, setAutoTrackState] = useState(true)
   const [loading, setLoading] = useState(false)
   const [showQuickAdd, setShowQuickAdd] = useState(false)
 
@@ -57,6 +59,7 @@ export default function LibraryStatusSelector({
     try {
       const entry = await getLibraryEntry(user.id, mangaData.manga_id)
       setCurrentStatus(entry?.status || null)
+      setAutoTrackState(entry?.auto_track ?? true)
     } catch (error) {
       console.error('Error checking library status:', error)
     }
@@ -90,6 +93,20 @@ export default function LibraryStatusSelector({
     }
   }
 
+  const handleAutoTrackChange = async (enabled: boolean) => {
+    if (!user || !currentStatus) return
+
+    setAutoTrackState(enabled)
+    const { error } = await setAutoTrack(user.id, mangaData.manga_id, enabled)
+    if (error) {
+      console.error('Error updating progress tracking:', error)
+      setAutoTrackState(!enabled)
+      toast.error('Failed to update progress tracking')
+      return
+    }
+    toast.success(enabled ? 'Reading progress will be tracked' : 'Stopped tracking reading progress')
+  }
+
   const handleRemoveFromLibrary = async () => {
     if (!user || !currentStatus) return
 
@@ -171,6 +188,12 @@ export default function LibraryStatusSelector({
           {currentStatus && (
             <>
               <div className="border-t my-1" />
+              <DropdownMenuCheckboxItem
+                checked={autoTrack}
+                onCheckedChange={handleAutoTrackChange}
+              >
+                Track progress from reader
+              </DropdownMenuCheckboxItem>
               <DropdownMenuItem
                 onClick={handleRemoveFromLibrary}
                 className="flex items-center gap-2 text-red-600 hover:text-red-700"
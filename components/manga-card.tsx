@@ -7,7 +7,7 @@ import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
 import { Plus, Star, Eye, Calendar, Bookmark } from 'lucide-react'
 import QuickAddDialog from '@/components/library/quick-add-dialog'
-import { getPrimaryEnglishTitle } from '@/lib/mangadx-api'
+import { getPrimaryEnglishTitle } from '@/lib/sources'
 import { titleToSlug } from '@/lib/slugify'
 
 interface MangaCardProps {
@@ -0,0 +1,154 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Download, X } from 'lucide-react'
+import { toast } from 'sonner'
+import type { Chapter } from '@/lib/sources'
+import { downloadQueue, type QueueMangaInfo } from '@/lib/download-queue'
+
+interface DownloadRangeDialogProps {
+  chapters: Chapter[]
+  manga: QueueMangaInfo
+  readChapterIds?: Set<string>
+}
+
+const chapterNumber = (chapter: Chapter) => Number.parseFloat(chapter.attributes.chapter || '0')
+
+// Chapters not marked as read, or after the one recorded in the reader's
+// reading history when there is no read state yet
+function getUnreadChapters(chapters: Chapter[], mangaId: string, readChapterIds?: Set<string>) {
+  if (readChapterIds && readChapterIds.size > 0) {
+    return chapters.filter(chapter => !readChapterIds.has(chapter.id))
+  }
+
+  try {
+    const readingHistory = JSON.parse(localStorage.getItem('readingHistory') || '{}')
+    const lastRead = Number.parseFloat(readingHistory[mangaId]?.chapter)
+    if (Number.isNaN(lastRead)) return chapters
+    return chapters.filter(chapter => chapterNumber(chapter) > lastRead)
+  } catch {
+    return chapters
+  }
+}
+
+export default function DownloadRangeDialog({ chapters, manga, readChapterIds }: DownloadRangeDialogProps) {
+  const [open, setOpen] = useState(false)
+  const firstChapter = chapters[0]?.attributes.chapter || '1'
+  const lastChapter = chapters[chapters.length - 1]?.attributes.chapter || '1'
+  const [from, setFrom] = useState(firstChapter)
+  const [to, setTo] = useState(lastChapter)
+
+  // The range starts out as the whole list, which changes with the language
+  // and group choices
+  const resetRange = () => {
+    setFrom(firstChapter)
+    setTo(lastChapter)
+  }
+  useEffect(() => {
+    setFrom(firstChapter)
+    setTo(lastChapter)
+  }, [firstChapter, lastChapter])
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (nextOpen) resetRange()
+    setOpen(nextOpen)
+  }
+
+  const queueChapters = (selected: Chapter[]) => {
+    if (selected.length === 0) {
+      toast.error('No chapters match that selection')
+      return
+    }
+
+    const added = downloadQueue.enqueue(manga, selected)
+    if (added === 0) {
+      toast.info('Those chapters are already downloaded or queued')
+    } else {
+      toast.success(`Queued ${added} chapter${added === 1 ? '' : 's'} for download`)
+    }
+    setOpen(false)
+  }
+
+  const handleQueueRange = (e: React.FormEvent) => {
+    e.preventDefault()
+    const start = Number.parseFloat(from)
+    const end = Number.parseFloat(to)
+    if (Number.isNaN(start) || Number.isNaN(end)) {
+      toast.error('Enter valid chapter numbers')
+      return
+    }
+
+    const [low, high] = start <= end ? [start, end] : [end, start]
+    queueChapters(chapters.filter(chapter => {
+      const number = chapterNumber(chapter)
+      return number >= low && number <= high
+    }))
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="border-gray-700 hover:border-blue-500">
+          <Download className="w-4 h-4 mr-2" />
+          Download Chapters
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center justify-between">
+            Download Chapters
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => setOpen(false)}
+              className="h-6 w-6"
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleQueueRange} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="download-from">From chapter</Label>
+              <Input
+                id="download-from"
+                inputMode="decimal"
+                value={from}
+                onChange={(e) => setFrom(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="download-to">To chapter</Label>
+              <Input
+                id="download-to"
+                inputMode="decimal"
+                value={to}
+                onChange={(e) => setTo(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="flex gap-2 pt-4">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => queueChapters(getUnreadChapters(chapters, manga.mangaId, readChapterIds))}
+              className="flex-1"
+            >
+              All Unread
+            </Button>
+            <Button type="submit" className="flex-1 bg-red-600 hover:bg-red-700">
+              Queue Range
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,90 @@
+'use client'
+
+import { useState } from 'react'
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { ArrowDown, ArrowUp, Languages, X } from 'lucide-react'
+import { toast } from 'sonner'
+import { getLanguageBadge, getLanguageName } from '@/lib/language-preferences'
+
+interface LanguagePreferencesDialogProps {
+  languages: string[]
+  availableLanguages: string[]
+  onChange: (languages: string[]) => Promise<boolean>
+}
+
+export default function LanguagePreferencesDialog({ languages, availableLanguages, onChange }: LanguagePreferencesDialogProps) {
+  const [open, setOpen] = useState(false)
+  const addable = availableLanguages.filter(language => !languages.includes(language)).sort()
+
+  const update = async (next: string[]) => {
+    if (!(await onChange(next))) {
+      toast.error('Failed to save language preferences')
+    }
+  }
+
+  const move = (index: number, offset: number) => {
+    const next = [...languages]
+    const [language] = next.splice(index, 1)
+    next.splice(index + offset, 0, language)
+    update(next)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="border-gray-700">
+          <Languages className="w-4 h-4 mr-2" />
+          {languages.map(getLanguageBadge).join(', ')}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="bg-gray-900 border-gray-700 text-white">
+        <DialogHeader>
+          <DialogTitle>Chapter Languages</DialogTitle>
+        </DialogHeader>
+        <p className="text-sm text-gray-400">
+          Each chapter is shown in the first language on this list it is available in.
+        </p>
+        <div className="space-y-2">
+          {languages.map((language, index) => (
+            <div key={language} className="flex items-center gap-2 p-2 bg-gray-800/50 rounded-lg">
+              <Badge variant="outline" className="w-14 justify-center">{getLanguageBadge(language)}</Badge>
+              <span className="flex-1 text-sm">{getLanguageName(language)}</span>
+              <Button variant="ghost" size="icon" onClick={() => move(index, -1)} disabled={index === 0} title="Move up">
+                <ArrowUp className="w-4 h-4" />
+              </Button>
+              <Button variant="ghost" size="icon" onClick={() => move(index, 1)} disabled={index === languages.length - 1} title="Move down">
+                <ArrowDown className="w-4 h-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => update(languages.filter(code => code !== language))}
+                disabled={languages.length === 1}
+                title="Remove"
+              >
+                <X className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+        {addable.length > 0 && (
+          <Select value="" onValueChange={language => update([...languages, language])}>
+            <SelectTrigger className="bg-gray-800 border-gray-700 text-white">
+              <SelectValue placeholder="Add a language" />
+            </SelectTrigger>
+            <SelectContent>
+              {addable.map(language => (
+                <SelectItem key={language} value={language}>
+                  {getLanguageName(language)} ({getLanguageBadge(language)})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
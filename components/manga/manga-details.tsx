@@ -1,19 +1,47 @@
 'use client'
 
-import { useState } from 'react'
+import { useMemo, useState } from 'react'
 import Link from 'next/link'
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
-import { Chapter } from '@/lib/mangadx-api'
+import { Chapter, type Manga } from '@/lib/sources'
+import {
+  formatGroupNames,
+  getMangaGroups,
+  groupChaptersByNumber,
+  pickUpload,
+  type ChapterEntry,
+} from '@/lib/scanlation-groups'
 import { KitsuManga } from '@/lib/kitsu-api'
-import { Star, Calendar, User, Book, List, ChevronDown, BookOpen, Share2, Bookmark as BookmarkIcon, Download } from 'lucide-react'
+import { buildSeriesMetadata, type SeriesMetadata } from '@/lib/export'
+import { suggestPreferences } from '@/lib/reader-preferences'
+import { Star, Calendar, User, Book, List, ChevronDown, BookOpen, Share2, Bookmark as BookmarkIcon, Download, Check, Loader2, CheckCircle2, Circle, MoreVertical, Users } from 'lucide-react'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { useBookmark } from '@/hooks/useBookmark'
+import { useDownloadQueue } from '@/hooks/use-download-queue'
+import { useChapterReadState } from '@/hooks/use-chapter-read-state'
+import { usePreferredGroup } from '@/hooks/use-preferred-group'
+import { isChapterInProgress, type ChapterReadState } from '@/lib/read-state'
 import { toast } from 'sonner'
+import DownloadRangeDialog from './download-range-dialog'
+import LanguagePreferencesDialog from './language-preferences-dialog'
+import { getLanguageBadge } from '@/lib/language-preferences'
 
 interface MangaDetailsProps {
   kitsuManga: KitsuManga | null
+  // The source's record of the title, for download metadata
+  manga?: Manga | null
   chapters: Chapter[]
   mangaSlug: string
+  languages: string[]
+  availableLanguages: string[]
+  onLanguagesChange: (languages: string[]) => Promise<boolean>
 }
 
 function Synopsis({ description, genres }: { description: string; genres: string[] }) {
@@ -43,86 +71,211 @@ function Synopsis({ description, genres }: { description: string; genres: string
   )
 }
 
-function ChapterList({ chapters, mangaSlug, mangaTitle }: { chapters: Chapter[]; mangaSlug: string; mangaTitle: string }) {
+interface ChapterListProps {
+  chapters: Chapter[]
+  entries: ChapterEntry[]
+  preferredGroup: string | null
+  onPreferredGroupChange: (groupId: string | null) => void
+  languages: string[]
+  availableLanguages: string[]
+  onLanguagesChange: (languages: string[]) => Promise<boolean>
+  mangaSlug: string
+  mangaTitle: string
+  posterUrl?: string
+  seriesMetadata?: SeriesMetadata
+}
+
+const ANY_GROUP = 'any'
+
+function ChapterList({
+  chapters,
+  entries,
+  preferredGroup,
+  onPreferredGroupChange,
+  languages,
+  availableLanguages,
+  onLanguagesChange,
+  mangaSlug,
+  mangaTitle,
+  posterUrl,
+  seriesMetadata,
+}: ChapterListProps) {
   const [visibleChapters, setVisibleChapters] = useState(50)
+  // Uploads picked by hand for single chapters, by entry key
+  const [pickedUploads, setPickedUploads] = useState<Record<string, string>>({})
+  const { items: queueItems, enqueue } = useDownloadQueue()
+  const { readStates, markRead } = useChapterReadState(mangaSlug)
+  const manga = { mangaId: mangaSlug, mangaTitle, mangaSlug, posterUrl, seriesMetadata }
+  const readChapterIds = useMemo(
+    () => new Set(Object.values(readStates).filter(state => state.completed).map(state => state.chapterId)),
+    [readStates]
+  )
+  const groups = useMemo(() => getMangaGroups(chapters), [chapters])
 
-  const handleDownloadChapter = async (chapter: Chapter) => {
-    try {
-      // Get chapter pages
-      const response = await fetch(`/api/proxy/mangadx/at-home/server/${chapter.id}`)
-      const pagesData = await response.json()
-      
-      if (!pagesData.chapter?.data) {
-        toast.error('Failed to get chapter pages')
-        return
-      }
+  const getShownUpload = (entry: ChapterEntry) =>
+    entry.uploads.find(chapter => chapter.id === pickedUploads[entry.key]) || pickUpload(entry.uploads, preferredGroup, languages)
+  const shownChapters = entries.map(getShownUpload)
 
-      const baseUrl = pagesData.baseUrl
-      const chapterHash = pagesData.chapter.hash
-      const pages = pagesData.chapter.data
+  const handleDownloadChapter = (chapter: Chapter) => {
+    if (enqueue(manga, [chapter]) > 0) {
+      toast.success(`Chapter ${chapter.attributes.chapter} added to the download queue`)
+    } else {
+      toast.info(`Chapter ${chapter.attributes.chapter} is already downloaded or queued`)
+    }
+  }
 
-      // Create download data
-      const downloadData = {
-        id: `${mangaSlug}-${chapter.id}`,
-        mangaId: mangaSlug,
-        mangaTitle: mangaTitle,
-        mangaSlug: mangaSlug,
-        chapterId: chapter.id,
-        chapterNumber: chapter.attributes.chapter || "Unknown",
-        chapterTitle: chapter.attributes.title || "",
-        posterUrl: "/placeholder.svg",
-        pages: pages.map((page: string) => `${baseUrl}/data/${chapterHash}/${page}`),
-        downloadedAt: new Date().toISOString(),
-        size: pages.length * 500000 // Estimate 500KB per page
-      }
+  const handleMarkPreviousRead = async (index: number) => {
+    const previous = shownChapters.slice(0, index).map(chapter => chapter.id).filter(id => !readChapterIds.has(id))
+    if (previous.length === 0) {
+      toast.info('All previous chapters are already read')
+      return
+    }
+    if (await markRead(previous, true)) {
+      toast.success(`Marked ${previous.length} chapter${previous.length === 1 ? '' : 's'} as read`)
+    } else {
+      toast.error('Failed to update read state')
+    }
+  }
 
-      // Save to localStorage
-      const existingDownloads = JSON.parse(localStorage.getItem('manga_downloads') || '[]')
-      const updatedDownloads = existingDownloads.filter((d: any) => d.id !== downloadData.id)
-      updatedDownloads.push(downloadData)
-      
-      localStorage.setItem('manga_downloads', JSON.stringify(updatedDownloads))
-      toast.success(`Chapter ${chapter.attributes.chapter} downloaded for offline reading!`)
-    } catch (error) {
-      console.error('Error downloading chapter:', error)
-      toast.error('Failed to download chapter')
+  const renderReadMarker = (state: ChapterReadState | undefined) => {
+    if (state?.completed) {
+      return <CheckCircle2 className="w-4 h-4 text-green-400 flex-shrink-0" aria-label="Read" />
+    }
+    if (isChapterInProgress(state)) {
+      return <Circle className="w-4 h-4 text-yellow-400 fill-yellow-400/40 flex-shrink-0" aria-label="In progress" />
     }
+    return <span className="w-2 h-2 mx-1 rounded-full bg-red-500 flex-shrink-0" aria-label="Unread" />
   }
 
-  if (chapters.length === 0) {
+  const renderDownloadIcon = (chapterId: string) => {
+    const status = queueItems.find(item => item.id === chapterId)?.status
+    if (status === 'completed') return <Check className="w-4 h-4 text-green-400" />
+    if (status === 'queued' || status === 'downloading') return <Loader2 className="w-4 h-4 animate-spin" />
+    return <Download className="w-4 h-4" />
+  }
+
+  if (entries.length === 0) {
     return (
       <div className="text-center py-12 text-gray-500">
         <List className="w-12 h-12 mx-auto mb-4" />
         <p className="font-semibold">No chapters available</p>
-        <p className="text-sm">Check back later for updates.</p>
+        <p className="text-sm mb-4">Check back later, or add another language.</p>
+        <LanguagePreferencesDialog
+          languages={languages}
+          availableLanguages={availableLanguages}
+          onChange={onLanguagesChange}
+        />
       </div>
     )
   }
 
   return (
     <div>
+      <div className="flex flex-wrap items-center justify-end gap-3 mb-4">
+        <LanguagePreferencesDialog
+          languages={languages}
+          availableLanguages={availableLanguages}
+          onChange={onLanguagesChange}
+        />
+        {groups.length > 1 && (
+          <Select
+            value={preferredGroup || ANY_GROUP}
+            onValueChange={(value) => {
+              setPickedUploads({})
+              onPreferredGroupChange(value === ANY_GROUP ? null : value)
+            }}
+          >
+            <SelectTrigger className="w-56 bg-gray-800 border-gray-700 text-white">
+              <Users className="w-4 h-4 mr-2 flex-shrink-0" />
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY_GROUP}>Any group</SelectItem>
+              {groups.map(group => (
+                <SelectItem key={group.id} value={group.id}>
+                  {group.name} ({group.chapterCount})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+        <DownloadRangeDialog chapters={shownChapters} manga={manga} readChapterIds={readChapterIds} />
+      </div>
       <div className="grid grid-cols-1 gap-3">
-        {chapters.slice(0, visibleChapters).map(chapter => (
-          <div key={chapter.id} className="flex items-center gap-3 p-3 bg-gray-800/30 rounded-lg hover:bg-gray-800/50 transition-colors">
-            <Button variant="outline" asChild className="flex-1 justify-start border-gray-700 hover:bg-gray-800 hover:border-red-500">
-              <Link href={`/reader/${mangaSlug}/1?chapter=${chapter.id}`}>
-                <BookOpen className="w-4 h-4 mr-2" />
-                <span className="truncate">Chapter {chapter.attributes.chapter}: {chapter.attributes.title || 'No title'}</span>
-              </Link>
-            </Button>
-            <Button
-              variant="ghost"
-              size="icon"
-              onClick={() => handleDownloadChapter(chapter)}
-              className="text-gray-400 hover:text-blue-400 hover:bg-blue-500/10"
-              title="Download for offline reading"
-            >
-              <Download className="w-4 h-4" />
-            </Button>
-          </div>
-        ))}
+        {entries.slice(0, visibleChapters).map((entry, index) => {
+          const chapter = shownChapters[index]
+          // Reading any upload of a chapter number counts as reading it
+          const readState = readStates[chapter.id] || entry.uploads.map(upload => readStates[upload.id]).find(state => state?.completed)
+          const inProgress = isChapterInProgress(readState)
+
+          return (
+            <div key={entry.key} className="flex items-center gap-3 p-3 bg-gray-800/30 rounded-lg hover:bg-gray-800/50 transition-colors">
+              {renderReadMarker(readState)}
+              <Button
+                variant="outline"
+                asChild
+                className={`flex-1 justify-start border-gray-700 hover:bg-gray-800 hover:border-red-500 ${readState?.completed ? 'text-gray-500' : ''}`}
+              >
+                <Link href={`/reader/${mangaSlug}/${inProgress ? readState.lastPage : 1}?chapter=${chapter.id}`}>
+                  <BookOpen className="w-4 h-4 mr-2" />
+                  <Badge variant="outline" className="mr-2 px-1.5 text-[10px] flex-shrink-0">
+                    {getLanguageBadge(chapter.attributes.translatedLanguage)}
+                  </Badge>
+                  <span className="truncate">Chapter {chapter.attributes.chapter}: {chapter.attributes.title || 'No title'}</span>
+                  <span className="hidden sm:inline truncate pl-2 text-xs text-gray-500">{formatGroupNames(chapter)}</span>
+                  {inProgress && (
+                    <span className="ml-auto pl-2 text-xs text-yellow-400 flex-shrink-0">
+                      p. {readState.lastPage}{readState.totalPages ? `/${readState.totalPages}` : ''}
+                    </span>
+                  )}
+                </Link>
+              </Button>
+              {entry.uploads.length > 1 && (
+                <Select
+                  value={chapter.id}
+                  onValueChange={(chapterId) => setPickedUploads(prev => ({ ...prev, [entry.key]: chapterId }))}
+                >
+                  <SelectTrigger className="w-32 h-9 bg-gray-800 border-gray-700 text-gray-300 text-xs" title="Choose scanlation group">
+                    <SelectValue>{entry.uploads.length} groups</SelectValue>
+                  </SelectTrigger>
+                  <SelectContent>
+                    {entry.uploads.map(upload => (
+                      <SelectItem key={upload.id} value={upload.id}>
+                        {getLanguageBadge(upload.attributes.translatedLanguage)} · {formatGroupNames(upload)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => handleDownloadChapter(chapter)}
+                className="text-gray-400 hover:text-blue-400 hover:bg-blue-500/10"
+                title="Download for offline reading"
+              >
+                {renderDownloadIcon(chapter.id)}
+              </Button>
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="ghost" size="icon" className="text-gray-400 hover:text-white" title="More">
+                    <MoreVertical className="w-4 h-4" />
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuItem onClick={() => markRead([chapter.id], !readState?.completed)}>
+                    {readState?.completed ? 'Mark as unread' : 'Mark as read'}
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => handleMarkPreviousRead(index)} disabled={index === 0}>
+                    Mark previous as read
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+            </div>
+          )
+        })}
       </div>
-      {chapters.length > visibleChapters && (
+      {entries.length > visibleChapters && (
         <div className="text-center mt-6">
           <Button variant="secondary" onClick={() => setVisibleChapters(prev => prev + 50)}>
             <ChevronDown className="w-4 h-4 mr-2" />
@@ -134,9 +287,24 @@ function ChapterList({ chapters, mangaSlug, mangaTitle }: { chapters: Chapter[];
   )
 }
 
-export default function MangaDetails({ kitsuManga, chapters, mangaSlug }: MangaDetailsProps) {
+export default function MangaDetails({
+  kitsuManga,
+  manga,
+  chapters,
+  mangaSlug,
+  languages,
+  availableLanguages,
+  onLanguagesChange,
+}: MangaDetailsProps) {
   const [isExpanded, setIsExpanded] = useState(false)
-  const firstChapter = chapters[0]
+  const { preferredGroup, setPreferredGroup } = usePreferredGroup(mangaSlug)
+  const chapterEntries = useMemo(() => groupChaptersByNumber(chapters), [chapters])
+  // Downloads read the way the title suggests, like a reader nobody configured
+  const seriesMetadata = useMemo(
+    () => buildSeriesMetadata({ manga, kitsuManga, direction: suggestPreferences(manga ?? null).direction }),
+    [manga, kitsuManga]
+  )
+  const firstChapter = chapterEntries[0] && pickUpload(chapterEntries[0].uploads, preferredGroup, languages)
   
   const { isBookmarked, isLoading: isBookmarkLoading, toggleBookmark } = useBookmark(mangaSlug)
   
@@ -197,7 +365,7 @@ export default function MangaDetails({ kitsuManga, chapters, mangaSlug }: MangaD
           </div>
           <div className="flex items-center gap-2">
             <Book className="w-4 h-4 text-red-400" />
-            <span className="font-medium">{chapterCount || chapters.length || 'N/A'} Chapters</span>
+            <span className="font-medium">{chapterCount || chapterEntries.length || 'N/A'} Chapters</span>
           </div>
         </div>
       </div>
@@ -260,8 +428,20 @@ export default function MangaDetails({ kitsuManga, chapters, mangaSlug }: MangaD
       </div>
 
       <div>
-        <h2 className="text-2xl font-bold mb-4 border-b-2 border-gray-700 pb-2">Chapters ({chapters.length})</h2>
-        <ChapterList chapters={chapters} mangaSlug={mangaSlug} mangaTitle={title} />
+        <h2 className="text-2xl font-bold mb-4 border-b-2 border-gray-700 pb-2">Chapters ({chapterEntries.length})</h2>
+        <ChapterList
+          chapters={chapters}
+          entries={chapterEntries}
+          preferredGroup={preferredGroup}
+          onPreferredGroupChange={setPreferredGroup}
+          languages={languages}
+          availableLanguages={availableLanguages}
+          onLanguagesChange={onLanguagesChange}
+          mangaSlug={mangaSlug}
+          mangaTitle={title}
+          posterUrl={kitsuManga?.attributes.posterImage?.medium}
+          seriesMetadata={seriesMetadata}
+        />
       </div>
     </div>
   )
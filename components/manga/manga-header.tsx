@@ -17,7 +17,7 @@ import LibraryStatusSelector from '@/components/library/library-status-selector'
 import { useBookmark } from '@/hooks/useBookmark'
 import { toast } from 'sonner'
 import { KitsuManga } from '@/lib/kitsu-api'
-import { Chapter } from '@/lib/mangadex-api'
+import { Chapter } from '@/lib/sources'
 
 interface MangaHeaderProps {
   kitsuManga: KitsuManga | null
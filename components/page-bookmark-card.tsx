@@ -0,0 +1,105 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import Image from 'next/image'
+import { BookOpen, Bookmark as BookmarkIcon, Pencil, X } from 'lucide-react'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import { Textarea } from '@/components/ui/textarea'
+import { getBookmarkUrl, type PageBookmark } from '@/lib/page-bookmarks'
+
+interface PageBookmarkCardProps {
+  bookmark: PageBookmark
+  onSaveNote: (id: string, note: string) => Promise<boolean>
+  onRemove: (id: string) => Promise<boolean>
+}
+
+export default function PageBookmarkCard({ bookmark, onSaveNote, onRemove }: PageBookmarkCardProps) {
+  const [editing, setEditing] = useState(false)
+  const [note, setNote] = useState(bookmark.note || '')
+
+  const handleSave = async () => {
+    if (await onSaveNote(bookmark.id, note)) {
+      setEditing(false)
+    } else {
+      toast.error('Failed to save note')
+    }
+  }
+
+  const handleRemove = async () => {
+    if (!(await onRemove(bookmark.id))) {
+      toast.error('Failed to remove bookmark')
+    }
+  }
+
+  return (
+    <div className="flex gap-3 bg-gray-900/50 rounded-xl border border-gray-800 hover:border-blue-500/50 transition-colors p-3">
+      <Link href={getBookmarkUrl(bookmark)} className="shrink-0">
+        {bookmark.thumbnail ? (
+          <Image
+            src={bookmark.thumbnail}
+            alt={`Page ${bookmark.page}`}
+            width={80}
+            height={112}
+            className="w-20 h-28 object-cover rounded-md"
+            unoptimized
+          />
+        ) : (
+          <div className="w-20 h-28 bg-gray-800 rounded-md flex items-center justify-center">
+            <BookmarkIcon className="w-6 h-6 text-gray-600" />
+          </div>
+        )}
+      </Link>
+
+      <div className="flex-1 min-w-0 space-y-2">
+        <div className="flex items-start justify-between gap-2">
+          <p className="text-sm font-medium text-white">
+            {bookmark.chapterNumber ? `Chapter ${bookmark.chapterNumber}` : 'Oneshot'} · Page {bookmark.page}
+          </p>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="w-6 h-6 shrink-0 hover:bg-red-500/20 hover:text-red-400"
+            onClick={handleRemove}
+            title="Remove bookmark"
+          >
+            <X className="w-3 h-3" />
+          </Button>
+        </div>
+
+        {editing ? (
+          <div className="space-y-2">
+            <Textarea
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="Add a note"
+              className="bg-gray-800 border-gray-700 text-white text-sm"
+              rows={2}
+            />
+            <div className="flex gap-2">
+              <Button size="sm" onClick={handleSave}>Save</Button>
+              <Button size="sm" variant="ghost" onClick={() => setEditing(false)}>Cancel</Button>
+            </div>
+          </div>
+        ) : (
+          <button
+            type="button"
+            onClick={() => setEditing(true)}
+            className="flex items-start gap-1 text-left text-xs text-gray-400 hover:text-gray-200"
+          >
+            <Pencil className="w-3 h-3 mt-0.5 shrink-0" />
+            <span className="line-clamp-3">{bookmark.note || 'Add a note'}</span>
+          </button>
+        )}
+
+        <Button asChild size="sm" variant="outline" className="border-gray-700">
+          <Link href={getBookmarkUrl(bookmark)}>
+            <BookOpen className="w-4 h-4 mr-2" />
+            Open page
+          </Link>
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,352 @@
+'use client'
+
+import {
+  forwardRef,
+  useCallback,
+  useEffect,
+  useImperativeHandle,
+  useRef,
+  useState,
+  type CSSProperties,
+} from 'react'
+import { Loader2, RotateCcw } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import type { Chapter } from '@/lib/sources'
+import { reportAtHomeLoad } from '@/lib/at-home'
+import type { CropMode } from '@/lib/image-enhancement'
+import PageImage from './page-image'
+
+export interface StripPosition {
+  chapter: Chapter
+  page: number
+  pageUrls: string[]
+  offline: boolean
+}
+
+export interface ContinuousStripHandle {
+  scrollToPage: (chapterId: string, page: number) => void
+  // Returns false when the chapter can't be reached without leaving the strip
+  scrollToChapter: (chapterId: string) => boolean
+  // The element that scrolls, for auto-scroll
+  getScrollElement: () => HTMLDivElement | null
+}
+
+interface StripSegment {
+  chapter: Chapter
+  pageUrls: string[]
+  offline: boolean
+}
+
+interface ContinuousStripProps {
+  chapters: Chapter[]
+  initialChapter: Chapter
+  initialPageUrls: string[]
+  initialOffline: boolean
+  initialPage: number
+  gapless: boolean
+  imageStyle: CSSProperties
+  cropMode: CropMode
+  loadChapter: (chapterId: string) => Promise<{ urls: string[]; offline: boolean }>
+  // New page URLs from another server for a chapter whose pages fail to load
+  refreshChapter?: (chapterId: string) => Promise<string[]>
+  onPositionChange: (position: StripPosition) => void
+}
+
+// Pages further than this from the viewport are swapped for sized placeholders
+const KEEP_LOADED_MARGIN = '2000px 0px'
+// The next chapter starts loading once the end of the strip is this close
+const APPEND_MARGIN = '3000px 0px'
+// How often a chapter may switch servers before failed pages are left alone
+const MAX_SERVER_REFRESHES = 2
+
+function chapterLabel(chapter: Chapter) {
+  return `Chapter ${chapter.attributes.chapter || '?'}${chapter.attributes.title ? `: ${chapter.attributes.title}` : ''}`
+}
+
+function pageKey(chapterId: string, index: number) {
+  return `${chapterId}:${index}`
+}
+
+// Vertical and webtoon reading across chapter boundaries: the next chapter is
+// appended below the current one instead of navigating to a new reader URL.
+const ContinuousStrip = forwardRef<ContinuousStripHandle, ContinuousStripProps>(function ContinuousStrip(
+  {
+    chapters,
+    initialChapter,
+    initialPageUrls,
+    initialOffline,
+    initialPage,
+    gapless,
+    imageStyle,
+    cropMode,
+    loadChapter,
+    refreshChapter,
+    onPositionChange,
+  },
+  ref
+) {
+  const [segments, setSegments] = useState<StripSegment[]>([
+    { chapter: initialChapter, pageUrls: initialPageUrls, offline: initialOffline },
+  ])
+  const [nearPages, setNearPages] = useState<Set<string>>(new Set())
+  const [appending, setAppending] = useState(false)
+  const [appendError, setAppendError] = useState(false)
+
+  const containerRef = useRef<HTMLDivElement>(null)
+  const endRef = useRef<HTMLDivElement>(null)
+  const pageElements = useRef<Map<string, HTMLDivElement>>(new Map())
+  const aspectRatios = useRef<Map<string, number>>(new Map())
+  const nearObserver = useRef<IntersectionObserver | null>(null)
+  const centerObserver = useRef<IntersectionObserver | null>(null)
+  const pendingScroll = useRef<string | null>(null)
+  const serverRefreshes = useRef<Map<string, number>>(new Map())
+  const refreshingChapters = useRef<Set<string>>(new Set())
+  const lastReported = useRef<string | null>(null)
+  const segmentsRef = useRef(segments)
+  segmentsRef.current = segments
+  const onPositionChangeRef = useRef(onPositionChange)
+  onPositionChangeRef.current = onPositionChange
+
+  const lastChapterIndex = chapters.findIndex((c) => c.id === segments[segments.length - 1].chapter.id)
+  const nextChapter = lastChapterIndex !== -1 ? chapters[lastChapterIndex + 1] : undefined
+
+  const appendNextChapter = useCallback(async () => {
+    if (!nextChapter || appending) return
+
+    setAppending(true)
+    setAppendError(false)
+    try {
+      const { urls, offline } = await loadChapter(nextChapter.id)
+      setSegments((prev) =>
+        prev.some((s) => s.chapter.id === nextChapter.id) ? prev : [...prev, { chapter: nextChapter, pageUrls: urls, offline }]
+      )
+    } catch (error) {
+      console.error('Error loading next chapter:', error)
+      setAppendError(true)
+      pendingScroll.current = null
+    } finally {
+      setAppending(false)
+    }
+  }, [nextChapter, appending, loadChapter])
+
+  // A page that fails to load moves its chapter to another server
+  const handlePageError = useCallback(async (chapterId: string) => {
+    const segment = segmentsRef.current.find((s) => s.chapter.id === chapterId)
+    const refreshes = serverRefreshes.current.get(chapterId) || 0
+    if (!segment || segment.offline || !refreshChapter) return
+    if (refreshingChapters.current.has(chapterId) || refreshes >= MAX_SERVER_REFRESHES) return
+
+    refreshingChapters.current.add(chapterId)
+    serverRefreshes.current.set(chapterId, refreshes + 1)
+    try {
+      const urls = await refreshChapter(chapterId)
+      setSegments((prev) => prev.map((s) => (s.chapter.id === chapterId ? { ...s, pageUrls: urls } : s)))
+    } catch (error) {
+      console.error('Error switching chapter server:', error)
+    } finally {
+      refreshingChapters.current.delete(chapterId)
+    }
+  }, [refreshChapter])
+
+  const scrollToKey = useCallback((key: string) => {
+    const element = pageElements.current.get(key)
+    if (!element) return false
+    element.scrollIntoView({ block: 'start' })
+    return true
+  }, [])
+
+  useImperativeHandle(
+    ref,
+    () => ({
+      scrollToPage: (chapterId, page) => {
+        scrollToKey(pageKey(chapterId, page - 1))
+      },
+      scrollToChapter: (chapterId) => {
+        if (scrollToKey(pageKey(chapterId, 0))) return true
+        if (nextChapter?.id !== chapterId) return false
+
+        pendingScroll.current = pageKey(chapterId, 0)
+        appendNextChapter()
+        return true
+      },
+      getScrollElement: () => containerRef.current,
+    }),
+    [scrollToKey, nextChapter, appendNextChapter]
+  )
+
+  // Observers: one keeps nearby pages loaded, one tracks the page crossing the middle of the screen
+  useEffect(() => {
+    const root = containerRef.current
+    if (!root) return
+
+    nearObserver.current = new IntersectionObserver(
+      (entries) => {
+        setNearPages((prev) => {
+          const next = new Set(prev)
+          entries.forEach((entry) => {
+            const key = (entry.target as HTMLElement).dataset.pageKey
+            if (!key) return
+            if (entry.isIntersecting) next.add(key)
+            else next.delete(key)
+          })
+          return next.size === prev.size && Array.from(next).every((key) => prev.has(key)) ? prev : next
+        })
+      },
+      { root, rootMargin: KEEP_LOADED_MARGIN }
+    )
+
+    centerObserver.current = new IntersectionObserver(
+      (entries) => {
+        const visible = entries.filter((entry) => entry.isIntersecting).pop()
+        const key = (visible?.target as HTMLElement | undefined)?.dataset.pageKey
+        if (!key || key === lastReported.current) return
+
+        // Archive chapter ids contain colons themselves, the index follows the last one
+        const separator = key.lastIndexOf(':')
+        const chapterId = key.slice(0, separator)
+        const index = key.slice(separator + 1)
+        const segment = segmentsRef.current.find((s) => s.chapter.id === chapterId)
+        if (!segment) return
+
+        lastReported.current = key
+        onPositionChangeRef.current({
+          chapter: segment.chapter,
+          page: Number(index) + 1,
+          pageUrls: segment.pageUrls,
+          offline: segment.offline,
+        })
+      },
+      { root, rootMargin: '-50% 0px -50% 0px' }
+    )
+
+    pageElements.current.forEach((element) => {
+      nearObserver.current?.observe(element)
+      centerObserver.current?.observe(element)
+    })
+
+    return () => {
+      nearObserver.current?.disconnect()
+      centerObserver.current?.disconnect()
+      nearObserver.current = null
+      centerObserver.current = null
+    }
+  }, [])
+
+  // Start at the requested page of the first chapter
+  const initialKey = useRef(initialPage > 1 ? pageKey(initialChapter.id, initialPage - 1) : null)
+  useEffect(() => {
+    if (initialKey.current) {
+      scrollToKey(initialKey.current)
+    }
+  }, [scrollToKey])
+
+  // Scroll to a chapter that was requested before its pages were appended
+  useEffect(() => {
+    if (pendingScroll.current && scrollToKey(pendingScroll.current)) {
+      pendingScroll.current = null
+    }
+  }, [segments, scrollToKey])
+
+  // Append the next chapter when the end of the strip comes close
+  useEffect(() => {
+    const root = containerRef.current
+    const end = endRef.current
+    if (!root || !end || !nextChapter || appendError) return
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) {
+          appendNextChapter()
+        }
+      },
+      { root, rootMargin: APPEND_MARGIN }
+    )
+    observer.observe(end)
+    return () => observer.disconnect()
+  }, [nextChapter, appendError, appendNextChapter])
+
+  // Page wrappers stay mounted for the life of the strip, only their image is swapped
+  const registerPage = useCallback((key: string, element: HTMLDivElement | null) => {
+    if (!element || pageElements.current.get(key) === element) return
+
+    pageElements.current.set(key, element)
+    nearObserver.current?.observe(element)
+    centerObserver.current?.observe(element)
+  }, [])
+
+  return (
+    <div ref={containerRef} className={`max-w-4xl mx-auto overflow-y-auto h-full ${gapless ? '' : 'space-y-1'}`}>
+      {segments.map((segment, segmentIndex) => (
+        <div key={segment.chapter.id} className={gapless ? '' : 'space-y-1'}>
+          {segmentIndex > 0 && (
+            <div className="py-10 text-center border-y border-gray-800 my-4">
+              <p className="text-xs uppercase tracking-wider text-gray-500">
+                End of {chapterLabel(segments[segmentIndex - 1].chapter)}
+              </p>
+              <p className="mt-1 text-lg font-semibold text-white">{chapterLabel(segment.chapter)}</p>
+            </div>
+          )}
+          {segment.pageUrls.map((url, index) => {
+            const key = pageKey(segment.chapter.id, index)
+            const aspectRatio = aspectRatios.current.get(key)
+
+            return (
+              <div key={key} ref={(element) => registerPage(key, element)} data-page-key={key} className="w-full">
+                {nearPages.has(key) ? (
+                  <PageImage
+                    src={url}
+                    cropMode={cropMode}
+                    alt={`${chapterLabel(segment.chapter)} - Page ${index + 1}`}
+                    width={800}
+                    height={1200}
+                    className="w-full h-auto"
+                    style={imageStyle}
+                    onLoad={(e) => {
+                      const img = e.currentTarget
+                      if (img.naturalWidth > 0) {
+                        aspectRatios.current.set(key, img.naturalWidth / img.naturalHeight)
+                      }
+                      if (!segment.offline) reportAtHomeLoad(url, true)
+                    }}
+                    onError={() => {
+                      if (segment.offline) return
+                      reportAtHomeLoad(url, false)
+                      handlePageError(segment.chapter.id)
+                    }}
+                    unoptimized
+                  />
+                ) : (
+                  <div
+                    className="w-full bg-gray-900"
+                    style={{ aspectRatio: aspectRatio ? `${aspectRatio}` : '2 / 3' }}
+                  />
+                )}
+              </div>
+            )
+          })}
+        </div>
+      ))}
+
+      <div ref={endRef} className="py-10 text-center">
+        {appending ? (
+          <p className="text-gray-400 flex items-center justify-center gap-2">
+            <Loader2 className="w-4 h-4 animate-spin" />
+            Loading {nextChapter ? chapterLabel(nextChapter) : 'next chapter'}...
+          </p>
+        ) : appendError && nextChapter ? (
+          <div className="space-y-3">
+            <p className="text-gray-400">Couldn&apos;t load {chapterLabel(nextChapter)}</p>
+            <Button variant="outline" size="sm" onClick={appendNextChapter}>
+              <RotateCcw className="w-4 h-4 mr-2" />
+              Retry
+            </Button>
+          </div>
+        ) : !nextChapter && lastChapterIndex !== -1 ? (
+          <p className="text-gray-500">You&apos;re all caught up</p>
+        ) : null}
+      </div>
+    </div>
+  )
+})
+
+export default ContinuousStrip
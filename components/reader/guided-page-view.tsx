@@ -0,0 +1,215 @@
+'use client'
+
+import { useEffect, useRef, useState, type CSSProperties, type ReactNode } from 'react'
+import Image from 'next/image'
+import { Check, RotateCcw, Square, X } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { FULL_PAGE, type PanelRect } from '@/lib/panel-detection'
+
+interface GuidedPageViewProps {
+  src: string
+  // Null while the panels are being detected
+  panels: PanelRect[] | null
+  panelIndex: number
+  imageStyle: CSSProperties
+  // Tap zones, hidden while editing
+  overlay?: ReactNode
+  editing: boolean
+  corrected: boolean
+  onPanelsChange: (panels: PanelRect[] | null) => void
+  onEditDone: () => void
+}
+
+interface Size {
+  width: number
+  height: number
+}
+
+// Share of the view a panel may fill, the rest is breathing room
+const PANEL_FILL = 0.95
+// Smallest panel that can be drawn, as a share of the page
+const MIN_DRAWN_PANEL = 0.03
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value))
+
+// Shows one panel of a page at a time, moving between them with a pan-and-zoom
+// transition. Pages without panels are shown whole. The original image is
+// used because panels are measured on it, auto-crop doesn't apply here.
+export default function GuidedPageView({
+  src,
+  panels,
+  panelIndex,
+  imageStyle,
+  overlay,
+  editing,
+  corrected,
+  onPanelsChange,
+  onEditDone,
+}: GuidedPageViewProps) {
+  const containerRef = useRef<HTMLDivElement>(null)
+  const [view, setView] = useState<Size | null>(null)
+  const [natural, setNatural] = useState<Size | null>(null)
+  const [draft, setDraft] = useState<{ start: { x: number; y: number }; end: { x: number; y: number } } | null>(null)
+
+  useEffect(() => {
+    setNatural(null)
+  }, [src])
+
+  useEffect(() => {
+    const container = containerRef.current
+    if (!container) return
+
+    const observer = new ResizeObserver(([entry]) => {
+      setView({ width: entry.contentRect.width, height: entry.contentRect.height })
+    })
+    observer.observe(container)
+    return () => observer.disconnect()
+  }, [])
+
+  const target = editing || !panels || panels.length === 0 ? FULL_PAGE : panels[Math.min(panelIndex, panels.length - 1)]
+
+  // Scale and offset that fit the target panel into the view
+  const layout =
+    view && natural
+      ? (() => {
+          const fill = target === FULL_PAGE ? 1 : PANEL_FILL
+          const scale = Math.min(
+            (view.width * fill) / (target.width * natural.width),
+            (view.height * fill) / (target.height * natural.height)
+          )
+          return {
+            scale,
+            x: view.width / 2 - (target.x + target.width / 2) * natural.width * scale,
+            y: view.height / 2 - (target.y + target.height / 2) * natural.height * scale,
+          }
+        })()
+      : null
+
+  // Pointer position as a fraction of the page
+  const toPage = (clientX: number, clientY: number) => {
+    const rect = containerRef.current?.getBoundingClientRect()
+    if (!rect || !layout || !natural) return null
+    return {
+      x: clamp01((clientX - rect.left - layout.x) / (natural.width * layout.scale)),
+      y: clamp01((clientY - rect.top - layout.y) / (natural.height * layout.scale)),
+    }
+  }
+
+  const handlePointerUp = () => {
+    if (!draft) return
+    const panel = {
+      x: Math.min(draft.start.x, draft.end.x),
+      y: Math.min(draft.start.y, draft.end.y),
+      width: Math.abs(draft.end.x - draft.start.x),
+      height: Math.abs(draft.end.y - draft.start.y),
+    }
+    setDraft(null)
+    if (panel.width >= MIN_DRAWN_PANEL && panel.height >= MIN_DRAWN_PANEL) {
+      onPanelsChange([...(panels || []), panel])
+    }
+  }
+
+  const toScreen = (panel: PanelRect): CSSProperties | undefined =>
+    layout && natural
+      ? {
+          left: layout.x + panel.x * natural.width * layout.scale,
+          top: layout.y + panel.y * natural.height * layout.scale,
+          width: panel.width * natural.width * layout.scale,
+          height: panel.height * natural.height * layout.scale,
+        }
+      : undefined
+
+  return (
+    <div ref={containerRef} className="relative h-full w-full overflow-hidden">
+      <Image
+        src={src}
+        alt="Page"
+        width={natural?.width || 800}
+        height={natural?.height || 1200}
+        onLoad={(e) => setNatural({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+        className={`absolute left-0 top-0 max-w-none ${layout ? '' : 'invisible'}`}
+        style={{
+          ...imageStyle,
+          width: natural?.width,
+          height: natural?.height,
+          transformOrigin: '0 0',
+          transform: layout ? `translate(${layout.x}px, ${layout.y}px) scale(${layout.scale})` : undefined,
+          transition: 'transform 350ms ease-in-out',
+        }}
+        unoptimized
+      />
+
+      {!editing && overlay}
+
+      {editing && (
+        <div
+          className="absolute inset-0 z-30 cursor-crosshair touch-none"
+          onClick={(e) => e.stopPropagation()}
+          onPointerDown={(e) => {
+            const point = toPage(e.clientX, e.clientY)
+            if (point) setDraft({ start: point, end: point })
+          }}
+          onPointerMove={(e) => {
+            const point = toPage(e.clientX, e.clientY)
+            if (draft && point) setDraft({ ...draft, end: point })
+          }}
+          onPointerUp={handlePointerUp}
+          onPointerLeave={handlePointerUp}
+        >
+          {(panels || []).map((panel, index) => (
+            <div
+              key={index}
+              className="absolute border-2 border-red-500 bg-red-500/10"
+              style={toScreen(panel)}
+            >
+              <span className="absolute left-1 top-1 rounded bg-red-600 px-1.5 text-xs font-semibold text-white">
+                {index + 1}
+              </span>
+              <button
+                type="button"
+                className="absolute right-1 top-1 rounded bg-gray-900/80 p-0.5 text-white hover:text-red-400"
+                onPointerDown={(e) => e.stopPropagation()}
+                onClick={() => onPanelsChange((panels || []).filter((_, i) => i !== index))}
+                title="Remove panel"
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </div>
+          ))}
+          {draft && (
+            <div
+              className="absolute border-2 border-dashed border-white bg-white/10"
+              style={toScreen({
+                x: Math.min(draft.start.x, draft.end.x),
+                y: Math.min(draft.start.y, draft.end.y),
+                width: Math.abs(draft.end.x - draft.start.x),
+                height: Math.abs(draft.end.y - draft.start.y),
+              })}
+            />
+          )}
+
+          <div
+            className="absolute bottom-3 left-1/2 -translate-x-1/2 flex flex-wrap items-center justify-center gap-2 rounded-lg bg-gray-900/95 p-2 text-white"
+            onPointerDown={(e) => e.stopPropagation()}
+          >
+            <span className="px-2 text-xs text-gray-400">Drag to add panels in reading order</span>
+            <Button variant="ghost" size="sm" onClick={() => onPanelsChange([])} className="text-white hover:bg-gray-800">
+              <Square className="w-4 h-4 mr-1" />
+              Full page
+            </Button>
+            {corrected && (
+              <Button variant="ghost" size="sm" onClick={() => onPanelsChange(null)} className="text-white hover:bg-gray-800">
+                <RotateCcw className="w-4 h-4 mr-1" />
+                Detected
+              </Button>
+            )}
+            <Button size="sm" onClick={onEditDone} className="bg-red-600 hover:bg-red-700">
+              <Check className="w-4 h-4 mr-1" />
+              Done
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
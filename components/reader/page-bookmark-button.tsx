@@ -0,0 +1,110 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Bookmark, Loader2, Trash2 } from 'lucide-react'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+import { Textarea } from '@/components/ui/textarea'
+import type { PageBookmark } from '@/lib/page-bookmarks'
+
+interface PageBookmarkButtonProps {
+  page: number
+  // Bookmark of the page being shown, if it has one
+  bookmark: PageBookmark | undefined
+  onAdd: () => Promise<PageBookmark | null>
+  onSaveNote: (id: string, note: string) => Promise<boolean>
+  onRemove: (id: string) => Promise<boolean>
+}
+
+// Opening the popover on a page without a bookmark creates one, the popover
+// then edits its note
+export default function PageBookmarkButton({ page, bookmark, onAdd, onSaveNote, onRemove }: PageBookmarkButtonProps) {
+  const [open, setOpen] = useState(false)
+  const [adding, setAdding] = useState(false)
+  const [note, setNote] = useState('')
+
+  useEffect(() => {
+    setNote(bookmark?.note || '')
+  }, [bookmark?.id, bookmark?.note])
+
+  const handleOpenChange = async (next: boolean) => {
+    setOpen(next)
+    if (!next || bookmark) return
+
+    setAdding(true)
+    const added = await onAdd()
+    setAdding(false)
+    if (added) {
+      toast.success(`Bookmarked page ${page}`)
+    } else {
+      toast.error('Failed to save bookmark')
+      setOpen(false)
+    }
+  }
+
+  const handleSaveNote = async () => {
+    if (!bookmark) return
+    if (await onSaveNote(bookmark.id, note)) {
+      setOpen(false)
+    } else {
+      toast.error('Failed to save note')
+    }
+  }
+
+  const handleRemove = async () => {
+    if (!bookmark) return
+    if (await onRemove(bookmark.id)) {
+      setOpen(false)
+      toast.success('Bookmark removed')
+    } else {
+      toast.error('Failed to remove bookmark')
+    }
+  }
+
+  return (
+    <Popover open={open} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className={`text-white hover:bg-gray-800 ${bookmark ? 'text-red-400' : ''}`}
+          title={bookmark ? 'Edit bookmark' : 'Bookmark this page'}
+        >
+          <Bookmark className={`w-4 h-4 ${bookmark ? 'fill-current' : ''}`} />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent
+        className="w-72 bg-gray-900 border-gray-700 text-white space-y-3"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {adding || !bookmark ? (
+          <p className="text-sm text-gray-400 flex items-center gap-2">
+            <Loader2 className="w-4 h-4 animate-spin" />
+            Saving bookmark...
+          </p>
+        ) : (
+          <>
+            <p className="text-sm font-medium">Page {bookmark.page} bookmarked</p>
+            <Textarea
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="Add a note"
+              className="bg-gray-800 border-gray-700 text-white"
+              rows={3}
+            />
+            <div className="flex justify-between">
+              <Button variant="ghost" size="sm" onClick={handleRemove} className="text-gray-400 hover:text-red-400">
+                <Trash2 className="w-4 h-4 mr-2" />
+                Remove
+              </Button>
+              <Button size="sm" onClick={handleSaveNote} className="bg-red-600 hover:bg-red-700">
+                Save
+              </Button>
+            </div>
+          </>
+        )}
+      </PopoverContent>
+    </Popover>
+  )
+}
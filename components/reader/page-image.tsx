@@ -0,0 +1,54 @@
+'use client'
+
+import { useEffect, useState, type ComponentProps } from 'react'
+import Image from 'next/image'
+import { GAMMA_FILTER_ID, getCroppedImageUrl, type CropMode } from '@/lib/image-enhancement'
+
+type PageImageProps = ComponentProps<typeof Image> & {
+  src: string
+  cropMode: CropMode
+}
+
+// A page image with its margins trimmed when auto-crop is on. The page stays
+// hidden while its margins are measured so it doesn't jump when they go.
+export default function PageImage({ src, cropMode, className = '', ...props }: PageImageProps) {
+  const [cropped, setCropped] = useState<{ src: string; mode: CropMode; url: string } | null>(null)
+  const ready = cropMode === 'none' || (cropped?.src === src && cropped.mode === cropMode)
+
+  useEffect(() => {
+    if (cropMode === 'none') return
+
+    let cancelled = false
+    getCroppedImageUrl(src, cropMode).then((url) => {
+      if (!cancelled) setCropped({ src, mode: cropMode, url })
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [src, cropMode])
+
+  return (
+    <Image
+      {...props}
+      src={ready && cropped && cropMode !== 'none' ? cropped.url : src}
+      className={`${className} ${ready ? '' : 'invisible'}`}
+    />
+  )
+}
+
+// SVG filter behind the gamma slider, referenced from the pages' CSS filter
+export function GammaFilter({ gamma }: { gamma: number }) {
+  const exponent = 1 / gamma
+
+  return (
+    <svg className="absolute w-0 h-0" aria-hidden="true">
+      <filter id={GAMMA_FILTER_ID} colorInterpolationFilters="sRGB">
+        <feComponentTransfer>
+          <feFuncR type="gamma" amplitude={1} exponent={exponent} offset={0} />
+          <feFuncG type="gamma" amplitude={1} exponent={exponent} offset={0} />
+          <feFuncB type="gamma" amplitude={1} exponent={exponent} offset={0} />
+        </feComponentTransfer>
+      </filter>
+    </svg>
+  )
+}
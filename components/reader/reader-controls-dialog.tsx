@@ -0,0 +1,155 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Switch } from '@/components/ui/switch'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Plus, RotateCcw, X } from 'lucide-react'
+import {
+  DEFAULT_KEY_BINDINGS,
+  READER_ACTIONS,
+  TAP_ZONE_LAYOUTS,
+  bindKey,
+  formatKey,
+  getTapZones,
+  unbindKey,
+  type KeyBindings,
+  type ReaderAction,
+  type TapZoneLayout,
+} from '@/lib/reader-controls'
+import { TapZonePreview } from './tap-zones'
+
+interface ReaderControlsDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  keyBindings: KeyBindings
+  onKeyBindingsChange: (bindings: KeyBindings) => void
+  tapZones: TapZoneLayout
+  onTapZonesChange: (layout: TapZoneLayout) => void
+  swipeToTurn: boolean
+  onSwipeToTurnChange: (enabled: boolean) => void
+  direction: 'ltr' | 'rtl'
+}
+
+// Keys that can't be bound because the browser or the dialog needs them
+const RESERVED_KEYS = ['Tab', 'Shift', 'Control', 'Alt', 'Meta']
+
+export default function ReaderControlsDialog({
+  open,
+  onOpenChange,
+  keyBindings,
+  onKeyBindingsChange,
+  tapZones,
+  onTapZonesChange,
+  swipeToTurn,
+  onSwipeToTurnChange,
+  direction,
+}: ReaderControlsDialogProps) {
+  const [capturing, setCapturing] = useState<ReaderAction | null>(null)
+
+  useEffect(() => {
+    if (!open) setCapturing(null)
+  }, [open])
+
+  // The next key press is bound to the action; Escape cancels
+  useEffect(() => {
+    if (!capturing) return
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (RESERVED_KEYS.includes(e.key)) return
+      e.preventDefault()
+      e.stopPropagation()
+      if (e.key !== 'Escape') {
+        onKeyBindingsChange(bindKey(keyBindings, capturing, e.key))
+      }
+      setCapturing(null)
+    }
+    window.addEventListener('keydown', handleKeyDown, true)
+    return () => window.removeEventListener('keydown', handleKeyDown, true)
+  }, [capturing, keyBindings, onKeyBindingsChange])
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent
+        className="bg-gray-900 border-gray-700 text-white max-w-lg max-h-[85vh] overflow-y-auto"
+        // Escape while recording a key only cancels the recording
+        onEscapeKeyDown={(e) => capturing && e.preventDefault()}
+      >
+        <DialogHeader>
+          <DialogTitle>Reader Controls</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <h4 className="text-sm font-medium text-gray-300">Keyboard</h4>
+          {READER_ACTIONS.map(({ action, label }) => (
+            <div key={action} className="flex items-center gap-2 p-2 bg-gray-800/50 rounded-lg">
+              <span className="flex-1 text-sm">{label}</span>
+              <div className="flex flex-wrap justify-end gap-1">
+                {keyBindings[action].map((key) => (
+                  <span key={key} className="inline-flex items-center gap-1 rounded border border-gray-600 bg-gray-800 px-1.5 py-0.5 text-xs">
+                    <kbd>{formatKey(key)}</kbd>
+                    <button
+                      type="button"
+                      onClick={() => onKeyBindingsChange(unbindKey(keyBindings, action, key))}
+                      className="text-gray-400 hover:text-white"
+                      title="Remove"
+                    >
+                      <X className="w-3 h-3" />
+                    </button>
+                  </span>
+                ))}
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setCapturing(capturing === action ? null : action)}
+                  className={`h-6 px-2 text-xs ${capturing === action ? 'bg-red-600/20 text-red-400' : 'text-gray-400'}`}
+                >
+                  {capturing === action ? 'Press a key…' : <Plus className="w-3 h-3" />}
+                </Button>
+              </div>
+            </div>
+          ))}
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => onKeyBindingsChange(DEFAULT_KEY_BINDINGS)}
+            className="border-gray-700"
+          >
+            <RotateCcw className="w-3 h-3 mr-2" />
+            Reset keys
+          </Button>
+        </div>
+
+        <div className="space-y-3">
+          <h4 className="text-sm font-medium text-gray-300">Touch</h4>
+          <div className="flex gap-4">
+            <TapZonePreview zones={getTapZones(tapZones, direction)} className="w-24 shrink-0" />
+            <div className="flex-1 space-y-3">
+              <div>
+                <label className="text-sm text-gray-300 block mb-2">Tap zones</label>
+                <Select value={tapZones} onValueChange={(value: TapZoneLayout) => onTapZonesChange(value)}>
+                  <SelectTrigger className="bg-gray-800 border-gray-700 text-white">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {TAP_ZONE_LAYOUTS.map(({ layout, label }) => (
+                      <SelectItem key={layout} value={layout}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-gray-500 mt-1">Zones are mirrored for right-to-left reading. Long-strip modes scroll instead.</p>
+              </div>
+              <div className="flex items-center justify-between">
+                <label htmlFor="swipe-to-turn" className="text-sm text-gray-300">Swipe to turn pages</label>
+                <Switch id="swipe-to-turn" checked={swipeToTurn} onCheckedChange={onSwipeToTurnChange} />
+              </div>
+            </div>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
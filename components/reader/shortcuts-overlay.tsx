@@ -0,0 +1,66 @@
+'use client'
+
+import { Button } from '@/components/ui/button'
+import { Keyboard, X } from 'lucide-react'
+import { READER_ACTIONS, formatKey, type KeyBindings, type TapZone } from '@/lib/reader-controls'
+import { TapZonePreview } from './tap-zones'
+
+interface ShortcutsOverlayProps {
+  keyBindings: KeyBindings
+  zones: TapZone[]
+  swipeToTurn: boolean
+  onClose: () => void
+  onCustomize: () => void
+}
+
+// Cheat sheet of the current key bindings and tap zones
+export default function ShortcutsOverlay({ keyBindings, zones, swipeToTurn, onClose, onCustomize }: ShortcutsOverlayProps) {
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black/80 backdrop-blur-sm p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-xl rounded-lg border border-gray-700 bg-gray-900/95 p-5 text-white"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="font-semibold">Shortcuts</h3>
+          <Button variant="ghost" size="sm" onClick={onClose} className="text-gray-400 hover:text-white">
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+
+        <div className="flex flex-col sm:flex-row gap-6">
+          <dl className="flex-1 space-y-1.5 text-sm">
+            {READER_ACTIONS.map(({ action, label }) => (
+              <div key={action} className="flex items-center justify-between gap-4">
+                <dt className="text-gray-300">{label}</dt>
+                <dd className="flex gap-1">
+                  {keyBindings[action].length > 0 ? (
+                    keyBindings[action].map((key) => (
+                      <kbd key={key} className="rounded border border-gray-600 bg-gray-800 px-1.5 py-0.5 text-xs">
+                        {formatKey(key)}
+                      </kbd>
+                    ))
+                  ) : (
+                    <span className="text-xs text-gray-500">Unbound</span>
+                  )}
+                </dd>
+              </div>
+            ))}
+          </dl>
+
+          <div className="sm:w-32 space-y-2">
+            <TapZonePreview zones={zones} />
+            <p className="text-xs text-gray-500">
+              Tap outside the zones to show the controls.{swipeToTurn && " Swipe sideways to turn pages."}
+            </p>
+          </div>
+        </div>
+
+        <Button variant="outline" size="sm" onClick={onCustomize} className="mt-4 border-gray-700">
+          <Keyboard className="w-4 h-4 mr-2" />
+          Customize
+        </Button>
+      </div>
+    </div>
+  )
+}
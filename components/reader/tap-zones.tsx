@@ -0,0 +1,50 @@
+'use client'
+
+import type { TapZone, TapZoneAction } from '@/lib/reader-controls'
+
+interface TapZonesProps {
+  zones: TapZone[]
+  onAction: (action: TapZoneAction) => void
+}
+
+// Invisible page-turn areas over the reading area; taps that miss every zone
+// fall through and toggle the controls
+export default function TapZones({ zones, onAction }: TapZonesProps) {
+  return (
+    <>
+      {zones.map((zone, index) => (
+        <div
+          key={index}
+          className="absolute z-20 cursor-pointer"
+          style={{ left: `${zone.x}%`, top: `${zone.y}%`, width: `${zone.width}%`, height: `${zone.height}%` }}
+          onClick={(e) => {
+            e.stopPropagation()
+            onAction(zone.action)
+          }}
+        />
+      ))}
+    </>
+  )
+}
+
+// Small diagram of a layout for the settings and the shortcut sheet
+export function TapZonePreview({ zones, className = '' }: { zones: TapZone[]; className?: string }) {
+  return (
+    <div className={`relative aspect-[2/3] rounded-md border border-gray-700 bg-gray-800/60 overflow-hidden ${className}`}>
+      {zones.map((zone, index) => (
+        <div
+          key={index}
+          className={`absolute flex items-center justify-center border border-gray-900 text-[10px] font-medium ${
+            zone.action === 'next' ? 'bg-red-600/40 text-red-100' : 'bg-blue-600/40 text-blue-100'
+          }`}
+          style={{ left: `${zone.x}%`, top: `${zone.y}%`, width: `${zone.width}%`, height: `${zone.height}%` }}
+        >
+          {zone.action === 'next' ? 'Next' : 'Prev'}
+        </div>
+      ))}
+      {zones.length === 0 && (
+        <div className="absolute inset-0 flex items-center justify-center text-xs text-gray-500">No tap zones</div>
+      )}
+    </div>
+  )
+}
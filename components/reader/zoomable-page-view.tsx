@@ -0,0 +1,338 @@
+'use client'
+
+import { useCallback, useEffect, useRef, useState, type ReactNode } from 'react'
+import { MAX_ZOOM, MIN_ZOOM } from '@/lib/reader-preferences'
+
+interface Point {
+  x: number
+  y: number
+}
+
+interface Lens {
+  x: number
+  y: number
+  src: string
+  backgroundSize: string
+  backgroundPosition: string
+}
+
+interface ZoomablePageViewProps {
+  // Zoom in percent, reported back when a gesture ends
+  zoom: number
+  onZoomChange: (zoom: number) => void
+  // Changes when the page turns; zoom stays, the view moves to the top of the page
+  pageKey: string | number
+  loupe: boolean
+  // Rendered above the pages, inside the gesture area (tap zones)
+  overlay?: ReactNode
+  // Sideways touch swipe, reported once the page can't pan any further
+  onSwipe?: (direction: 'left' | 'right') => void
+  children: ReactNode
+}
+
+const MIN_SCALE = MIN_ZOOM / 100
+const MAX_SCALE = MAX_ZOOM / 100
+const DOUBLE_CLICK_SCALE = 2
+// Pointer travel that turns a tap into a drag
+const DRAG_THRESHOLD = 6
+const SWIPE_DISTANCE = 60
+const LOUPE_SIZE = 180
+const LOUPE_ZOOM = 2.5
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value))
+
+const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y)
+
+const midpoint = (a: Point, b: Point) => ({ x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 })
+
+// Paged reading with pinch-zoom and drag-to-pan on touch screens, double-click
+// and ctrl+wheel zoom on desktops, and an optional magnifier loupe. Offsets are
+// relative to the center of the view.
+export default function ZoomablePageView({
+  zoom,
+  onZoomChange,
+  pageKey,
+  loupe,
+  overlay,
+  onSwipe,
+  children,
+}: ZoomablePageViewProps) {
+  const containerRef = useRef<HTMLDivElement>(null)
+  const contentRef = useRef<HTMLDivElement>(null)
+  const [scale, setScale] = useState(zoom / 100)
+  const [offset, setOffset] = useState<Point>({ x: 0, y: 0 })
+  const [lens, setLens] = useState<Lens | null>(null)
+
+  const scaleRef = useRef(scale)
+  scaleRef.current = scale
+  const offsetRef = useRef(offset)
+  offsetRef.current = offset
+  const pointers = useRef<Map<number, Point>>(new Map())
+  const pan = useRef<{ start: Point; startOffset: Point } | null>(null)
+  const pinch = useRef<{ startScale: number; startDistance: number; startMid: Point; startOffset: Point } | null>(null)
+  const moved = useRef(false)
+  const suppressClick = useRef(false)
+  // Set on page turns until the user moves the page themselves
+  const alignTop = useRef(true)
+
+  // Pointer position relative to the center of the view
+  const toLocal = useCallback((clientX: number, clientY: number): Point => {
+    const rect = containerRef.current?.getBoundingClientRect()
+    if (!rect) return { x: 0, y: 0 }
+    return { x: clientX - rect.left - rect.width / 2, y: clientY - rect.top - rect.height / 2 }
+  }, [])
+
+  // Keeps the pages covering the view: content smaller than the view stays
+  // centered, larger content can be moved until its edge is reached
+  const clampOffset = useCallback((point: Point, atScale: number): Point => {
+    const container = containerRef.current
+    const content = contentRef.current
+    if (!container || !content) return point
+
+    const images = Array.from(content.querySelectorAll('img'))
+    if (images.length === 0) return { x: 0, y: 0 }
+
+    const rects = images.map((img) => img.getBoundingClientRect())
+    const width = (Math.max(...rects.map((r) => r.right)) - Math.min(...rects.map((r) => r.left))) / scaleRef.current
+    const height = (Math.max(...rects.map((r) => r.bottom)) - Math.min(...rects.map((r) => r.top))) / scaleRef.current
+    const maxX = Math.max(0, (width * atScale - container.clientWidth) / 2)
+    const maxY = Math.max(0, (height * atScale - container.clientHeight) / 2)
+
+    return { x: clamp(point.x, -maxX, maxX), y: clamp(point.y, -maxY, maxY) }
+  }, [])
+
+  // Scales around `point` so the spot under it stays in place
+  const zoomAt = useCallback(
+    (nextScale: number, point: Point, fromScale = scaleRef.current, fromOffset = offsetRef.current) => {
+      const target = clamp(nextScale, MIN_SCALE, MAX_SCALE)
+      const ratio = target / fromScale
+      setScale(target)
+      setOffset(
+        clampOffset({ x: point.x - ratio * (point.x - fromOffset.x), y: point.y - ratio * (point.y - fromOffset.y) }, target)
+      )
+      return target
+    },
+    [clampOffset]
+  )
+
+  const commitZoom = useCallback((value: number) => {
+    onZoomChange(Math.round(value * 100))
+  }, [onZoomChange])
+
+  // Zoom changed elsewhere: buttons, the settings slider or a loaded profile
+  useEffect(() => {
+    if (Math.round(scaleRef.current * 100) === zoom) return
+    setScale(zoom / 100)
+    setOffset((prev) => clampOffset(prev, zoom / 100))
+  }, [zoom, clampOffset])
+
+  // A new page starts at its top, keeping the zoom and horizontal position
+  useEffect(() => {
+    alignTop.current = true
+    setOffset((prev) => clampOffset({ x: prev.x, y: Infinity }, scaleRef.current))
+  }, [pageKey, clampOffset])
+
+  // Page sizes are only known once their images load
+  useEffect(() => {
+    const content = contentRef.current
+    if (!content) return
+
+    const handleLoad = () => {
+      setOffset((prev) => clampOffset(alignTop.current ? { x: prev.x, y: Infinity } : prev, scaleRef.current))
+    }
+    content.addEventListener('load', handleLoad, true)
+    return () => content.removeEventListener('load', handleLoad, true)
+  }, [clampOffset])
+
+  // Trackpad pinches arrive as ctrl+wheel; the listener can't be passive
+  useEffect(() => {
+    const container = containerRef.current
+    if (!container) return
+
+    const handleWheel = (e: WheelEvent) => {
+      if (!e.ctrlKey) return
+      e.preventDefault()
+      alignTop.current = false
+      commitZoom(zoomAt(scaleRef.current * Math.exp(-e.deltaY / 200), toLocal(e.clientX, e.clientY)))
+    }
+    container.addEventListener('wheel', handleWheel, { passive: false })
+    return () => container.removeEventListener('wheel', handleWheel)
+  }, [zoomAt, commitZoom, toLocal])
+
+  const updateLens = useCallback((clientX: number, clientY: number, touch: boolean) => {
+    const container = containerRef.current
+    const img = document
+      .elementsFromPoint(clientX, clientY)
+      .find((el): el is HTMLImageElement => el instanceof HTMLImageElement && !!container?.contains(el))
+    if (!container || !img || !img.naturalWidth) {
+      setLens(null)
+      return
+    }
+
+    // Area the picture actually covers inside an object-contain box
+    const rect = img.getBoundingClientRect()
+    const ratio = Math.min(rect.width / img.naturalWidth, rect.height / img.naturalHeight)
+    const width = img.naturalWidth * ratio
+    const height = img.naturalHeight * ratio
+    const left = rect.left + (rect.width - width) / 2
+    const top = rect.top + (rect.height - height) / 2
+    if (clientX < left || clientX > left + width || clientY < top || clientY > top + height) {
+      setLens(null)
+      return
+    }
+
+    const bounds = container.getBoundingClientRect()
+    setLens({
+      x: clientX - bounds.left,
+      // Keep the lens clear of the finger
+      y: clientY - bounds.top - (touch ? LOUPE_SIZE * 0.6 : 0),
+      src: img.currentSrc || img.src,
+      backgroundSize: `${width * LOUPE_ZOOM}px ${height * LOUPE_ZOOM}px`,
+      backgroundPosition: `${LOUPE_SIZE / 2 - (clientX - left) * LOUPE_ZOOM}px ${LOUPE_SIZE / 2 - (clientY - top) * LOUPE_ZOOM}px`,
+    })
+  }, [])
+
+  useEffect(() => {
+    if (!loupe) setLens(null)
+  }, [loupe])
+
+  const startGesture = () => {
+    const points = Array.from(pointers.current.values())
+    if (points.length >= 2) {
+      pan.current = null
+      pinch.current = {
+        startScale: scaleRef.current,
+        startDistance: distance(points[0], points[1]) || 1,
+        startMid: midpoint(points[0], points[1]),
+        startOffset: offsetRef.current,
+      }
+    } else if (points.length === 1) {
+      pinch.current = null
+      pan.current = { start: points[0], startOffset: offsetRef.current }
+    }
+  }
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if (e.pointerType === 'mouse' && e.button !== 0) return
+    if (pointers.current.size === 0) {
+      moved.current = false
+      suppressClick.current = false
+    }
+    pointers.current.set(e.pointerId, toLocal(e.clientX, e.clientY))
+    startGesture()
+    if (loupe) updateLens(e.clientX, e.clientY, e.pointerType === 'touch')
+  }
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (loupe && (e.pointerType === 'mouse' || pointers.current.size === 1)) {
+      updateLens(e.clientX, e.clientY, e.pointerType === 'touch')
+    }
+    if (!pointers.current.has(e.pointerId)) return
+
+    const point = toLocal(e.clientX, e.clientY)
+    pointers.current.set(e.pointerId, point)
+
+    if (pinch.current) {
+      const points = Array.from(pointers.current.values())
+      const { startScale, startDistance, startMid, startOffset } = pinch.current
+      const mid = midpoint(points[0], points[1])
+      const target = clamp((startScale * distance(points[0], points[1])) / startDistance, MIN_SCALE, MAX_SCALE)
+      const ratio = target / startScale
+      moved.current = true
+      alignTop.current = false
+      setScale(target)
+      setOffset(clampOffset({ x: mid.x - ratio * (startMid.x - startOffset.x), y: mid.y - ratio * (startMid.y - startOffset.y) }, target))
+      return
+    }
+
+    // With the loupe on, one finger moves the lens instead of the page
+    if (pan.current && !loupe) {
+      const dx = point.x - pan.current.start.x
+      const dy = point.y - pan.current.start.y
+      if (!moved.current && Math.hypot(dx, dy) < DRAG_THRESHOLD) return
+      moved.current = true
+      alignTop.current = false
+      setOffset(clampOffset({ x: pan.current.startOffset.x + dx, y: pan.current.startOffset.y + dy }, scaleRef.current))
+    }
+  }
+
+  const handlePointerEnd = (e: React.PointerEvent) => {
+    const last = pointers.current.get(e.pointerId)
+    if (!pointers.current.delete(e.pointerId)) return
+    if (pinch.current) {
+      commitZoom(scaleRef.current)
+    } else if (pan.current && last && onSwipe && e.pointerType === 'touch' && !loupe) {
+      const dx = last.x - pan.current.start.x
+      const dy = last.y - pan.current.start.y
+      // Only the part of the drag the page couldn't follow counts
+      const overshoot = pan.current.startOffset.x + dx - offsetRef.current.x
+      if (Math.abs(overshoot) > SWIPE_DISTANCE && Math.abs(dx) > Math.abs(dy)) {
+        onSwipe(dx < 0 ? 'left' : 'right')
+      }
+    }
+    if (moved.current) {
+      suppressClick.current = true
+    }
+    startGesture()
+    if (pointers.current.size === 0 && e.pointerType === 'touch') {
+      setLens(null)
+    }
+  }
+
+  const handleDoubleClick = (e: React.MouseEvent) => {
+    alignTop.current = false
+    if (scaleRef.current > 1.01) {
+      setScale(1)
+      setOffset(clampOffset({ x: 0, y: 0 }, 1))
+      commitZoom(1)
+    } else {
+      commitZoom(zoomAt(DOUBLE_CLICK_SCALE, toLocal(e.clientX, e.clientY)))
+    }
+  }
+
+  return (
+    <div
+      ref={containerRef}
+      className={`relative h-full w-full overflow-hidden touch-none ${scale > 1 && !loupe ? 'cursor-grab' : ''}`}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerEnd}
+      onPointerCancel={handlePointerEnd}
+      onPointerLeave={(e) => {
+        handlePointerEnd(e)
+        setLens(null)
+      }}
+      onClickCapture={(e) => {
+        // A drag or pinch ends with a click that mustn't turn the page
+        if (suppressClick.current) {
+          suppressClick.current = false
+          e.stopPropagation()
+        }
+      }}
+      onDoubleClick={handleDoubleClick}
+    >
+      <div
+        ref={contentRef}
+        className="h-full w-full flex items-center justify-center will-change-transform"
+        style={{ transform: `translate(${offset.x}px, ${offset.y}px) scale(${scale})` }}
+      >
+        {children}
+      </div>
+      {overlay}
+      {lens && (
+        <div
+          className="absolute z-30 pointer-events-none rounded-full border-2 border-white/80 shadow-2xl bg-no-repeat bg-black"
+          style={{
+            width: LOUPE_SIZE,
+            height: LOUPE_SIZE,
+            left: lens.x - LOUPE_SIZE / 2,
+            top: lens.y - LOUPE_SIZE / 2,
+            backgroundImage: `url("${lens.src}")`,
+            backgroundSize: lens.backgroundSize,
+            backgroundPosition: lens.backgroundPosition,
+          }}
+        />
+      )}
+    </div>
+  )
+}
@@ -2,7 +2,7 @@
 
 import { useEffect, useState } from "react"
 import { Clock } from "lucide-react"
-import { getMangaDxRecentWithKitsuPosters } from "@/lib/mangadx-api"
+import { getMangaDxRecentWithKitsuPosters, mangadexSource } from "@/lib/sources/mangadex"
 import MangaCard from "@/components/manga-card"
 
 interface MangaWithKitsuPoster {
@@ -85,12 +85,7 @@ export default function RecentMangaSection() {
           const description = Object.values(item.attributes.description)[0] || ""
           
           // Get cover art if available
-          const coverArt = item.relationships.find(
-            (rel: any) => rel.type === 'cover_art' && rel.attributes?.fileName
-          )
-          const coverUrl = coverArt 
-            ? `https://uploads.mangadx.org/covers/${item.id}/${coverArt.attributes?.fileName}.256.jpg`
-            : ''
+          const coverUrl = mangadexSource.getCoverUrl(item, 256) || ''
 
           // Extract genres
           const genres = item.attributes.tags
@@ -6,7 +6,7 @@ import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
 import Link from "next/link"
 import Image from "next/image"
-import { getMangaDxTrendingWithKitsuPosters } from "@/lib/mangadx-api"
+import { getMangaDxTrendingWithKitsuPosters, mangadexSource } from "@/lib/sources/mangadex"
 
 export default function SpotlightSection() {
   const [spotlightManga, setSpotlightManga] = useState<any[]>([])
@@ -66,8 +66,7 @@ export default function SpotlightSection() {
   const currentManga = spotlightManga[currentIndex]
   const title = currentManga.attributes.title.en || Object.values(currentManga.attributes.title)[0] || "Unknown Title"
   const description = currentManga.attributes.description?.en || Object.values(currentManga.attributes.description)[0] || "No description available."
-  const coverArt = currentManga.relationships.find((rel: any) => rel.type === 'cover_art' && rel.attributes?.fileName)
-  const coverUrl = coverArt ? `https://uploads.mangadx.org/covers/${currentManga.id}/${coverArt.attributes?.fileName}.512.jpg` : "/placeholder.svg?height=600&width=1200"
+  const coverUrl = mangadexSource.getCoverUrl(currentManga, 512) || "/placeholder.svg?height=600&width=1200"
   const posterUrl = currentManga.kitsuPoster || "/placeholder.svg"
   const genres: string[] = Array.isArray(currentManga.attributes.tags)
     ? currentManga.attributes.tags
@@ -3,7 +3,7 @@
 import { useEffect, useState } from "react"
 import { ChevronLeft, ChevronRight } from "lucide-react"
 import { Button } from "@/components/ui/button"
-import { getMangaDxTrendingWithKitsuPosters } from "@/lib/mangadx-api"
+import { getMangaDxTrendingWithKitsuPosters, mangadexSource } from "@/lib/sources/mangadex"
 import MangaCard from "@/components/manga-card"
 
 interface MangaWithKitsuPoster {
@@ -115,12 +115,7 @@ export default function TrendingMangaSection() {
             const description = item.attributes.description?.en || Object.values(item.attributes.description)[0] || ""
             
             // Get cover art if available
-            const coverArt = item.relationships.find(
-              (rel: any) => rel.type === 'cover_art' && rel.attributes?.fileName
-            )
-            const coverUrl = coverArt 
-              ? `https://uploads.mangadx.org/covers/${item.id}/${coverArt.attributes?.fileName}.256.jpg`
-              : ''
+            const coverUrl = mangadexSource.getCoverUrl(item, 256) || ''
 
             // Extract genres
             const genres = item.attributes.tags
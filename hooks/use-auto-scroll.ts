@@ -0,0 +1,102 @@
+"use client"
+
+import { useCallback, useEffect, useMemo, useRef } from "react"
+import type { PointerEvent } from "react"
+
+// How long scrolling waits after the reader touched, scrolled or pressed a key
+const RESUME_DELAY = 1500
+// Time spent at the very bottom before the strip counts as finished, the next
+// chapter gets this long to append
+const END_GRACE = 2500
+
+interface AutoScrollOptions {
+  getElement: () => HTMLElement | null
+  enabled: boolean
+  // Pixels per second
+  speed: number
+  onEnd: () => void
+}
+
+// Smooth continuous scrolling for the long-strip modes. Spread `handlers` on
+// the reading area: hovering it with a mouse or touching it holds the scroll.
+export function useAutoScroll({ getElement, enabled, speed, onEnd }: AutoScrollOptions) {
+  const hovering = useRef(false)
+  const touching = useRef(false)
+  const pausedUntil = useRef(0)
+  const speedRef = useRef(speed)
+  speedRef.current = speed
+  const onEndRef = useRef(onEnd)
+  onEndRef.current = onEnd
+
+  const pause = useCallback((duration = RESUME_DELAY) => {
+    pausedUntil.current = Math.max(pausedUntil.current, performance.now() + duration)
+  }, [])
+
+  useEffect(() => {
+    if (!enabled) return
+
+    let frame = 0
+    let last: number | null = null
+    // scrollTop only takes whole pixels, slow speeds add up fractions here
+    let carry = 0
+    let atEndSince: number | null = null
+
+    const step = (now: number) => {
+      frame = requestAnimationFrame(step)
+      const element = getElement()
+      const held = hovering.current || touching.current || now < pausedUntil.current
+      if (!element || held || last === null) {
+        last = now
+        return
+      }
+
+      carry += (speedRef.current * (now - last)) / 1000
+      last = now
+      const pixels = Math.floor(carry)
+      if (pixels > 0) {
+        element.scrollTop += pixels
+        carry -= pixels
+      }
+
+      if (element.scrollTop + element.clientHeight >= element.scrollHeight - 1) {
+        atEndSince ??= now
+        if (now - atEndSince > END_GRACE) {
+          onEndRef.current()
+          cancelAnimationFrame(frame)
+        }
+      } else {
+        atEndSince = null
+      }
+    }
+
+    frame = requestAnimationFrame(step)
+    return () => cancelAnimationFrame(frame)
+  }, [enabled, getElement])
+
+  const handlers = useMemo(
+    () => ({
+      onPointerEnter: (e: PointerEvent) => {
+        if (e.pointerType === "mouse") hovering.current = true
+      },
+      onPointerLeave: (e: PointerEvent) => {
+        if (e.pointerType === "mouse") hovering.current = false
+      },
+      onPointerDown: (e: PointerEvent) => {
+        if (e.pointerType !== "mouse") touching.current = true
+      },
+      onPointerUp: () => {
+        if (!touching.current) return
+        touching.current = false
+        pause()
+      },
+      onPointerCancel: () => {
+        touching.current = false
+        pause()
+      },
+      onWheel: () => pause(),
+    }),
+    [pause]
+  )
+
+  return { pause, handlers }
+}
@@ -0,0 +1,59 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { useAuth } from "@/contexts/auth-context"
+import { getMangaReadStates, markChaptersRead, type ChapterReadState } from "@/lib/read-state"
+
+export function useChapterReadState(mangaId: string | null) {
+  const { user, loading: authLoading } = useAuth()
+  const userId = user?.id ?? null
+  const [readStates, setReadStates] = useState<Record<string, ChapterReadState>>({})
+
+  const refresh = useCallback(async () => {
+    if (authLoading || !mangaId) return
+    setReadStates(await getMangaReadStates(userId, mangaId))
+  }, [authLoading, userId, mangaId])
+
+  useEffect(() => {
+    refresh()
+  }, [refresh])
+
+  // Updates the markers right away and writes in the background
+  const markRead = useCallback(
+    async (chapterIds: string[], read: boolean) => {
+      if (!mangaId) return false
+
+      const now = new Date().toISOString()
+      setReadStates((prev) => {
+        const next = { ...prev }
+        chapterIds.forEach((chapterId) => {
+          if (read) {
+            next[chapterId] = {
+              mangaId,
+              chapterId,
+              lastPage: prev[chapterId]?.lastPage || 1,
+              totalPages: prev[chapterId]?.totalPages ?? null,
+              completed: true,
+              completedAt: prev[chapterId]?.completedAt || now,
+              updatedAt: now,
+            }
+          } else {
+            delete next[chapterId]
+          }
+        })
+        return next
+      })
+
+      const { error } = await markChaptersRead(userId, mangaId, chapterIds, read)
+      if (error) {
+        console.error("Error updating read state:", error)
+        refresh()
+        return false
+      }
+      return true
+    },
+    [userId, mangaId, refresh]
+  )
+
+  return { readStates, markRead, refresh }
+}
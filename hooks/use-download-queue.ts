@@ -0,0 +1,24 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { downloadQueue, type DownloadQueueState } from "@/lib/download-queue"
+
+export function useDownloadQueue() {
+  const [state, setState] = useState<DownloadQueueState>({ items: [], paused: false })
+
+  useEffect(() => {
+    setState(downloadQueue.getState())
+    return downloadQueue.subscribe(setState)
+  }, [])
+
+  return {
+    ...state,
+    enqueue: downloadQueue.enqueue.bind(downloadQueue),
+    pause: downloadQueue.pause.bind(downloadQueue),
+    resume: downloadQueue.resume.bind(downloadQueue),
+    retry: downloadQueue.retry.bind(downloadQueue),
+    retryFailed: downloadQueue.retryFailed.bind(downloadQueue),
+    remove: downloadQueue.remove.bind(downloadQueue),
+    clearFinished: downloadQueue.clearFinished.bind(downloadQueue),
+  }
+}
@@ -0,0 +1,77 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { useAuth } from "@/contexts/auth-context"
+import {
+  addPageBookmark,
+  getPageBookmarks,
+  removePageBookmark,
+  updatePageBookmarkNote,
+  type NewPageBookmark,
+  type PageBookmark,
+} from "@/lib/page-bookmarks"
+
+// Page bookmarks of one manga, or of every title when `mangaId` is left out.
+// Pass null while the manga isn't known yet.
+export function usePageBookmarks(mangaId?: string | null) {
+  const { user, loading: authLoading } = useAuth()
+  const userId = user?.id ?? null
+  const [bookmarks, setBookmarks] = useState<PageBookmark[]>([])
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    if (authLoading || mangaId === null) return
+
+    let cancelled = false
+    getPageBookmarks(userId, mangaId).then((loaded) => {
+      if (cancelled) return
+      setBookmarks(loaded)
+      setLoading(false)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [authLoading, userId, mangaId])
+
+  const addBookmark = useCallback(
+    async (bookmark: NewPageBookmark) => {
+      const { bookmark: saved, error } = await addPageBookmark(userId, bookmark)
+      if (error || !saved) {
+        console.error("Error saving page bookmark:", error)
+        return null
+      }
+      setBookmarks((prev) => [saved, ...prev.filter((existing) => existing.id !== saved.id)])
+      return saved
+    },
+    [userId]
+  )
+
+  const updateNote = useCallback(
+    async (id: string, note: string) => {
+      const trimmed = note.trim() || null
+      setBookmarks((prev) => prev.map((bookmark) => (bookmark.id === id ? { ...bookmark, note: trimmed } : bookmark)))
+      const { error } = await updatePageBookmarkNote(userId, id, trimmed)
+      if (error) {
+        console.error("Error saving bookmark note:", error)
+        return false
+      }
+      return true
+    },
+    [userId]
+  )
+
+  const removeBookmark = useCallback(
+    async (id: string) => {
+      const { error } = await removePageBookmark(userId, id)
+      if (error) {
+        console.error("Error removing page bookmark:", error)
+        return false
+      }
+      setBookmarks((prev) => prev.filter((bookmark) => bookmark.id !== id))
+      return true
+    },
+    [userId]
+  )
+
+  return { bookmarks, loading, addBookmark, updateNote, removeBookmark }
+}
@@ -0,0 +1,56 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import {
+  detectPanels,
+  getPanelCorrection,
+  savePanelCorrection,
+  type PanelRect,
+} from "@/lib/panel-detection"
+
+// Panels of the page being shown: the user's correction when there is one,
+// otherwise the detected ones. `panels` is null while detection runs.
+export function usePagePanels(
+  src: string | null,
+  chapterId: string | null,
+  pageIndex: number,
+  direction: "ltr" | "rtl",
+  enabled: boolean
+) {
+  const [detected, setDetected] = useState<{ src: string; direction: string; panels: PanelRect[] } | null>(null)
+  const [correction, setCorrectionState] = useState<PanelRect[] | null>(null)
+
+  useEffect(() => {
+    setCorrectionState(chapterId ? getPanelCorrection(chapterId, pageIndex) : null)
+  }, [chapterId, pageIndex])
+
+  useEffect(() => {
+    if (!enabled || !src) return
+
+    let cancelled = false
+    detectPanels(src, direction).then((panels) => {
+      if (!cancelled) setDetected({ src, direction, panels })
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [enabled, src, direction])
+
+  // Null drops the correction and goes back to the detected panels
+  const setCorrection = useCallback(
+    (panels: PanelRect[] | null) => {
+      if (!chapterId) return
+      setCorrectionState(panels)
+      savePanelCorrection(chapterId, pageIndex, panels)
+    },
+    [chapterId, pageIndex]
+  )
+
+  const detectedPanels = detected && detected.src === src && detected.direction === direction ? detected.panels : null
+
+  return {
+    panels: correction ?? detectedPanels,
+    corrected: correction !== null,
+    setCorrection,
+  }
+}
@@ -0,0 +1,23 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { getPreferredGroup, savePreferredGroup } from "@/lib/scanlation-groups"
+
+// The scanlation group a manga should be read in, kept per manga on this device
+export function usePreferredGroup(mangaId: string | null) {
+  const [preferredGroup, setPreferredGroupState] = useState<string | null>(null)
+
+  useEffect(() => {
+    setPreferredGroupState(mangaId ? getPreferredGroup(mangaId) : null)
+  }, [mangaId])
+
+  const setPreferredGroup = useCallback(
+    (groupId: string | null) => {
+      setPreferredGroupState(groupId)
+      if (mangaId) savePreferredGroup(mangaId, groupId)
+    },
+    [mangaId]
+  )
+
+  return { preferredGroup, setPreferredGroup }
+}
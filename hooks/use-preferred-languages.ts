@@ -0,0 +1,42 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { useAuth } from "@/contexts/auth-context"
+import { DEFAULT_LANGUAGES, getPreferredLanguages, savePreferredLanguages } from "@/lib/language-preferences"
+
+export function usePreferredLanguages() {
+  const { user, loading: authLoading } = useAuth()
+  const userId = user?.id ?? null
+  const [languages, setLanguagesState] = useState<string[]>(DEFAULT_LANGUAGES)
+  const [ready, setReady] = useState(false)
+
+  useEffect(() => {
+    if (authLoading) return
+
+    let cancelled = false
+    getPreferredLanguages(userId).then((loaded) => {
+      if (cancelled) return
+      setLanguagesState(loaded)
+      setReady(true)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [authLoading, userId])
+
+  const setLanguages = useCallback(
+    async (next: string[]) => {
+      if (next.length === 0) return false
+      setLanguagesState(next)
+      const { error } = await savePreferredLanguages(userId, next)
+      if (error) {
+        console.error("Error saving preferred languages:", error)
+        return false
+      }
+      return true
+    },
+    [userId]
+  )
+
+  return { languages, ready, setLanguages }
+}
@@ -0,0 +1,134 @@
+"use client"
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react"
+import { useAuth } from "@/contexts/auth-context"
+import {
+  DEFAULT_READER_PREFERENCES,
+  deletePreferenceProfile,
+  isAccountWidePreference,
+  loadPreferenceProfiles,
+  pickMangaPreferences,
+  resolvePreferences,
+  savePreferenceProfile,
+  type ReaderPreferenceProfiles,
+  type ReaderPreferences,
+} from "@/lib/reader-preferences"
+
+const SAVE_DELAY = 600
+
+// Reader settings for one manga: its own profile when it has one, otherwise
+// the user's defaults with `suggested` filling in title-specific choices.
+// Pass a memoized `suggested` object.
+export function useReaderPreferences(mangaId: string | null, suggested: Partial<ReaderPreferences>) {
+  const { user, loading: authLoading } = useAuth()
+  const userId = user?.id ?? null
+  const [profiles, setProfiles] = useState<ReaderPreferenceProfiles | null>(null)
+  const [loadedFor, setLoadedFor] = useState<string | null>(null)
+  const saveTimers = useRef<Map<string, NodeJS.Timeout>>(new Map())
+
+  useEffect(() => {
+    if (authLoading || !mangaId) return
+
+    let cancelled = false
+    loadPreferenceProfiles(userId, mangaId).then((loaded) => {
+      if (cancelled) return
+      setProfiles(loaded)
+      setLoadedFor(mangaId)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [authLoading, userId, mangaId])
+
+  // Slider drags produce many changes, only the last one is written
+  const scheduleSave = useCallback(
+    (scope: string | null, settings: Partial<ReaderPreferences>) => {
+      const key = scope ?? ""
+      const pending = saveTimers.current.get(key)
+      if (pending) clearTimeout(pending)
+
+      saveTimers.current.set(
+        key,
+        setTimeout(async () => {
+          saveTimers.current.delete(key)
+          const { error } = await savePreferenceProfile(userId, scope, settings)
+          if (error) console.error("Error saving reader preferences:", error)
+        }, SAVE_DELAY)
+      )
+    },
+    [userId]
+  )
+
+  const preferences = useMemo(
+    () =>
+      profiles
+        ? resolvePreferences(profiles, mangaId, suggested)
+        : { ...DEFAULT_READER_PREFERENCES, ...suggested },
+    [profiles, mangaId, suggested]
+  )
+
+  const hasMangaProfile = !!(mangaId && profiles?.manga[mangaId])
+
+  // Changes go to the manga's own profile when it has one. Changing a setting
+  // that was suggested for this title starts a profile for it, everything else
+  // updates the defaults. Input controls always update the defaults.
+  const updatePreferences = useCallback(
+    (changes: Partial<ReaderPreferences>) => {
+      if (!profiles) return
+
+      const override = mangaId ? profiles.manga[mangaId] : undefined
+      const mangaChanges = pickMangaPreferences(changes)
+      const touchesSuggestion = Object.keys(mangaChanges).some((key) => key in suggested)
+      const useMangaProfile = !!mangaId && (!!override || touchesSuggestion)
+
+      const accountChanges: Partial<ReaderPreferences> = Object.fromEntries(
+        Object.entries(changes).filter(([key]) => isAccountWidePreference(key))
+      )
+      const defaultChanges = useMangaProfile ? accountChanges : changes
+
+      let next = profiles
+      if (Object.keys(defaultChanges).length > 0) {
+        const defaults = { ...profiles.defaults, ...defaultChanges }
+        next = { ...next, defaults }
+        scheduleSave(null, defaults)
+      }
+      if (mangaId && useMangaProfile && Object.keys(mangaChanges).length > 0) {
+        const settings = pickMangaPreferences({ ...(override || preferences), ...mangaChanges })
+        next = { ...next, manga: { ...next.manga, [mangaId]: settings } }
+        scheduleSave(mangaId, settings)
+      }
+      setProfiles(next)
+    },
+    [profiles, mangaId, preferences, suggested, scheduleSave]
+  )
+
+  // Pins the current settings to this manga, or drops its profile again
+  const setMangaProfile = useCallback(
+    async (enabled: boolean) => {
+      if (!profiles || !mangaId) return
+
+      const manga = { ...profiles.manga }
+      if (enabled) {
+        manga[mangaId] = pickMangaPreferences(preferences)
+        setProfiles({ ...profiles, manga })
+        scheduleSave(mangaId, manga[mangaId])
+      } else {
+        delete manga[mangaId]
+        setProfiles({ ...profiles, manga })
+        const pending = saveTimers.current.get(mangaId)
+        if (pending) clearTimeout(pending)
+        const { error } = await deletePreferenceProfile(userId, mangaId)
+        if (error) console.error("Error removing reader preferences:", error)
+      }
+    },
+    [profiles, mangaId, preferences, userId, scheduleSave]
+  )
+
+  return {
+    preferences,
+    ready: !!mangaId && loadedFor === mangaId,
+    hasMangaProfile,
+    updatePreferences,
+    setMangaProfile,
+  }
+}
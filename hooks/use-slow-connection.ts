@@ -0,0 +1,22 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { getNetworkInformation, isSlowConnection } from "@/lib/at-home"
+
+// Follows the browser's connection info, for automatic data saver mode
+export function useSlowConnection() {
+  const [slow, setSlow] = useState(false)
+
+  useEffect(() => {
+    setSlow(isSlowConnection())
+
+    const connection = getNetworkInformation()
+    if (!connection) return
+
+    const handleChange = () => setSlow(isSlowConnection())
+    connection.addEventListener("change", handleChange)
+    return () => connection.removeEventListener("change", handleChange)
+  }, [])
+
+  return slow
+}
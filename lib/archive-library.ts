@@ -0,0 +1,376 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+import {
+  getImageMimeType,
+  isArchiveFile,
+  naturalCompare,
+  parseChapterNumber,
+  parseVolumeNumber,
+  readArchiveEntry,
+  readArchiveIndex,
+  stripExtension,
+} from './comic-archive'
+import type { ComicInfo } from './comic-info'
+import { slugify } from './slugify'
+import { ARCHIVE_SOURCE_ID } from './sources/archive'
+import type { Chapter, Manga, Tag } from './sources/types'
+
+// Server-side index of the self-hosted archive in MANGA_ARCHIVE_DIR. Every
+// folder in it is a series whose chapters are CBZ/ZIP files or folders of
+// images (images right inside the series folder make a single chapter), and
+// archives at the top level are one-chapter series. ComicInfo.xml fills in
+// titles, numbers and the summary, a cover.jpg/png next to the chapters is
+// used as the cover. Only server code may import this module.
+
+interface ArchiveChapter {
+  id: string
+  seriesId: string
+  // Archive file or image folder on disk
+  location: string
+  kind: 'archive' | 'folder'
+  // Entry names inside the archive, or file names inside the folder
+  pageNames: string[]
+  comicInfo: ComicInfo | null
+  name: string
+  modifiedAt: Date
+}
+
+interface ArchiveSeries {
+  id: string
+  name: string
+  coverFile: string | null
+  chapters: ArchiveChapter[]
+}
+
+interface ArchiveIndex {
+  series: ArchiveSeries[]
+  builtAt: number
+}
+
+// Directory listings are walked again after this long
+const INDEX_TTL_MS = 60 * 1000
+// Archives kept in memory for page requests, the reader asks for one page at a time
+const OPEN_ARCHIVE_LIMIT = 3
+const COVER_NAMES = /^(cover|folder|poster)\.(jpe?g|png|webp|avif|gif)$/i
+
+let indexCache: Promise<ArchiveIndex> | null = null
+// Parsed archives by path, reused while the file is unchanged
+const chapterCache = new Map<string, { modifiedAt: number; index: ReturnType<typeof readArchiveIndex> }>()
+const openArchives = new Map<string, { modifiedAt: number; data: Uint8Array }>()
+
+export function getArchiveRoot(): string | null {
+  return process.env.MANGA_ARCHIVE_DIR || null
+}
+
+function toId(...parts: string[]) {
+  return [ARCHIVE_SOURCE_ID, ...parts].join(':')
+}
+
+async function listDirectory(dir: string) {
+  const entries = await fs.readdir(dir, { withFileTypes: true })
+  return entries.filter((entry) => !entry.name.startsWith('.')).sort((a, b) => naturalCompare(a.name, b.name))
+}
+
+async function indexArchiveFile(file: string, seriesId: string): Promise<ArchiveChapter | null> {
+  const stat = await fs.stat(file)
+  let cached = chapterCache.get(file)
+  if (!cached || cached.modifiedAt !== stat.mtimeMs) {
+    try {
+      cached = { modifiedAt: stat.mtimeMs, index: readArchiveIndex(new Uint8Array(await fs.readFile(file))) }
+      chapterCache.set(file, cached)
+    } catch (error) {
+      console.error(`Skipping unreadable archive ${file}:`, error)
+      return null
+    }
+  }
+  if (cached.index.pageNames.length === 0) return null
+
+  const name = stripExtension(path.basename(file))
+  return {
+    id: `${seriesId}:${slugify(name) || 'chapter'}`,
+    seriesId,
+    location: file,
+    kind: 'archive',
+    pageNames: cached.index.pageNames,
+    comicInfo: cached.index.comicInfo,
+    name,
+    modifiedAt: stat.mtime,
+  }
+}
+
+async function indexImageFolder(dir: string, seriesId: string, skip: (name: string) => boolean = () => false) {
+  const pageNames = (await listDirectory(dir))
+    .filter((entry) => entry.isFile() && !!getImageMimeType(entry.name) && !skip(entry.name))
+    .map((entry) => entry.name)
+  if (pageNames.length === 0) return null
+
+  const name = path.basename(dir)
+  const chapter: ArchiveChapter = {
+    id: `${seriesId}:${slugify(name) || 'chapter'}`,
+    seriesId,
+    location: dir,
+    kind: 'folder',
+    pageNames,
+    comicInfo: null,
+    name,
+    modifiedAt: (await fs.stat(dir)).mtime,
+  }
+  return chapter
+}
+
+async function indexSeriesFolder(dir: string): Promise<ArchiveSeries | null> {
+  const name = path.basename(dir)
+  const id = toId(slugify(name) || 'series')
+  const entries = await listDirectory(dir)
+  const chapters: ArchiveChapter[] = []
+
+  for (const entry of entries) {
+    const location = path.join(dir, entry.name)
+    const chapter = entry.isDirectory()
+      ? await indexImageFolder(location, id)
+      : entry.isFile() && isArchiveFile(entry.name)
+        ? await indexArchiveFile(location, id)
+        : null
+    // Chapters whose names slugify the same way would share an id
+    if (chapter && !chapters.some((other) => other.id === chapter.id)) chapters.push(chapter)
+  }
+
+  const coverFile = entries.find((entry) => entry.isFile() && COVER_NAMES.test(entry.name))?.name || null
+  if (chapters.length === 0) {
+    const single = await indexImageFolder(dir, id, (file) => file === coverFile)
+    if (single) chapters.push(single)
+  }
+
+  return chapters.length > 0 ? { id, name, coverFile: coverFile && path.join(dir, coverFile), chapters } : null
+}
+
+async function buildIndex(root: string): Promise<ArchiveIndex> {
+  const series: ArchiveSeries[] = []
+  const seen = new Set<string>()
+
+  for (const entry of await listDirectory(root)) {
+    const location = path.join(root, entry.name)
+    let found: ArchiveSeries | null = null
+
+    if (entry.isDirectory()) {
+      found = await indexSeriesFolder(location)
+    } else if (entry.isFile() && isArchiveFile(entry.name)) {
+      const name = stripExtension(entry.name)
+      const id = toId(slugify(name) || 'series')
+      const chapter = await indexArchiveFile(location, id)
+      if (chapter) found = { id, name: chapter.comicInfo?.series || name, coverFile: null, chapters: [chapter] }
+    }
+
+    // Two folders that slugify the same way would share an id, the first one wins
+    if (found && !seen.has(found.id)) {
+      seen.add(found.id)
+      series.push(found)
+    }
+  }
+
+  // Chapters and archives that are gone no longer need their cached index
+  const present = new Set(series.flatMap((s) => s.chapters.map((chapter) => chapter.location)))
+  Array.from(chapterCache.keys()).forEach((file) => {
+    if (!present.has(file)) chapterCache.delete(file)
+  })
+
+  return { series, builtAt: Date.now() }
+}
+
+async function getIndex(): Promise<ArchiveIndex> {
+  const root = getArchiveRoot()
+  if (!root) return { series: [], builtAt: Date.now() }
+
+  if (indexCache) {
+    const index = await indexCache
+    if (Date.now() - index.builtAt < INDEX_TTL_MS) return index
+  }
+
+  const building = buildIndex(root)
+  indexCache = building
+  // A failed scan is retried on the next request
+  building.catch(() => {
+    if (indexCache === building) indexCache = null
+  })
+  return building
+}
+
+function getSeriesInfo(series: ArchiveSeries): ComicInfo {
+  return series.chapters.find((chapter) => chapter.comicInfo)?.comicInfo || {}
+}
+
+function getSeriesTitle(series: ArchiveSeries) {
+  return getSeriesInfo(series).series || series.name
+}
+
+function toChapter(chapter: ArchiveChapter): Chapter {
+  const info = chapter.comicInfo || {}
+  const modifiedAt = chapter.modifiedAt.toISOString()
+  return {
+    id: chapter.id,
+    type: 'chapter',
+    attributes: {
+      title: info.title && info.title !== info.series ? info.title : null,
+      volume: info.volume || parseVolumeNumber(chapter.name),
+      chapter: info.number || parseChapterNumber(chapter.name),
+      pages: chapter.pageNames.length,
+      translatedLanguage: info.languageISO || 'en',
+      uploader: '',
+      externalUrl: null,
+      version: 1,
+      createdAt: modifiedAt,
+      updatedAt: modifiedAt,
+      publishAt: modifiedAt,
+      readableAt: modifiedAt,
+    },
+    relationships: [{ id: chapter.seriesId, type: 'manga' }],
+  }
+}
+
+// Volumes are often only known for some of the files, so unlike the MangaDex
+// feed the chapters are ordered by number alone
+function sortChapters(chapters: Chapter[]): Chapter[] {
+  return [...chapters].sort(
+    (a, b) => Number.parseFloat(a.attributes.chapter || '0') - Number.parseFloat(b.attributes.chapter || '0')
+  )
+}
+
+function toManga(series: ArchiveSeries): Manga {
+  const info = getSeriesInfo(series)
+  const chapters = sortChapters(series.chapters.map(toChapter))
+  const last = chapters[chapters.length - 1]
+  const dates = series.chapters.map((chapter) => chapter.modifiedAt.getTime())
+  const tags: Tag[] = (info.genre || '')
+    .split(',')
+    .map((genre) => genre.trim())
+    .filter(Boolean)
+    .map((genre) => ({
+      id: toId('genre', slugify(genre)),
+      type: 'tag',
+      attributes: { name: { en: genre }, description: {}, group: 'genre', version: 1 },
+    }))
+
+  const relationships: Manga['relationships'] = [{ id: `${series.id}:cover`, type: 'cover_art', attributes: { fileName: 'cover' } }]
+  if (info.writer) relationships.push({ id: toId('author', slugify(info.writer)), type: 'author', attributes: { name: info.writer } })
+  if (info.penciller) relationships.push({ id: toId('artist', slugify(info.penciller)), type: 'artist', attributes: { name: info.penciller } })
+
+  return {
+    id: series.id,
+    type: 'manga',
+    attributes: {
+      title: { en: getSeriesTitle(series) },
+      altTitles: [],
+      description: info.summary ? { en: info.summary } : {},
+      isLocked: false,
+      links: {},
+      originalLanguage: info.manga === 'YesAndRightToLeft' ? 'ja' : info.languageISO || 'en',
+      lastVolume: last?.attributes.volume || null,
+      lastChapter: last?.attributes.chapter || null,
+      publicationDemographic: null,
+      status: 'ongoing',
+      year: info.year ?? null,
+      contentRating: 'safe',
+      tags,
+      state: 'published',
+      chapterNumbersResetOnNewVolume: false,
+      createdAt: new Date(Math.min(...dates)).toISOString(),
+      updatedAt: new Date(Math.max(...dates)).toISOString(),
+      availableTranslatedLanguages: Array.from(new Set(chapters.map((chapter) => chapter.attributes.translatedLanguage))),
+      latestUploadedChapter: last?.id || '',
+    },
+    relationships,
+  }
+}
+
+async function findSeries(id: string) {
+  return (await getIndex()).series.find((series) => series.id === id) || null
+}
+
+async function findChapter(id: string) {
+  for (const series of (await getIndex()).series) {
+    const chapter = series.chapters.find((c) => c.id === id)
+    if (chapter) return chapter
+  }
+  return null
+}
+
+export async function searchArchive(query: string, limit: number, offset: number) {
+  const needle = query.trim().toLowerCase()
+  const matches = (await getIndex()).series
+    .filter((series) => !needle || getSeriesTitle(series).toLowerCase().includes(needle))
+    .sort((a, b) => naturalCompare(getSeriesTitle(a), getSeriesTitle(b)))
+
+  return {
+    data: matches.slice(offset, offset + limit).map(toManga),
+    limit,
+    offset,
+    total: matches.length,
+  }
+}
+
+export async function getArchiveManga(id: string): Promise<Manga | null> {
+  const series = await findSeries(id)
+  return series ? toManga(series) : null
+}
+
+// Every chapter of a series in reading order. An archive holds one copy of
+// each chapter, so there is no language filtering.
+export async function getArchiveChapters(mangaId: string): Promise<Chapter[] | null> {
+  const series = await findSeries(mangaId)
+  return series ? sortChapters(series.chapters.map(toChapter)) : null
+}
+
+export async function getArchiveChapter(id: string): Promise<Chapter | null> {
+  const chapter = await findChapter(id)
+  return chapter ? toChapter(chapter) : null
+}
+
+async function openArchive(file: string): Promise<Uint8Array> {
+  const { mtimeMs } = await fs.stat(file)
+  const cached = openArchives.get(file)
+  if (cached && cached.modifiedAt === mtimeMs) {
+    // Most recently used goes to the back
+    openArchives.delete(file)
+    openArchives.set(file, cached)
+    return cached.data
+  }
+
+  const data = new Uint8Array(await fs.readFile(file))
+  openArchives.set(file, { modifiedAt: mtimeMs, data })
+  while (openArchives.size > OPEN_ARCHIVE_LIMIT) {
+    openArchives.delete(openArchives.keys().next().value as string)
+  }
+  return data
+}
+
+async function readChapterPage(chapter: ArchiveChapter, index: number) {
+  const name = chapter.pageNames[index]
+  if (!name) return null
+
+  const mimeType = getImageMimeType(name) || 'application/octet-stream'
+  if (chapter.kind === 'folder') {
+    return { bytes: new Uint8Array(await fs.readFile(path.join(chapter.location, name))), mimeType }
+  }
+  const bytes = readArchiveEntry(await openArchive(chapter.location), name)
+  return bytes ? { bytes, mimeType } : null
+}
+
+export async function getArchivePage(chapterId: string, index: number) {
+  const chapter = await findChapter(chapterId)
+  return chapter ? readChapterPage(chapter, index) : null
+}
+
+// The series' cover file, or else the first page of its first chapter
+export async function getArchiveCover(mangaId: string) {
+  const series = await findSeries(mangaId)
+  if (!series) return null
+
+  if (series.coverFile) {
+    const mimeType = getImageMimeType(series.coverFile) || 'application/octet-stream'
+    return { bytes: new Uint8Array(await fs.readFile(series.coverFile)), mimeType }
+  }
+
+  const [first] = sortChapters(series.chapters.map(toChapter))
+  const chapter = series.chapters.find((c) => c.id === first?.id)
+  return chapter ? readChapterPage(chapter, 0) : null
+}
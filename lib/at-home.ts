@@ -0,0 +1,181 @@
+export type ImageQuality = 'original' | 'data-saver'
+export type ImageQualitySetting = ImageQuality | 'auto'
+
+// Page files of a chapter on the MangaDex@Home node that was handed out for it
+export interface AtHomeServer {
+  baseUrl: string
+  hash: string
+  data: string[]
+  dataSaver: string[]
+}
+
+// navigator.connection isn't part of the DOM typings yet
+interface NetworkInformation extends EventTarget {
+  effectiveType?: string
+  saveData?: boolean
+}
+
+const SLOW_CONNECTION_TYPES = ['slow-2g', '2g', '3g']
+const REPORT_URL = '/api/proxy/mangadex-network/report'
+// at-home hands out servers for about 15 minutes, reuse them for a bit less
+const SERVER_CACHE_TTL_MS = 10 * 60 * 1000
+
+const serverCache = new Map<string, { server: AtHomeServer; fetchedAt: number }>()
+
+// RateLimiter class for fixed window
+class RateLimiter {
+  private timestamps: number[] = [] // Stores timestamps of requests
+  private readonly limit: number // Max requests allowed in the window
+  private readonly windowMs: number // Time window in milliseconds
+
+  constructor(limit: number, windowMinutes: number) {
+    this.limit = limit
+    this.windowMs = windowMinutes * 60 * 1000
+  }
+
+  // Requests that can still be made in the current window without waiting
+  remaining(): number {
+    const now = Date.now()
+    this.timestamps = this.timestamps.filter((ts) => now - ts < this.windowMs)
+    return this.limit - this.timestamps.length
+  }
+
+  async acquire(signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      let timer: ReturnType<typeof setTimeout> | null = null
+      // Aborting gives up the place in line without using a slot
+      const onAbort = () => {
+        if (timer) clearTimeout(timer)
+        reject(new DOMException('Aborted', 'AbortError'))
+      }
+      if (signal?.aborted) {
+        onAbort()
+        return
+      }
+      signal?.addEventListener('abort', onAbort, { once: true })
+
+      const checkAndExecute = () => {
+        const now = Date.now()
+        // Remove timestamps older than the current window
+        this.timestamps = this.timestamps.filter((ts) => now - ts < this.windowMs)
+
+        if (this.timestamps.length < this.limit) {
+          // If limit not reached, add current timestamp and resolve immediately
+          this.timestamps.push(now)
+          signal?.removeEventListener('abort', onAbort)
+          resolve()
+        } else {
+          // If limit reached, calculate time until the oldest request expires
+          const oldestRequestTime = this.timestamps[0]
+          const timeToWait = this.windowMs - (now - oldestRequestTime) + 50 // Add a small buffer
+          timer = setTimeout(checkAndExecute, timeToWait) // Wait and re-check
+        }
+      }
+      checkAndExecute()
+    })
+  }
+}
+
+// Instantiate the rate limiter for AtHome endpoint (40 requests per 1 minute)
+const atHomeRateLimiter = new RateLimiter(40, 1)
+
+export function getAtHomeRequestsLeft() {
+  return atHomeRateLimiter.remaining()
+}
+
+async function requestAtHomeServer(id: string, forcePort443 = false, signal?: AbortSignal) {
+  await atHomeRateLimiter.acquire(signal) // Acquire a slot from the rate limiter
+  const response = await fetch(`/api/proxy/mangadx/at-home/server/${id}${forcePort443 ? '?forcePort443=true' : ''}`, { signal })
+  if (!response.ok) {
+    const errorText = await response.text()
+    console.error(`MangaDx Chapter Pages API Error (${response.status}):`, errorText)
+    throw new Error(`Failed to fetch chapter pages: ${response.statusText}`)
+  }
+  return response.json()
+}
+
+export function getNetworkInformation(): NetworkInformation | undefined {
+  if (typeof navigator === 'undefined') return undefined
+  return (navigator as Navigator & { connection?: NetworkInformation }).connection
+}
+
+// Data saver mode or a cellular-grade connection
+export function isSlowConnection() {
+  const connection = getNetworkInformation()
+  if (!connection) return false
+  return !!connection.saveData || SLOW_CONNECTION_TYPES.includes(connection.effectiveType || '')
+}
+
+export function resolveImageQuality(setting: ImageQualitySetting, slowConnection: boolean): ImageQuality {
+  if (setting === 'auto') {
+    return slowConnection ? 'data-saver' : 'original'
+  }
+  return setting
+}
+
+// Asks for a node serving the chapter, reusing a recent answer such as one
+// from a prefetch. After failures `forcePort443` asks for a new node that
+// avoids unusual ports, which some networks block.
+export async function getAtHomeServer(chapterId: string, forcePort443 = false, signal?: AbortSignal): Promise<AtHomeServer> {
+  const cached = serverCache.get(chapterId)
+  if (!forcePort443 && cached && Date.now() - cached.fetchedAt < SERVER_CACHE_TTL_MS) {
+    return cached.server
+  }
+
+  const response = await requestAtHomeServer(chapterId, forcePort443, signal)
+  const chapter = response.chapter
+
+  if (!response.baseUrl || !chapter?.hash || !chapter?.data) {
+    throw new Error('Chapter page list is missing')
+  }
+
+  const server = {
+    baseUrl: response.baseUrl,
+    hash: chapter.hash,
+    data: chapter.data,
+    dataSaver: chapter.dataSaver || [],
+  }
+  serverCache.set(chapterId, { server, fetchedAt: Date.now() })
+  return server
+}
+
+export function buildPageUrls(server: AtHomeServer, quality: ImageQuality): string[] {
+  if (quality === 'data-saver' && server.dataSaver.length === server.data.length) {
+    return server.dataSaver.map((page) => `${server.baseUrl}/data-saver/${server.hash}/${page}`)
+  }
+  return server.data.map((page) => `${server.baseUrl}/data/${server.hash}/${page}`)
+}
+
+// Pages served by MangaDex's own servers are not reported, only @Home nodes
+export function isAtHomeUrl(url: string) {
+  try {
+    const { protocol, hostname } = new URL(url)
+    return (protocol === 'https:' || protocol === 'http:') && !/(^|\.)mangadex\.org$/.test(hostname)
+  } catch {
+    return false
+  }
+}
+
+// Tells MangaDex@Home how loading a page from a node went. Size and timing
+// come from the browser's resource timing entry when there is one. Whether the
+// node served it from its cache can't be read from an <img> load, so
+// `cached` is always false.
+export function reportAtHomeLoad(url: string, success: boolean) {
+  if (!isAtHomeUrl(url)) return
+
+  const timing = typeof performance !== 'undefined'
+    ? (performance.getEntriesByName(url).pop() as PerformanceResourceTiming | undefined)
+    : undefined
+
+  fetch(REPORT_URL, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      url,
+      success,
+      cached: false,
+      bytes: success ? timing?.encodedBodySize || 0 : 0,
+      duration: Math.round(timing?.duration || 0),
+    }),
+  }).catch((error) => console.warn('Could not report page load to MangaDex@Home:', error))
+}
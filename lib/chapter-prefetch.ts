@@ -0,0 +1,44 @@
+import type { ImageQuality } from './at-home'
+import { getSourceForId } from './sources'
+
+// Pages of the next chapter loaded ahead of time
+const PREFETCH_PAGES = 3
+// Page list requests left alone for chapters the user actually opens
+const RESERVED_PAGE_REQUESTS = 10
+
+function preloadImage(url: string, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const img = new window.Image()
+    const finish = () => {
+      signal.removeEventListener('abort', cancel)
+      resolve()
+    }
+    const cancel = () => {
+      img.src = ''
+      finish()
+    }
+
+    signal.addEventListener('abort', cancel, { once: true })
+    img.crossOrigin = 'anonymous'
+    img.onload = finish
+    img.onerror = finish
+    img.src = url
+  })
+}
+
+// Resolves the page list of a chapter and warms the browser cache with its
+// first pages, so opening it later doesn't wait on either. Skipped when the
+// source's rate limit is close to being used up.
+export async function prefetchChapter(chapterId: string, quality: ImageQuality, signal: AbortSignal) {
+  const source = getSourceForId(chapterId)
+  if (source.pageRequestsLeft && source.pageRequestsLeft() < RESERVED_PAGE_REQUESTS) return false
+
+  const urls = await source.getChapterPages(chapterId, { quality, signal })
+  if (signal.aborted) return false
+
+  for (const url of urls.slice(0, PREFETCH_PAGES)) {
+    await preloadImage(url, signal)
+    if (signal.aborted) return false
+  }
+  return true
+}
@@ -0,0 +1,110 @@
+import { unzipSync, strFromU8 } from 'fflate'
+import { parseComicInfoXml, type ComicInfo } from './comic-info'
+
+// Helpers for CBZ/ZIP archives and image folders, shared by the browser
+// importer and the server-side local library.
+
+export const IMAGE_MIME_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp',
+  gif: 'image/gif',
+  avif: 'image/avif',
+}
+
+export const ARCHIVE_EXTENSIONS = ['cbz', 'zip']
+
+export interface ArchivePage {
+  name: string
+  bytes: Uint8Array
+  mimeType: string
+}
+
+export interface ArchiveContents {
+  pages: ArchivePage[]
+  comicInfo: ComicInfo | null
+}
+
+function getExtension(name: string) {
+  const dot = name.lastIndexOf('.')
+  return dot === -1 ? '' : name.slice(dot + 1).toLowerCase()
+}
+
+export function getImageMimeType(name: string): string | null {
+  return IMAGE_MIME_TYPES[getExtension(name)] || null
+}
+
+export function isArchiveFile(name: string) {
+  return ARCHIVE_EXTENSIONS.includes(getExtension(name))
+}
+
+// Ignores macOS resource forks and other hidden entries
+function isHiddenPath(path: string) {
+  return path.split('/').some((part) => part.startsWith('.') || part === '__MACOSX')
+}
+
+// Sorts "page 2" before "page 10"
+export function naturalCompare(a: string, b: string) {
+  return a.localeCompare(b, undefined, { numeric: true, sensitivity: 'base' })
+}
+
+export function stripExtension(name: string) {
+  const base = name.split('/').pop() || name
+  const dot = base.lastIndexOf('.')
+  return dot > 0 ? base.slice(0, dot) : base
+}
+
+// Pulls a chapter number out of names like "Vol.02 Ch.013.5 - Title.cbz"
+export function parseChapterNumber(name: string): string | null {
+  const match = name.match(/(?:^|[^a-z])(?:ch(?:apter)?|c)[.\s_-]*(\d+(?:\.\d+)?)/i) || name.match(/(\d+(?:\.\d+)?)(?!.*\d)/)
+  return match ? String(Number.parseFloat(match[1])) : null
+}
+
+export function parseVolumeNumber(name: string): string | null {
+  const match = name.match(/(?:^|[^a-z])v(?:ol(?:ume)?)?[.\s_-]*(\d+)/i)
+  return match ? String(Number.parseInt(match[1], 10)) : null
+}
+
+export function readArchive(data: Uint8Array): ArchiveContents {
+  const entries = unzipSync(data, {
+    filter: (file) => !isHiddenPath(file.name) && (!!getImageMimeType(file.name) || /(^|\/)comicinfo\.xml$/i.test(file.name)),
+  })
+
+  let comicInfo: ComicInfo | null = null
+  const pages: ArchivePage[] = []
+
+  for (const [name, bytes] of Object.entries(entries)) {
+    const mimeType = getImageMimeType(name)
+    if (mimeType) {
+      pages.push({ name, bytes, mimeType })
+    } else {
+      comicInfo = parseComicInfoXml(strFromU8(bytes))
+    }
+  }
+
+  pages.sort((a, b) => naturalCompare(a.name, b.name))
+  return { pages, comicInfo }
+}
+
+// Page names and metadata of an archive without inflating any page, for
+// indexing large libraries
+export function readArchiveIndex(data: Uint8Array): { pageNames: string[]; comicInfo: ComicInfo | null } {
+  const pageNames: string[] = []
+  const entries = unzipSync(data, {
+    filter: (file) => {
+      if (isHiddenPath(file.name)) return false
+      if (getImageMimeType(file.name)) pageNames.push(file.name)
+      return /(^|\/)comicinfo\.xml$/i.test(file.name)
+    },
+  })
+
+  const [infoBytes] = Object.values(entries)
+  pageNames.sort(naturalCompare)
+  return { pageNames, comicInfo: infoBytes ? parseComicInfoXml(strFromU8(infoBytes)) : null }
+}
+
+// Inflates a single entry of an archive
+export function readArchiveEntry(data: Uint8Array, name: string): Uint8Array | null {
+  return unzipSync(data, { filter: (file) => file.name === name })[name] || null
+}
@@ -0,0 +1,95 @@
+import type { ExportMetadata } from './export'
+
+// ComicInfo.xml is the metadata file used by CBZ readers (ComicRack schema).
+// Parsing is regex based so it also runs on the server, where there is no DOMParser.
+
+export interface ComicInfo {
+  series?: string
+  title?: string
+  number?: string
+  volume?: string
+  summary?: string
+  writer?: string
+  penciller?: string
+  genre?: string
+  year?: number
+  languageISO?: string
+  manga?: string
+}
+
+export function escapeXml(value: string) {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+}
+
+function unescapeXml(value: string) {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&')
+}
+
+export function buildComicInfoXml(metadata: ExportMetadata, pageCount: number) {
+  const fields: [string, string | number | undefined][] = [
+    ['Title', metadata.title],
+    ['Series', metadata.series],
+    ['Number', metadata.number],
+    ['Volume', metadata.volume],
+    ['Summary', metadata.summary],
+    ['Year', metadata.year],
+    ['Writer', metadata.writers?.join(', ')],
+    ['Penciller', metadata.artists?.join(', ')],
+    ['Genre', metadata.genres?.join(', ')],
+    ['Tags', metadata.tags?.join(', ')],
+    ['Web', metadata.web],
+    ['PageCount', pageCount],
+    ['LanguageISO', metadata.language],
+    ['Manga', metadata.direction === 'rtl' ? 'YesAndRightToLeft' : 'No'],
+  ]
+
+  const body = fields
+    .filter(([, value]) => value !== undefined && value !== '')
+    .map(([name, value]) => `  <${name}>${escapeXml(String(value))}</${name}>`)
+    .join('\n')
+  const pages = Array.from({ length: pageCount }, (_, i) =>
+    `    <Page Image="${i}"${i === 0 ? ' Type="FrontCover"' : ''} />`
+  ).join('\n')
+
+  return `<?xml version="1.0" encoding="utf-8"?>
+<ComicInfo xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xmlns:xsd="http://www.w3.org/2001/XMLSchema">
+${body}
+  <Pages>
+${pages}
+  </Pages>
+</ComicInfo>
+`
+}
+
+export function parseComicInfoXml(xml: string): ComicInfo {
+  const field = (name: string) => {
+    const match = xml.match(new RegExp(`<${name}>([\\s\\S]*?)</${name}>`))
+    const value = match ? unescapeXml(match[1]).trim() : ''
+    return value || undefined
+  }
+  const year = Number.parseInt(field('Year') || '', 10)
+
+  return {
+    series: field('Series'),
+    title: field('Title'),
+    number: field('Number'),
+    volume: field('Volume'),
+    summary: field('Summary'),
+    writer: field('Writer'),
+    penciller: field('Penciller'),
+    genre: field('Genre'),
+    year: Number.isNaN(year) ? undefined : year,
+    languageISO: field('LanguageISO'),
+    manga: field('Manga'),
+  }
+}
@@ -0,0 +1,124 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+
+// Recorded upstream responses served by the proxy in demo mode. Every JSON
+// file in the fixture directory holds a list of fixtures keyed by request,
+// `api/path?query` with the query sorted:
+//   - a key with a query only answers that exact query
+//   - a key without one answers the path with any query
+//   - a `*` path segment matches any single segment, e.g. `mangadex/at-home/server/*`
+// Running the proxy with DEMO_RECORD=true (and demo mode off) appends every
+// successful upstream answer to recorded.json. Recorded MangaDex data points
+// at real image hosts, the hand-written fixtures use images under public/demo.
+// Only server code may import this module.
+
+export interface Fixture {
+  request: string
+  status?: number
+  body: unknown
+}
+
+const FIXTURE_DIR = process.env.DEMO_FIXTURES_DIR || path.join(process.cwd(), 'fixtures', 'demo')
+const RECORDED_FILE = 'recorded.json'
+
+// The proxy accepts both spellings of MangaDex
+const API_ALIASES: Record<string, string> = { mangadx: 'mangadex' }
+
+// Upstream bases of `?url=` requests
+const UPSTREAM_APIS: [string, string][] = [
+  ['https://api.mangadex.org/', 'mangadex'],
+  ['https://kitsu.io/api/edge/', 'kitsu'],
+]
+
+let fixtureCache: Promise<Map<string, Fixture>> | null = null
+let recording = Promise.resolve()
+
+export function fixtureKey(apiName: string, apiPath: string, searchParams: URLSearchParams | string = '') {
+  const entries = Array.from(new URLSearchParams(searchParams).entries()).sort(([a, aValue], [b, bValue]) =>
+    a === b ? aValue.localeCompare(bValue) : a.localeCompare(b)
+  )
+  const query = new URLSearchParams(entries).toString()
+  const base = `${API_ALIASES[apiName] || apiName}/${apiPath.replace(/^\/+|\/+$/g, '')}`
+  return query ? `${base}?${query}` : base
+}
+
+// Key of a full upstream URL, or null for hosts the proxy has no fixtures for
+export function fixtureKeyForUrl(url: string) {
+  const match = UPSTREAM_APIS.find(([base]) => url.startsWith(base))
+  if (!match) return null
+  const { pathname, search } = new URL(url)
+  const basePath = new URL(match[0]).pathname
+  return fixtureKey(match[1], pathname.slice(basePath.length), search)
+}
+
+async function loadFixtures(): Promise<Map<string, Fixture>> {
+  const fixtures = new Map<string, Fixture>()
+  let files: string[] = []
+  try {
+    files = (await fs.readdir(FIXTURE_DIR)).filter((file) => file.endsWith('.json')).sort()
+  } catch (error) {
+    console.error(`Demo fixtures not found in ${FIXTURE_DIR}:`, error)
+  }
+
+  for (const file of files) {
+    try {
+      const list: Fixture[] = JSON.parse(await fs.readFile(path.join(FIXTURE_DIR, file), 'utf8'))
+      list.forEach((fixture) => {
+        // Keys are normalized the same way requests are
+        const [requestPath, query = ''] = fixture.request.split('?')
+        const [api, ...rest] = requestPath.split('/')
+        fixtures.set(fixtureKey(api, rest.join('/'), query), fixture)
+      })
+    } catch (error) {
+      console.error(`Skipping unreadable fixture file ${file}:`, error)
+    }
+  }
+  return fixtures
+}
+
+// Fixtures are read once per server process
+function getFixtures() {
+  fixtureCache ||= loadFixtures()
+  return fixtureCache
+}
+
+function matchesPattern(pattern: string, requestPath: string) {
+  const patternParts = pattern.split('/')
+  const pathParts = requestPath.split('/')
+  return patternParts.length === pathParts.length && patternParts.every((part, i) => part === '*' || part === pathParts[i])
+}
+
+export async function findFixture(key: string): Promise<Fixture | null> {
+  const fixtures = await getFixtures()
+  const [requestPath] = key.split('?')
+
+  const exact = fixtures.get(key) || fixtures.get(requestPath)
+  if (exact) return exact
+
+  for (const [request, fixture] of Array.from(fixtures.entries())) {
+    if (!request.includes('?') && request.includes('*') && matchesPattern(request, requestPath)) return fixture
+  }
+  return null
+}
+
+export function isRecordingFixtures() {
+  return process.env.DEMO_RECORD === 'true'
+}
+
+export function recordFixture(request: string, status: number, body: unknown) {
+  // Writes go one at a time so concurrent requests don't lose each other's entries
+  recording = recording.then(async () => {
+    const file = path.join(FIXTURE_DIR, RECORDED_FILE)
+    let list: Fixture[] = []
+    try {
+      list = JSON.parse(await fs.readFile(file, 'utf8'))
+    } catch {
+      await fs.mkdir(FIXTURE_DIR, { recursive: true })
+    }
+    list = list.filter((fixture) => fixture.request !== request)
+    list.push({ request, status, body })
+    await fs.writeFile(file, `${JSON.stringify(list, null, 2)}\n`)
+    fixtureCache = null
+  }).catch((error) => console.error('Error recording fixture:', error))
+  return recording
+}
@@ -0,0 +1,5 @@
+// Demo mode runs the whole app without network or accounts: the proxy serves
+// recorded fixtures (lib/demo-fixtures) and Supabase is replaced by an
+// in-memory store (lib/demo-supabase). Set NEXT_PUBLIC_DEMO_MODE=true to turn
+// it on, the NEXT_PUBLIC_ prefix makes it visible to the browser as well.
+export const isDemoMode = process.env.NEXT_PUBLIC_DEMO_MODE === 'true'
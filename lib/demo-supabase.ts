@@ -0,0 +1,469 @@
+import type { AuthChangeEvent, Session, SupabaseClient, User } from '@supabase/supabase-js'
+
+// Stand-in for the Supabase client in demo mode. Tables have the shapes and
+// column defaults of supabase/migrations and live in memory, mirrored to
+// localStorage so a reload keeps them. Only the parts of the query builder the
+// app uses are implemented; row level security is not enforced.
+
+type Row = Record<string, any>
+type Filter = (row: Row) => boolean
+type AuthListener = (event: AuthChangeEvent, session: Session | null) => void
+
+interface DemoUser {
+  user: User
+  password: string
+}
+
+interface DemoState {
+  tables: Record<string, Row[]>
+  users: DemoUser[]
+  sessionUserId: string | null
+}
+
+interface DemoError {
+  code: string
+  message: string
+  details: string
+  hint: string
+}
+
+const STORE_KEY = 'demo_supabase'
+
+// Signed-in account seeded into every new demo store
+export const DEMO_ACCOUNT = { email: 'demo@example.com', password: 'demo1234', username: 'demo' }
+
+// Column defaults besides id and the timestamps
+const TABLE_DEFAULTS: Record<string, Row> = {
+  profiles: { username: null, avatar_url: null, preferred_languages: ['en'] },
+  custom_lists: { description: null, is_public: false },
+  user_manga_library: {
+    poster_url: null,
+    status: 'plan_to_read',
+    custom_list_id: null,
+    progress: 0,
+    total_chapters: null,
+    rating: null,
+    notes: null,
+    auto_track: true,
+    started_at: null,
+    completed_at: null,
+  },
+  manga_comments: { likes_count: 0 },
+  comment_likes: {},
+  reader_preferences: { settings: {} },
+  chapter_read_state: { last_page: 1, total_pages: null, completed: false, completed_at: null },
+  page_bookmarks: { chapter_number: null, note: null, thumbnail: null },
+}
+
+const UNIQUE_KEYS: Record<string, string[]> = {
+  user_manga_library: ['user_id', 'manga_id'],
+  comment_likes: ['user_id', 'comment_id'],
+  reader_preferences: ['user_id', 'manga_id'],
+  chapter_read_state: ['user_id', 'chapter_id'],
+  page_bookmarks: ['user_id', 'chapter_id', 'page'],
+}
+
+// Tables created without an updated_at column
+const WITHOUT_UPDATED_AT = ['comment_likes']
+
+// Foreign keys used by embedded selects such as `user_profile:profiles(username)`
+const FOREIGN_KEYS: Record<string, Record<string, string>> = {
+  manga_comments: { profiles: 'user_id' },
+}
+
+function generateUuid() {
+  if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) return crypto.randomUUID()
+  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, (c) => {
+    const r = (Math.random() * 16) | 0
+    return (c === 'x' ? r : (r & 0x3) | 0x8).toString(16)
+  })
+}
+
+function dbError(code: string, message: string): DemoError {
+  return { code, message, details: '', hint: '' }
+}
+
+function splitColumns(columns: string) {
+  const parts: string[] = []
+  let depth = 0
+  let current = ''
+  for (const char of columns) {
+    if (char === '(') depth++
+    if (char === ')') depth--
+    if (char === ',' && depth === 0) {
+      parts.push(current.trim())
+      current = ''
+    } else {
+      current += char
+    }
+  }
+  if (current.trim()) parts.push(current.trim())
+  return parts
+}
+
+class DemoDatabase {
+  state: DemoState
+  private listeners = new Set<AuthListener>()
+  private files = new Map<string, string>()
+
+  constructor() {
+    this.state = this.load()
+  }
+
+  private load(): DemoState {
+    if (typeof window !== 'undefined') {
+      try {
+        const stored = localStorage.getItem(STORE_KEY)
+        if (stored) return JSON.parse(stored)
+      } catch (error) {
+        console.error('Error loading the demo database:', error)
+      }
+    }
+    return this.seed()
+  }
+
+  private seed(): DemoState {
+    this.state = { tables: {}, users: [], sessionUserId: null }
+    const user = this.createUser(DEMO_ACCOUNT.email, DEMO_ACCOUNT.password, { username: DEMO_ACCOUNT.username })
+    this.state.sessionUserId = user.id
+    return this.state
+  }
+
+  save() {
+    if (typeof window === 'undefined') return
+    try {
+      localStorage.setItem(STORE_KEY, JSON.stringify(this.state))
+    } catch (error) {
+      console.error('Error saving the demo database:', error)
+    }
+  }
+
+  rows(table: string): Row[] {
+    this.state.tables[table] ||= []
+    return this.state.tables[table]
+  }
+
+  newRow(table: string, values: Row): Row {
+    const now = new Date().toISOString()
+    const row: Row = { id: generateUuid(), ...TABLE_DEFAULTS[table], created_at: now, ...values }
+    if (!WITHOUT_UPDATED_AT.includes(table)) row.updated_at = values.updated_at || now
+    return row
+  }
+
+  touch(table: string, row: Row, patch: Row) {
+    Object.assign(row, patch)
+    if (!WITHOUT_UPDATED_AT.includes(table)) row.updated_at = new Date().toISOString()
+  }
+
+  // Stands in for the database triggers that keep counters in step
+  afterInsert(table: string, row: Row) {
+    if (table === 'comment_likes') this.adjustLikes(row.comment_id, 1)
+  }
+
+  afterDelete(table: string, row: Row) {
+    if (table === 'comment_likes') this.adjustLikes(row.comment_id, -1)
+    if (table === 'manga_comments') {
+      this.state.tables.comment_likes = this.rows('comment_likes').filter((like) => like.comment_id !== row.id)
+    }
+  }
+
+  private adjustLikes(commentId: string, delta: number) {
+    const comment = this.rows('manga_comments').find((c) => c.id === commentId)
+    if (comment) comment.likes_count = Math.max(0, (comment.likes_count || 0) + delta)
+  }
+
+  project(table: string, row: Row, columns: string): Row {
+    const result: Row = {}
+    splitColumns(columns).forEach((column) => {
+      const embed = column.match(/^(?:(\w+):)?(\w+)\(([^)]*)\)$/)
+      if (embed) {
+        const [, alias, target, targetColumns] = embed
+        const key = FOREIGN_KEYS[table]?.[target]
+        const related = key ? this.rows(target).find((other) => other.id === row[key]) : undefined
+        result[alias || target] = related ? this.project(target, related, targetColumns) : null
+      } else if (column === '*') {
+        Object.assign(result, row)
+      } else {
+        result[column] = row[column] ?? null
+      }
+    })
+    return result
+  }
+
+  // Auth
+
+  createUser(email: string, password: string, metadata: Row): User {
+    const now = new Date().toISOString()
+    const user = {
+      id: generateUuid(),
+      aud: 'authenticated',
+      role: 'authenticated',
+      email,
+      app_metadata: { provider: 'email' },
+      user_metadata: metadata,
+      created_at: now,
+      updated_at: now,
+    } as User
+    this.state.users.push({ user, password })
+    // handle_new_user() creates the profile
+    this.rows('profiles').push(
+      this.newRow('profiles', { id: user.id, username: metadata.username || null, avatar_url: metadata.avatar_url || null })
+    )
+    this.save()
+    return user
+  }
+
+  currentUser(): User | null {
+    return this.state.users.find((entry) => entry.user.id === this.state.sessionUserId)?.user || null
+  }
+
+  currentSession(): Session | null {
+    const user = this.currentUser()
+    if (!user) return null
+    return {
+      access_token: `demo-${user.id}`,
+      refresh_token: `demo-refresh-${user.id}`,
+      token_type: 'bearer',
+      expires_in: 3600,
+      expires_at: Math.floor(Date.now() / 1000) + 3600,
+      user,
+    }
+  }
+
+  setSession(userId: string | null) {
+    this.state.sessionUserId = userId
+    this.save()
+    const session = this.currentSession()
+    this.listeners.forEach((listener) => listener(session ? 'SIGNED_IN' : 'SIGNED_OUT', session))
+  }
+
+  onAuthStateChange(listener: AuthListener) {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  // Storage, uploads only last as long as the page
+
+  upload(bucket: string, path: string, file: Blob) {
+    this.files.set(`${bucket}/${path}`, URL.createObjectURL(file))
+  }
+
+  publicUrl(bucket: string, path: string) {
+    return this.files.get(`${bucket}/${path}`) || ''
+  }
+}
+
+type Action = 'select' | 'insert' | 'upsert' | 'update' | 'delete'
+
+class DemoQuery implements PromiseLike<{ data: any; error: DemoError | null }> {
+  private action: Action = 'select'
+  private values: Row[] = []
+  private patch: Row = {}
+  private conflictKeys: string[] = []
+  private columns = '*'
+  private returning = false
+  private filters: Filter[] = []
+  private ordering: { column: string; ascending: boolean }[] = []
+  private singleRow: 'single' | 'maybeSingle' | null = null
+
+  constructor(private db: DemoDatabase, private table: string) {}
+
+  select(columns = '*') {
+    this.columns = columns.replace(/\s+/g, ' ').trim()
+    if (this.action !== 'select') this.returning = true
+    return this
+  }
+
+  insert(values: Row | Row[]) {
+    this.action = 'insert'
+    this.values = Array.isArray(values) ? values : [values]
+    return this
+  }
+
+  upsert(values: Row | Row[], options: { onConflict?: string } = {}) {
+    this.action = 'upsert'
+    this.values = Array.isArray(values) ? values : [values]
+    this.conflictKeys = options.onConflict ? options.onConflict.split(',').map((key) => key.trim()) : ['id']
+    return this
+  }
+
+  update(patch: Row) {
+    this.action = 'update'
+    this.patch = patch
+    return this
+  }
+
+  delete() {
+    this.action = 'delete'
+    return this
+  }
+
+  eq(column: string, value: unknown) {
+    this.filters.push((row) => row[column] === value)
+    return this
+  }
+
+  in(column: string, values: unknown[]) {
+    this.filters.push((row) => values.includes(row[column]))
+    return this
+  }
+
+  match(query: Row) {
+    Object.entries(query).forEach(([column, value]) => this.eq(column, value))
+    return this
+  }
+
+  order(column: string, { ascending = true }: { ascending?: boolean } = {}) {
+    this.ordering.push({ column, ascending })
+    return this
+  }
+
+  single() {
+    this.singleRow = 'single'
+    return this
+  }
+
+  maybeSingle() {
+    this.singleRow = 'maybeSingle'
+    return this
+  }
+
+  then<TResult1 = { data: any; error: DemoError | null }, TResult2 = never>(
+    onfulfilled?: ((value: { data: any; error: DemoError | null }) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | null
+  ): PromiseLike<TResult1 | TResult2> {
+    return Promise.resolve()
+      .then(() => this.execute())
+      .then(onfulfilled, onrejected)
+  }
+
+  private matches(row: Row) {
+    return this.filters.every((filter) => filter(row))
+  }
+
+  private findConflict(rows: Row[], keys: string[], values: Row) {
+    return rows.find((row) => keys.every((key) => values[key] !== undefined && row[key] === values[key]))
+  }
+
+  private execute(): { data: any; error: DemoError | null } {
+    const rows = this.db.rows(this.table)
+    let affected: Row[] = []
+
+    switch (this.action) {
+      case 'select':
+        affected = rows.filter((row) => this.matches(row))
+        break
+      case 'insert': {
+        const unique = UNIQUE_KEYS[this.table]
+        for (const values of this.values) {
+          if (unique && this.findConflict(rows, unique, values)) {
+            return { data: null, error: dbError('23505', `duplicate key value violates unique constraint on ${this.table}`) }
+          }
+          const row = this.db.newRow(this.table, values)
+          rows.push(row)
+          this.db.afterInsert(this.table, row)
+          affected.push(row)
+        }
+        break
+      }
+      case 'upsert':
+        for (const values of this.values) {
+          const existing = this.findConflict(rows, this.conflictKeys, values)
+          if (existing) {
+            this.db.touch(this.table, existing, values)
+            affected.push(existing)
+          } else {
+            const row = this.db.newRow(this.table, values)
+            rows.push(row)
+            this.db.afterInsert(this.table, row)
+            affected.push(row)
+          }
+        }
+        break
+      case 'update':
+        affected = rows.filter((row) => this.matches(row))
+        affected.forEach((row) => this.db.touch(this.table, row, this.patch))
+        break
+      case 'delete':
+        affected = rows.filter((row) => this.matches(row))
+        this.db.state.tables[this.table] = rows.filter((row) => !affected.includes(row))
+        affected.forEach((row) => this.db.afterDelete(this.table, row))
+        break
+    }
+
+    if (this.action !== 'select') this.db.save()
+    if (this.action !== 'select' && !this.returning) return { data: null, error: null }
+
+    const sorted = [...affected].sort((a, b) => {
+      for (const { column, ascending } of this.ordering) {
+        if (a[column] === b[column]) continue
+        const result = a[column] > b[column] ? 1 : -1
+        return ascending ? result : -result
+      }
+      return 0
+    })
+    // Copies, so callers can't change the stored rows
+    const data = sorted.map((row) => JSON.parse(JSON.stringify(this.db.project(this.table, row, this.columns))))
+
+    if (this.singleRow) {
+      if (data.length === 1) return { data: data[0], error: null }
+      if (data.length === 0 && this.singleRow === 'maybeSingle') return { data: null, error: null }
+      return { data: null, error: dbError('PGRST116', `JSON object requested, ${data.length} rows returned`) }
+    }
+    return { data, error: null }
+  }
+}
+
+function authError(message: string) {
+  return { name: 'AuthApiError', message, status: 400 }
+}
+
+export function createDemoClient(): SupabaseClient {
+  const db = new DemoDatabase()
+
+  const client = {
+    from: (table: string) => new DemoQuery(db, table),
+    auth: {
+      getSession: async () => ({ data: { session: db.currentSession() }, error: null }),
+      getUser: async () => ({ data: { user: db.currentUser() }, error: null }),
+      onAuthStateChange: (listener: AuthListener) => {
+        const unsubscribe = db.onAuthStateChange(listener)
+        return { data: { subscription: { unsubscribe } } }
+      },
+      signUp: async ({ email, password, options }: { email: string; password: string; options?: { data?: Row } }) => {
+        if (db.state.users.some((entry) => entry.user.email === email)) {
+          return { data: { user: null, session: null }, error: authError('User already registered') }
+        }
+        const user = db.createUser(email, password, options?.data || {})
+        // Demo accounts need no email confirmation
+        db.setSession(user.id)
+        return { data: { user, session: db.currentSession() }, error: null }
+      },
+      signInWithPassword: async ({ email, password }: { email: string; password: string }) => {
+        const entry = db.state.users.find((candidate) => candidate.user.email === email && candidate.password === password)
+        if (!entry) {
+          return { data: { user: null, session: null }, error: authError('Invalid login credentials') }
+        }
+        db.setSession(entry.user.id)
+        return { data: { user: entry.user, session: db.currentSession() }, error: null }
+      },
+      signOut: async () => {
+        db.setSession(null)
+        return { error: null }
+      },
+    },
+    storage: {
+      from: (bucket: string) => ({
+        upload: async (path: string, file: Blob) => {
+          db.upload(bucket, path, file)
+          return { data: { path }, error: null }
+        },
+        getPublicUrl: (path: string) => ({ data: { publicUrl: db.publicUrl(bucket, path) } }),
+      }),
+    },
+  }
+
+  return client as unknown as SupabaseClient
+}
@@ -0,0 +1,232 @@
+import type { Chapter } from './sources'
+import type { SeriesMetadata } from './export'
+import { downloadChapter, getDownloadedChapter } from './downloads'
+import { deleteChapterPages } from './offline-storage'
+
+export type QueueItemStatus = 'queued' | 'downloading' | 'completed' | 'failed'
+
+export interface DownloadQueueItem {
+  id: string
+  mangaId: string
+  mangaTitle: string
+  mangaSlug: string
+  posterUrl?: string
+  seriesMetadata?: SeriesMetadata
+  chapter: Chapter
+  status: QueueItemStatus
+  downloadedPages: number
+  totalPages: number
+  attempts: number
+  error?: string
+  addedAt: string
+}
+
+export interface DownloadQueueState {
+  items: DownloadQueueItem[]
+  paused: boolean
+}
+
+export interface QueueMangaInfo {
+  mangaId: string
+  mangaTitle: string
+  mangaSlug: string
+  posterUrl?: string
+  seriesMetadata?: SeriesMetadata
+}
+
+export const DOWNLOAD_QUEUE_KEY = 'manga_download_queue'
+const MAX_CONCURRENT_DOWNLOADS = 2
+// Whole-chapter attempts; each attempt already retries single pages
+const MAX_CHAPTER_ATTEMPTS = 3
+
+type Listener = (state: DownloadQueueState) => void
+
+// Runs chapter downloads in the background, a few at a time.
+// Page lists come from the chapter's source, so MangaDex at-home requests
+// share the atHomeRateLimiter budget with the reader.
+class DownloadQueue {
+  private state: DownloadQueueState = { items: [], paused: false }
+  private listeners: Listener[] = []
+  private controllers = new Map<string, AbortController>()
+  private restored = false
+
+  getState(): DownloadQueueState {
+    this.restore()
+    return this.state
+  }
+
+  subscribe(listener: Listener) {
+    this.restore()
+    this.listeners.push(listener)
+    return () => {
+      this.listeners = this.listeners.filter((l) => l !== listener)
+    }
+  }
+
+  enqueue(manga: QueueMangaInfo, chapters: Chapter[]) {
+    this.restore()
+    const queuedIds = new Set(this.state.items.map((item) => item.id))
+    const newItems: DownloadQueueItem[] = chapters
+      .filter((chapter) => !queuedIds.has(chapter.id) && !getDownloadedChapter(chapter.id))
+      .map((chapter) => ({
+        id: chapter.id,
+        ...manga,
+        chapter,
+        status: 'queued',
+        downloadedPages: 0,
+        totalPages: chapter.attributes.pages || 0,
+        attempts: 0,
+        addedAt: new Date().toISOString(),
+      }))
+
+    if (newItems.length > 0) {
+      this.setState({ ...this.state, items: [...this.state.items, ...newItems] })
+      this.pump()
+    }
+    return newItems.length
+  }
+
+  pause() {
+    this.controllers.forEach((controller) => controller.abort())
+    this.controllers.clear()
+    this.setState({
+      paused: true,
+      items: this.state.items.map((item) =>
+        item.status === 'downloading' ? { ...item, status: 'queued' } : item
+      ),
+    })
+  }
+
+  resume() {
+    this.setState({ ...this.state, paused: false })
+    this.pump()
+  }
+
+  retry(id: string) {
+    this.updateItem(id, { status: 'queued', attempts: 0, error: undefined })
+    this.pump()
+  }
+
+  retryFailed() {
+    this.setState({
+      ...this.state,
+      items: this.state.items.map((item) =>
+        item.status === 'failed' ? { ...item, status: 'queued', attempts: 0, error: undefined } : item
+      ),
+    })
+    this.pump()
+  }
+
+  async remove(id: string) {
+    const item = this.state.items.find((i) => i.id === id)
+    this.controllers.get(id)?.abort()
+    this.controllers.delete(id)
+    this.setState({ ...this.state, items: this.state.items.filter((i) => i.id !== id) })
+
+    // Drop the partially stored pages of a chapter that never finished
+    if (item && item.status !== 'completed' && !getDownloadedChapter(id)) {
+      await deleteChapterPages(id).catch((error) => console.error('Error removing partial download:', error))
+    }
+    this.pump()
+  }
+
+  clearFinished() {
+    this.setState({ ...this.state, items: this.state.items.filter((item) => item.status !== 'completed') })
+  }
+
+  private pump() {
+    if (this.state.paused) return
+
+    const running = this.state.items.filter((item) => item.status === 'downloading').length
+    const available = MAX_CONCURRENT_DOWNLOADS - running
+    if (available <= 0) return
+
+    this.state.items
+      .filter((item) => item.status === 'queued')
+      .slice(0, available)
+      .forEach((item) => this.start(item))
+  }
+
+  private async start(item: DownloadQueueItem) {
+    const controller = new AbortController()
+    this.controllers.set(item.id, controller)
+    this.updateItem(item.id, { status: 'downloading', attempts: item.attempts + 1, error: undefined })
+
+    try {
+      await downloadChapter({
+        mangaId: item.mangaId,
+        mangaTitle: item.mangaTitle,
+        mangaSlug: item.mangaSlug,
+        posterUrl: item.posterUrl,
+        seriesMetadata: item.seriesMetadata,
+        chapter: item.chapter,
+        signal: controller.signal,
+        onProgress: (downloadedPages, totalPages) => {
+          this.updateItem(item.id, { downloadedPages, totalPages })
+        },
+      })
+      this.updateItem(item.id, { status: 'completed' })
+    } catch (error) {
+      // Paused or removed; the item has already been updated
+      if (controller.signal.aborted) return
+
+      console.error(`Error downloading chapter ${item.id}:`, error)
+      const current = this.state.items.find((i) => i.id === item.id)
+      const attempts = current?.attempts ?? MAX_CHAPTER_ATTEMPTS
+      this.updateItem(item.id, {
+        status: attempts < MAX_CHAPTER_ATTEMPTS ? 'queued' : 'failed',
+        error: error instanceof Error ? error.message : String(error),
+      })
+    } finally {
+      if (this.controllers.get(item.id) === controller) {
+        this.controllers.delete(item.id)
+      }
+      this.pump()
+    }
+  }
+
+  private updateItem(id: string, updates: Partial<DownloadQueueItem>) {
+    this.setState({
+      ...this.state,
+      items: this.state.items.map((item) => (item.id === id ? { ...item, ...updates } : item)),
+    })
+  }
+
+  private setState(state: DownloadQueueState) {
+    this.state = state
+    this.persist()
+    this.listeners.forEach((listener) => listener(state))
+  }
+
+  private persist() {
+    try {
+      localStorage.setItem(DOWNLOAD_QUEUE_KEY, JSON.stringify(this.state))
+    } catch (error) {
+      console.error('Error saving download queue:', error)
+    }
+  }
+
+  // Loads the queue saved by a previous page load and picks up where it stopped
+  private restore() {
+    if (this.restored || typeof window === 'undefined') return
+    this.restored = true
+
+    try {
+      const saved: DownloadQueueState | null = JSON.parse(localStorage.getItem(DOWNLOAD_QUEUE_KEY) || 'null')
+      if (saved?.items) {
+        this.state = {
+          paused: !!saved.paused,
+          items: saved.items.map((item) =>
+            item.status === 'downloading' ? { ...item, status: 'queued' } : item
+          ),
+        }
+      }
+    } catch (error) {
+      console.error('Error restoring download queue:', error)
+    }
+
+    this.pump()
+  }
+}
+
+export const downloadQueue = new DownloadQueue()
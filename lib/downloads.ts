@@ -0,0 +1,197 @@
+import type { ImageQuality } from './at-home'
+import type { SeriesMetadata } from './export'
+import { getSourceForId, type Chapter } from './sources'
+import { savePage, getChapterPages, deleteChapterPages, clearAllPages } from './offline-storage'
+
+export interface DownloadedChapter {
+  id: string
+  mangaId: string
+  mangaTitle: string
+  mangaSlug: string
+  chapterId: string
+  chapterNumber: string
+  chapterTitle: string
+  volume?: string | null
+  posterUrl: string
+  pageCount: number
+  downloadedAt: string
+  size: number
+  // 'local' for files imported from the user's device
+  source?: 'mangadex' | 'local'
+  // What exports need about the series; missing on older downloads
+  seriesMetadata?: SeriesMetadata
+}
+
+export const DOWNLOADS_KEY = 'manga_downloads'
+
+export interface DownloadChapterOptions {
+  mangaId: string
+  mangaTitle: string
+  mangaSlug: string
+  posterUrl?: string
+  seriesMetadata?: SeriesMetadata
+  chapter: Chapter
+  // Page URLs the caller already resolved; skips the at-home request
+  pageUrls?: string[]
+  onProgress?: (downloadedPages: number, totalPages: number) => void
+  signal?: AbortSignal
+  // Attempts per page before the whole chapter fails
+  pageRetries?: number
+}
+
+export function getDownloads(): DownloadedChapter[] {
+  if (typeof window === 'undefined') return []
+  try {
+    const downloads = JSON.parse(localStorage.getItem(DOWNLOADS_KEY) || '[]')
+    // Older records only kept the (expiring) at-home URLs and no stored images
+    return downloads.filter((d: DownloadedChapter) => typeof d.pageCount === 'number')
+  } catch (error) {
+    console.error('Error reading downloads:', error)
+    return []
+  }
+}
+
+export function getDownloadedChapter(chapterId: string): DownloadedChapter | null {
+  return getDownloads().find((d) => d.chapterId === chapterId) || null
+}
+
+export function saveDownloadRecord(record: DownloadedChapter) {
+  const downloads = getDownloads().filter((d) => d.id !== record.id)
+  downloads.push(record)
+  localStorage.setItem(DOWNLOADS_KEY, JSON.stringify(downloads))
+}
+
+// Shapes a download record like a MangaDex chapter for the reader
+export function downloadToChapter(download: DownloadedChapter): Chapter {
+  return {
+    id: download.chapterId,
+    type: 'chapter',
+    attributes: {
+      chapter: download.chapterNumber,
+      title: download.chapterTitle,
+      volume: download.volume || null,
+      pages: download.pageCount,
+      translatedLanguage: 'en',
+      uploader: '',
+      externalUrl: null,
+      version: 1,
+      createdAt: download.downloadedAt,
+      updatedAt: download.downloadedAt,
+      publishAt: download.downloadedAt,
+      readableAt: download.downloadedAt,
+    },
+    relationships: [],
+  }
+}
+
+export async function resolveChapterPageUrls(
+  chapterId: string,
+  quality: ImageQuality = 'original',
+  refresh = false
+): Promise<string[]> {
+  return getSourceForId(chapterId).getChapterPages(chapterId, { quality, refresh })
+}
+
+export async function fetchPageWithRetry(url: string, retries: number, signal?: AbortSignal): Promise<Blob> {
+  let lastError: unknown = null
+
+  for (let attempt = 0; attempt < retries; attempt++) {
+    try {
+      const response = await fetch(url, { signal })
+      if (!response.ok) {
+        throw new Error(`Page request failed: ${response.statusText}`)
+      }
+      return await response.blob()
+    } catch (error) {
+      if (signal?.aborted) throw error
+      lastError = error
+      if (attempt < retries - 1) {
+        await new Promise((res) => setTimeout(res, 1000 * (attempt + 1)))
+      }
+    }
+  }
+
+  throw lastError
+}
+
+// Fetches every page image of a chapter and stores it in IndexedDB.
+// Pages stored by an earlier, interrupted attempt are kept and skipped.
+export async function downloadChapter(options: DownloadChapterOptions): Promise<DownloadedChapter> {
+  const { chapter, onProgress, signal, pageRetries = 3 } = options
+  const pageUrls = options.pageUrls?.length ? options.pageUrls : await resolveChapterPageUrls(chapter.id)
+
+  const storedPages = new Map((await getChapterPages(chapter.id)).map((page) => [page.index, page.blob]))
+
+  let size = 0
+  for (let index = 0; index < pageUrls.length; index++) {
+    signal?.throwIfAborted()
+
+    let blob = storedPages.get(index)
+    if (!blob) {
+      blob = await fetchPageWithRetry(pageUrls[index], pageRetries, signal)
+      await savePage(chapter.id, index, blob)
+    }
+    size += blob.size
+    onProgress?.(index + 1, pageUrls.length)
+  }
+
+  const record: DownloadedChapter = {
+    id: `${options.mangaId}-${chapter.id}`,
+    mangaId: options.mangaId,
+    mangaTitle: options.mangaTitle,
+    mangaSlug: options.mangaSlug,
+    chapterId: chapter.id,
+    chapterNumber: chapter.attributes.chapter || 'Unknown',
+    chapterTitle: chapter.attributes.title || '',
+    volume: chapter.attributes.volume,
+    posterUrl: options.posterUrl || '/placeholder.svg',
+    pageCount: pageUrls.length,
+    downloadedAt: new Date().toISOString(),
+    size,
+    source: 'mangadex',
+    seriesMetadata: options.seriesMetadata,
+  }
+
+  saveDownloadRecord(record)
+  return record
+}
+
+// Returns object URLs for the stored pages, or null when the images are gone.
+// Callers own the URLs and should revoke them when done.
+export async function loadOfflinePages(chapterId: string): Promise<string[] | null> {
+  const record = getDownloadedChapter(chapterId)
+  if (!record) return null
+
+  const pages = await getChapterPages(chapterId)
+  if (pages.length < record.pageCount) {
+    return null
+  }
+
+  return pages.map((page) => URL.createObjectURL(page.blob))
+}
+
+// Page URLs for any chapter, preferring the offline copy when there is one
+export async function loadChapterPageUrls(
+  chapterId: string,
+  quality: ImageQuality = 'original'
+): Promise<{ urls: string[]; offline: boolean }> {
+  const offlineUrls = await loadOfflinePages(chapterId)
+  if (offlineUrls) {
+    return { urls: offlineUrls, offline: true }
+  }
+  return { urls: await resolveChapterPageUrls(chapterId, quality), offline: false }
+}
+
+export async function deleteDownload(id: string) {
+  const downloads = getDownloads()
+  const target = downloads.find((d) => d.id === id)
+  if (target) {
+    await deleteChapterPages(target.chapterId)
+  }
+  localStorage.setItem(DOWNLOADS_KEY, JSON.stringify(downloads.filter((d) => d.id !== id)))
+}
+
+export async function clearDownloads() {
+  await clearAllPages()
+  localStorage.removeItem(DOWNLOADS_KEY)
+}
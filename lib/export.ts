@@ -0,0 +1,410 @@
+import { zipSync, strToU8, type Zippable } from 'fflate'
+import type { Manga } from './sources'
+import type { KitsuManga } from './kitsu-api'
+import { fetchPageWithRetry, getDownloadedChapter, resolveChapterPageUrls } from './downloads'
+import { getChapterPages } from './offline-storage'
+import { buildComicInfoXml, escapeXml } from './comic-info'
+
+export type ExportFormat = 'cbz' | 'pdf' | 'epub'
+
+export const EXPORT_FORMATS: { value: ExportFormat; label: string }[] = [
+  { value: 'cbz', label: 'CBZ (Comic Book Archive)' },
+  { value: 'pdf', label: 'PDF' },
+  { value: 'epub', label: 'EPUB (Fixed Layout)' },
+]
+
+export interface ExportMetadata {
+  series: string
+  title?: string
+  number?: string
+  volume?: string
+  summary?: string
+  writers?: string[]
+  artists?: string[]
+  genres?: string[]
+  tags?: string[]
+  year?: number
+  language?: string
+  web?: string
+  direction?: 'ltr' | 'rtl'
+}
+
+// A chapter to include in an export. Pages are read from IndexedDB when the
+// chapter is downloaded, otherwise fetched from `pageUrls` or MangaDex@Home.
+export interface ExportChapter {
+  id: string
+  number: string | null
+  title?: string | null
+  pageUrls?: string[]
+}
+
+interface ExportPage {
+  chapterIndex: number
+  bytes: Uint8Array
+  mimeType: string
+  width: number
+  height: number
+}
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+}
+
+function stripHtml(value: string) {
+  return value.replace(/<[^>]*>/g, '').trim()
+}
+
+// Metadata of the whole series, kept with downloads so they export the same
+// way as the reader does
+export type SeriesMetadata = Omit<ExportMetadata, 'series' | 'title' | 'number' | 'volume'>
+
+// Series metadata from whichever MangaDex and Kitsu records are at hand
+export function buildSeriesMetadata(options: {
+  manga?: Manga | null
+  kitsuManga?: KitsuManga | null
+  direction?: 'ltr' | 'rtl'
+}): SeriesMetadata {
+  const { manga, kitsuManga } = options
+  const relationshipNames = (type: string) =>
+    (manga?.relationships || [])
+      .filter((rel) => rel.type === type && rel.attributes?.name)
+      .map((rel) => rel.attributes.name as string)
+  const tags = manga?.attributes.tags || []
+  const tagNames = (group: string | null) =>
+    tags
+      .filter((tag) => (group ? tag.attributes.group === group : tag.attributes.group !== 'genre'))
+      .map((tag) => tag.attributes.name.en || Object.values(tag.attributes.name)[0])
+      .filter(Boolean)
+
+  const summary = kitsuManga?.attributes.description || manga?.attributes.description?.en
+  const kitsuYear = kitsuManga?.attributes.startDate ? new Date(kitsuManga.attributes.startDate).getFullYear() : undefined
+
+  return {
+    summary: summary ? stripHtml(summary) : undefined,
+    writers: relationshipNames('author'),
+    artists: relationshipNames('artist'),
+    genres: tagNames('genre'),
+    tags: tagNames(null),
+    year: manga?.attributes.year || kitsuYear || undefined,
+    language: 'en',
+    web: manga ? `https://mangadex.org/title/${manga.id}` : undefined,
+    direction: options.direction,
+  }
+}
+
+// Builds export metadata for one chapter or volume. `seriesMetadata`, when
+// given, replaces the records.
+export function buildExportMetadata(options: {
+  series: string
+  title?: string
+  number?: string
+  volume?: string
+  manga?: Manga | null
+  kitsuManga?: KitsuManga | null
+  direction?: 'ltr' | 'rtl'
+  seriesMetadata?: SeriesMetadata
+}): ExportMetadata {
+  return {
+    series: options.series,
+    title: options.title,
+    number: options.number,
+    volume: options.volume,
+    ...(options.seriesMetadata || buildSeriesMetadata(options)),
+  }
+}
+
+async function getChapterBlobs(chapter: ExportChapter): Promise<Blob[]> {
+  const downloaded = getDownloadedChapter(chapter.id)
+  if (downloaded) {
+    const stored = await getChapterPages(chapter.id)
+    if (stored.length >= downloaded.pageCount) {
+      return stored.map((page) => page.blob)
+    }
+  }
+
+  const pageUrls = chapter.pageUrls?.length ? chapter.pageUrls : await resolveChapterPageUrls(chapter.id)
+  const blobs: Blob[] = []
+  for (const url of pageUrls) {
+    blobs.push(await fetchPageWithRetry(url, 3))
+  }
+  return blobs
+}
+
+// Number of colour components from the JPEG frame header (1 = grayscale, 3 = colour)
+function getJpegComponents(bytes: Uint8Array): number | null {
+  let offset = 2
+  while (offset + 9 < bytes.length) {
+    if (bytes[offset] !== 0xff) return null
+    const marker = bytes[offset + 1]
+    // SOF0-SOF15, excluding DHT (C4), JPG (C8) and DAC (CC)
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      return bytes[offset + 9]
+    }
+    offset += 2 + ((bytes[offset + 2] << 8) | bytes[offset + 3])
+  }
+  return null
+}
+
+// PDF only embeds grayscale or RGB JPEG, so anything else is re-encoded through a canvas
+async function toJpeg(blob: Blob, bitmap: ImageBitmap): Promise<Blob> {
+  if (blob.type === 'image/jpeg') {
+    const components = getJpegComponents(new Uint8Array(await blob.arrayBuffer()))
+    if (components === 1 || components === 3) return blob
+  }
+
+  const canvas = document.createElement('canvas')
+  canvas.width = bitmap.width
+  canvas.height = bitmap.height
+  const ctx = canvas.getContext('2d')
+  if (!ctx) throw new Error('Canvas not supported')
+
+  ctx.fillStyle = '#ffffff'
+  ctx.fillRect(0, 0, canvas.width, canvas.height)
+  ctx.drawImage(bitmap, 0, 0)
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((jpeg) => (jpeg ? resolve(jpeg) : reject(new Error('JPEG encoding failed'))), 'image/jpeg', 0.92)
+  })
+}
+
+async function collectPages(
+  chapters: ExportChapter[],
+  format: ExportFormat,
+  onProgress?: (done: number, total: number) => void
+): Promise<ExportPage[]> {
+  const pages: ExportPage[] = []
+
+  for (let chapterIndex = 0; chapterIndex < chapters.length; chapterIndex++) {
+    const blobs = await getChapterBlobs(chapters[chapterIndex])
+
+    for (const original of blobs) {
+      const bitmap = await createImageBitmap(original)
+      const blob = format === 'pdf' ? await toJpeg(original, bitmap) : original
+      pages.push({
+        chapterIndex,
+        bytes: new Uint8Array(await blob.arrayBuffer()),
+        mimeType: blob.type || 'image/jpeg',
+        width: bitmap.width,
+        height: bitmap.height,
+      })
+      bitmap.close()
+    }
+
+    onProgress?.(chapterIndex + 1, chapters.length)
+  }
+
+  return pages
+}
+
+function pageFileName(page: ExportPage, index: number) {
+  const extension = IMAGE_EXTENSIONS[page.mimeType] || 'jpg'
+  return `${String(index + 1).padStart(4, '0')}.${extension}`
+}
+
+function buildCbz(metadata: ExportMetadata, pages: ExportPage[]): Blob {
+  const files: Zippable = {}
+  pages.forEach((page, index) => {
+    // Images are already compressed; storing them keeps export fast
+    files[pageFileName(page, index)] = [page.bytes, { level: 0 }]
+  })
+  files['ComicInfo.xml'] = strToU8(buildComicInfoXml(metadata, pages.length))
+
+  return new Blob([zipSync(files)], { type: 'application/vnd.comicbook+zip' })
+}
+
+function buildPdf(pages: ExportPage[]): Blob {
+  const encoder = new TextEncoder()
+  const chunks: Uint8Array[] = []
+  const offsets: number[] = []
+  let length = 0
+
+  const write = (data: string | Uint8Array) => {
+    const bytes = typeof data === 'string' ? encoder.encode(data) : data
+    chunks.push(bytes)
+    length += bytes.length
+  }
+  const beginObject = (id: number) => {
+    offsets[id] = length
+    write(`${id} 0 obj\n`)
+  }
+
+  // Object layout: 1 catalog, 2 page tree, then page/image/content triples
+  const pageIds = pages.map((_, index) => 3 + index * 3)
+  write('%PDF-1.4\n%\xE2\xE3\xCF\xD3\n')
+
+  beginObject(1)
+  write('<< /Type /Catalog /Pages 2 0 R >>\nendobj\n')
+  beginObject(2)
+  write(`<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>\nendobj\n`)
+
+  pages.forEach((page, index) => {
+    const pageId = pageIds[index]
+    const imageId = pageId + 1
+    const contentId = pageId + 2
+    const content = `q ${page.width} 0 0 ${page.height} 0 0 cm /Im0 Do Q`
+    const colorSpace = getJpegComponents(page.bytes) === 1 ? '/DeviceGray' : '/DeviceRGB'
+
+    beginObject(pageId)
+    write(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${page.width} ${page.height}] ` +
+        `/Resources << /XObject << /Im0 ${imageId} 0 R >> >> /Contents ${contentId} 0 R >>\nendobj\n`
+    )
+
+    beginObject(imageId)
+    write(
+      `<< /Type /XObject /Subtype /Image /Width ${page.width} /Height ${page.height} ` +
+        `/ColorSpace ${colorSpace} /BitsPerComponent 8 /Filter /DCTDecode /Length ${page.bytes.length} >>\nstream\n`
+    )
+    write(page.bytes)
+    write('\nendstream\nendobj\n')
+
+    beginObject(contentId)
+    write(`<< /Length ${content.length} >>\nstream\n${content}\nendstream\nendobj\n`)
+  })
+
+  const objectCount = 3 + pages.length * 3
+  const xrefOffset = length
+  write(`xref\n0 ${objectCount}\n0000000000 65535 f \n`)
+  for (let id = 1; id < objectCount; id++) {
+    write(`${String(offsets[id]).padStart(10, '0')} 00000 n \n`)
+  }
+  write(`trailer\n<< /Size ${objectCount} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`)
+
+  return new Blob(chunks, { type: 'application/pdf' })
+}
+
+function buildEpub(metadata: ExportMetadata, chapters: ExportChapter[], pages: ExportPage[]): Blob {
+  const title = metadata.title ? `${metadata.series} - ${metadata.title}` : metadata.series
+  const identifier = `urn:anireads:${chapters.map((c) => c.id).join(':')}`
+  const modified = new Date().toISOString().replace(/\.\d+Z$/, 'Z')
+
+  const pageDocument = (page: ExportPage, index: number) => `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops">
+<head>
+  <title>Page ${index + 1}</title>
+  <meta name="viewport" content="width=${page.width}, height=${page.height}" />
+  <style>html, body { margin: 0; padding: 0; } img { display: block; width: ${page.width}px; height: ${page.height}px; }</style>
+</head>
+<body><img src="images/${pageFileName(page, index)}" alt="Page ${index + 1}" /></body>
+</html>
+`
+
+  const navPoints = chapters
+    .map((chapter, chapterIndex) => {
+      const firstPage = pages.findIndex((page) => page.chapterIndex === chapterIndex)
+      if (firstPage === -1) return ''
+      const label = `Chapter ${chapter.number || '?'}${chapter.title ? `: ${chapter.title}` : ''}`
+      return `      <li><a href="page-${firstPage + 1}.xhtml">${escapeXml(label)}</a></li>`
+    })
+    .filter(Boolean)
+    .join('\n')
+
+  const nav = `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops">
+<head><title>${escapeXml(title)}</title></head>
+<body>
+  <nav epub:type="toc" id="toc">
+    <ol>
+${navPoints}
+    </ol>
+  </nav>
+</body>
+</html>
+`
+
+  const creators = [...(metadata.writers || []), ...(metadata.artists || [])]
+  const opf = `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="bookid" prefix="rendition: http://www.idpf.org/vocab/rendition/#">
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+    <dc:identifier id="bookid">${escapeXml(identifier)}</dc:identifier>
+    <dc:title>${escapeXml(title)}</dc:title>
+    <dc:language>${metadata.language || 'en'}</dc:language>
+${Array.from(new Set(creators)).map((name) => `    <dc:creator>${escapeXml(name)}</dc:creator>`).join('\n')}
+${metadata.summary ? `    <dc:description>${escapeXml(metadata.summary)}</dc:description>` : ''}
+    <meta property="dcterms:modified">${modified}</meta>
+    <meta property="rendition:layout">pre-paginated</meta>
+    <meta property="rendition:orientation">portrait</meta>
+    <meta property="rendition:spread">none</meta>
+  </metadata>
+  <manifest>
+    <item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav" />
+${pages
+  .map((page, index) => {
+    const cover = index === 0 ? ' properties="cover-image"' : ''
+    return `    <item id="img-${index + 1}" href="images/${pageFileName(page, index)}" media-type="${page.mimeType}"${cover} />
+    <item id="page-${index + 1}" href="page-${index + 1}.xhtml" media-type="application/xhtml+xml" />`
+  })
+  .join('\n')}
+  </manifest>
+  <spine page-progression-direction="${metadata.direction === 'rtl' ? 'rtl' : 'ltr'}">
+${pages.map((_, index) => `    <itemref idref="page-${index + 1}" />`).join('\n')}
+  </spine>
+</package>
+`
+
+  const container = `<?xml version="1.0" encoding="UTF-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+  <rootfiles>
+    <rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml" />
+  </rootfiles>
+</container>
+`
+
+  // The mimetype entry must come first and be stored uncompressed
+  const files: Zippable = {
+    mimetype: [strToU8('application/epub+zip'), { level: 0 }],
+    'META-INF/container.xml': strToU8(container),
+    'OEBPS/content.opf': strToU8(opf),
+    'OEBPS/nav.xhtml': strToU8(nav),
+  }
+  pages.forEach((page, index) => {
+    files[`OEBPS/page-${index + 1}.xhtml`] = strToU8(pageDocument(page, index))
+    files[`OEBPS/images/${pageFileName(page, index)}`] = [page.bytes, { level: 0 }]
+  })
+
+  return new Blob([zipSync(files)], { type: 'application/epub+zip' })
+}
+
+export async function exportChapters(
+  format: ExportFormat,
+  metadata: ExportMetadata,
+  chapters: ExportChapter[],
+  onProgress?: (done: number, total: number) => void
+): Promise<Blob> {
+  const pages = await collectPages(chapters, format, onProgress)
+  if (pages.length === 0) {
+    throw new Error('No pages to export')
+  }
+
+  switch (format) {
+    case 'cbz':
+      return buildCbz(metadata, pages)
+    case 'pdf':
+      return buildPdf(pages)
+    case 'epub':
+      return buildEpub(metadata, chapters, pages)
+  }
+}
+
+export function getExportFilename(metadata: ExportMetadata, format: ExportFormat) {
+  const parts = [metadata.series]
+  if (metadata.volume && !metadata.number) parts.push(`Vol ${metadata.volume}`)
+  if (metadata.number) parts.push(`Ch ${metadata.number}`)
+  return `${parts.join(' - ').replace(/[\\/:*?"<>|]+/g, '_')}.${format}`
+}
+
+export function saveBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+  URL.revokeObjectURL(url)
+}
@@ -0,0 +1,306 @@
+export type ColorMode = 'normal' | 'grayscale' | 'sepia' | 'invert'
+
+// 'sides' only trims left and right margins, for strips whose pages join up
+export type CropMode = 'none' | 'all' | 'sides'
+
+export interface ImageAdjustments {
+  // Percentages, 100 leaves the page unchanged
+  brightness: number
+  contrast: number
+  gamma: number
+  colorMode: ColorMode
+  autoCrop: boolean
+}
+
+export const DEFAULT_IMAGE_ADJUSTMENTS: ImageAdjustments = {
+  brightness: 100,
+  contrast: 100,
+  gamma: 1,
+  colorMode: 'normal',
+  autoCrop: false,
+}
+
+export const BRIGHTNESS_RANGE = { min: 50, max: 150 }
+export const CONTRAST_RANGE = { min: 50, max: 150 }
+export const GAMMA_RANGE = { min: 0.5, max: 2 }
+
+// Id of the SVG filter the reader renders for gamma, CSS has no gamma function
+export const GAMMA_FILTER_ID = 'reader-page-gamma'
+
+// Fractions of the page cut off each edge
+interface CropBox {
+  top: number
+  right: number
+  bottom: number
+  left: number
+}
+
+// Scale of the copy the margins are measured on
+const DETECT_SIZE = 240
+// Distance from pure white or black that still counts as margin
+const MARGIN_TOLERANCE = 24
+// Share of pixels in a row or column allowed to differ (scan noise, page numbers)
+const NOISE_RATIO = 0.02
+// Pages losing more than this on either axis are probably mostly blank, leave them alone
+const MAX_CROP = 0.6
+const CROP_PADDING = 0.01
+const CROPPED_CACHE_SIZE = 60
+
+const croppedCache = new Map<string, Promise<string>>()
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value))
+
+export function sanitizeImageAdjustments(value: unknown): ImageAdjustments | undefined {
+  if (!value || typeof value !== 'object') return undefined
+  const raw = value as Record<string, unknown>
+  const adjustments = { ...DEFAULT_IMAGE_ADJUSTMENTS }
+
+  if (typeof raw.brightness === 'number') {
+    adjustments.brightness = clamp(raw.brightness, BRIGHTNESS_RANGE.min, BRIGHTNESS_RANGE.max)
+  }
+  if (typeof raw.contrast === 'number') {
+    adjustments.contrast = clamp(raw.contrast, CONTRAST_RANGE.min, CONTRAST_RANGE.max)
+  }
+  if (typeof raw.gamma === 'number') {
+    adjustments.gamma = clamp(raw.gamma, GAMMA_RANGE.min, GAMMA_RANGE.max)
+  }
+  if (raw.colorMode === 'normal' || raw.colorMode === 'grayscale' || raw.colorMode === 'sepia' || raw.colorMode === 'invert') {
+    adjustments.colorMode = raw.colorMode
+  }
+  if (typeof raw.autoCrop === 'boolean') {
+    adjustments.autoCrop = raw.autoCrop
+  }
+  return adjustments
+}
+
+// The light theme has always brightened pages a little, the sliders scale on top of that
+function getLevels(adjustments: ImageAdjustments, darkMode: boolean) {
+  return {
+    brightness: (adjustments.brightness / 100) * (darkMode ? 1 : 1.1),
+    contrast: (adjustments.contrast / 100) * (darkMode ? 1 : 1.05),
+  }
+}
+
+// CSS filter for page images. Expects the reader to render the gamma filter
+// definition under GAMMA_FILTER_ID.
+export function buildImageFilter(adjustments: ImageAdjustments, darkMode: boolean) {
+  const { brightness, contrast } = getLevels(adjustments, darkMode)
+  const filters: string[] = []
+
+  if (brightness !== 1) filters.push(`brightness(${brightness})`)
+  if (contrast !== 1) filters.push(`contrast(${contrast})`)
+  if (adjustments.gamma !== 1) filters.push(`url(#${GAMMA_FILTER_ID})`)
+  if (adjustments.colorMode === 'grayscale') filters.push('grayscale(1)')
+  if (adjustments.colorMode === 'sepia') filters.push('sepia(1)')
+  // Rotating the hue back keeps colored pages recognizable at night
+  if (adjustments.colorMode === 'invert') filters.push('invert(1) hue-rotate(180deg)')
+
+  return filters.length > 0 ? filters.join(' ') : 'none'
+}
+
+export function getCropMode(adjustments: ImageAdjustments, gapless: boolean): CropMode {
+  if (!adjustments.autoCrop) return 'none'
+  return gapless ? 'sides' : 'all'
+}
+
+// Loads an image that can be read back from a canvas
+export function loadImage(src: string) {
+  return new Promise<HTMLImageElement>((resolve, reject) => {
+    const img = new window.Image()
+    img.crossOrigin = 'anonymous'
+    img.onload = () => resolve(img)
+    img.onerror = () => reject(new Error(`Failed to load ${src}`))
+    img.src = src
+  })
+}
+
+// Finds white or black margins on a downscaled copy. Throws when the image
+// can't be read back (no CORS headers).
+function detectCropBox(img: HTMLImageElement, mode: CropMode): CropBox | null {
+  const ratio = Math.min(1, DETECT_SIZE / Math.max(img.naturalWidth, img.naturalHeight))
+  const width = Math.max(1, Math.round(img.naturalWidth * ratio))
+  const height = Math.max(1, Math.round(img.naturalHeight * ratio))
+
+  const canvas = document.createElement('canvas')
+  canvas.width = width
+  canvas.height = height
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })
+  if (!ctx) return null
+  ctx.drawImage(img, 0, 0, width, height)
+  const { data } = ctx.getImageData(0, 0, width, height)
+
+  const luminance = (x: number, y: number) => {
+    const i = (y * width + x) * 4
+    return 0.2126 * data[i] + 0.7152 * data[i + 1] + 0.0722 * data[i + 2]
+  }
+
+  // The margin color is whatever the top-left corner is, if it is white or black
+  const corner = luminance(0, 0)
+  const target = corner >= 255 - MARGIN_TOLERANCE ? 255 : corner <= MARGIN_TOLERANCE ? 0 : null
+  if (target === null) return null
+  const isMargin = (x: number, y: number) => Math.abs(luminance(x, y) - target) <= MARGIN_TOLERANCE
+
+  const rowIsMargin = (y: number) => {
+    let misses = 0
+    for (let x = 0; x < width; x++) {
+      if (!isMargin(x, y) && ++misses > width * NOISE_RATIO) return false
+    }
+    return true
+  }
+  const columnIsMargin = (x: number) => {
+    let misses = 0
+    for (let y = 0; y < height; y++) {
+      if (!isMargin(x, y) && ++misses > height * NOISE_RATIO) return false
+    }
+    return true
+  }
+
+  let left = 0
+  while (left < width - 1 && columnIsMargin(left)) left++
+  let right = width - 1
+  while (right > left && columnIsMargin(right)) right--
+  let top = 0
+  let bottom = height - 1
+  if (mode === 'all') {
+    while (top < height - 1 && rowIsMargin(top)) top++
+    while (bottom > top && rowIsMargin(bottom)) bottom--
+  }
+
+  const box = {
+    top: Math.max(0, top / height - CROP_PADDING),
+    right: Math.max(0, (width - 1 - right) / width - CROP_PADDING),
+    bottom: Math.max(0, (height - 1 - bottom) / height - CROP_PADDING),
+    left: Math.max(0, left / width - CROP_PADDING),
+  }
+  if (box.left + box.right > MAX_CROP || box.top + box.bottom > MAX_CROP) return null
+  if (box.left + box.right + box.top + box.bottom < 0.005) return null
+  return box
+}
+
+function drawPage(img: HTMLImageElement, box: CropBox | null) {
+  const sx = box ? Math.round(img.naturalWidth * box.left) : 0
+  const sy = box ? Math.round(img.naturalHeight * box.top) : 0
+  const width = box ? Math.round(img.naturalWidth * (1 - box.left - box.right)) : img.naturalWidth
+  const height = box ? Math.round(img.naturalHeight * (1 - box.top - box.bottom)) : img.naturalHeight
+
+  const canvas = document.createElement('canvas')
+  canvas.width = width
+  canvas.height = height
+  canvas.getContext('2d')?.drawImage(img, sx, sy, width, height, 0, 0, width, height)
+  return canvas
+}
+
+async function cropImage(src: string, mode: CropMode): Promise<string> {
+  try {
+    const img = await loadImage(src)
+    const box = detectCropBox(img, mode)
+    if (!box) return src
+
+    const blob = await new Promise<Blob | null>((resolve) => drawPage(img, box).toBlob(resolve, 'image/jpeg', 0.92))
+    return blob ? URL.createObjectURL(blob) : src
+  } catch {
+    // Servers without CORS headers taint the canvas, show those pages uncropped
+    return src
+  }
+}
+
+// URL of the page with its margins trimmed, or `src` itself when there is
+// nothing to trim. Results are kept for the most recent pages.
+export function getCroppedImageUrl(src: string, mode: CropMode): Promise<string> {
+  if (mode === 'none' || src.startsWith('/')) return Promise.resolve(src)
+
+  const key = `${mode}:${src}`
+  const cached = croppedCache.get(key)
+  if (cached) {
+    croppedCache.delete(key)
+    croppedCache.set(key, cached)
+    return cached
+  }
+
+  const cropped = cropImage(src, mode)
+  croppedCache.set(key, cropped)
+  if (croppedCache.size > CROPPED_CACHE_SIZE) {
+    const [oldestKey, oldest] = croppedCache.entries().next().value as [string, Promise<string>]
+    const oldestSrc = oldestKey.slice(oldestKey.indexOf(':') + 1)
+    croppedCache.delete(oldestKey)
+    oldest.then((url) => {
+      if (url !== oldestSrc) URL.revokeObjectURL(url)
+    })
+  }
+  return cropped
+}
+
+function hueRotateMatrix(degrees: number) {
+  const cos = Math.cos((degrees * Math.PI) / 180)
+  const sin = Math.sin((degrees * Math.PI) / 180)
+  return [
+    0.213 + cos * 0.787 - sin * 0.213, 0.715 - cos * 0.715 - sin * 0.715, 0.072 - cos * 0.072 + sin * 0.928,
+    0.213 - cos * 0.213 + sin * 0.143, 0.715 + cos * 0.285 + sin * 0.14, 0.072 - cos * 0.072 - sin * 0.283,
+    0.213 - cos * 0.213 - sin * 0.787, 0.715 - cos * 0.715 + sin * 0.715, 0.072 + cos * 0.928 + sin * 0.072,
+  ]
+}
+
+const SEPIA_MATRIX = [0.393, 0.769, 0.189, 0.349, 0.686, 0.168, 0.272, 0.534, 0.131]
+const GRAYSCALE_MATRIX = [0.2126, 0.7152, 0.0722, 0.2126, 0.7152, 0.0722, 0.2126, 0.7152, 0.0722]
+
+// Same steps as buildImageFilter, in the same order, done on pixels so
+// screenshots match the screen in browsers without canvas filters
+function applyAdjustments(canvas: HTMLCanvasElement, adjustments: ImageAdjustments, darkMode: boolean) {
+  const ctx = canvas.getContext('2d')
+  if (!ctx) return
+  const { brightness, contrast } = getLevels(adjustments, darkMode)
+  const { gamma, colorMode } = adjustments
+  if (brightness === 1 && contrast === 1 && gamma === 1 && colorMode === 'normal') return
+
+  // Brightness, contrast and gamma act on each channel alone, so a lookup table covers them
+  const levels = new Float32Array(256)
+  for (let value = 0; value < 256; value++) {
+    const level = clamp(((value / 255) * brightness - 0.5) * contrast + 0.5, 0, 1)
+    levels[value] = Math.pow(level, 1 / gamma)
+  }
+  const matrix =
+    colorMode === 'grayscale' ? GRAYSCALE_MATRIX : colorMode === 'sepia' ? SEPIA_MATRIX : colorMode === 'invert' ? hueRotateMatrix(180) : null
+
+  const image = ctx.getImageData(0, 0, canvas.width, canvas.height)
+  const { data } = image
+  for (let i = 0; i < data.length; i += 4) {
+    let r = levels[data[i]]
+    let g = levels[data[i + 1]]
+    let b = levels[data[i + 2]]
+    if (colorMode === 'invert') {
+      r = 1 - r
+      g = 1 - g
+      b = 1 - b
+    }
+    if (matrix) {
+      const [nr, ng, nb] = [
+        matrix[0] * r + matrix[1] * g + matrix[2] * b,
+        matrix[3] * r + matrix[4] * g + matrix[5] * b,
+        matrix[6] * r + matrix[7] * g + matrix[8] * b,
+      ]
+      r = nr
+      g = ng
+      b = nb
+    }
+    data[i] = clamp(r, 0, 1) * 255
+    data[i + 1] = clamp(g, 0, 1) * 255
+    data[i + 2] = clamp(b, 0, 1) * 255
+  }
+  ctx.putImageData(image, 0, 0)
+}
+
+// The page as it looks in the reader: cropped and adjusted, as a PNG
+export async function renderEnhancedPage(
+  src: string,
+  adjustments: ImageAdjustments,
+  darkMode: boolean,
+  cropMode: CropMode
+): Promise<Blob> {
+  const img = await loadImage(src)
+  const canvas = drawPage(img, cropMode === 'none' ? null : detectCropBox(img, cropMode))
+  applyAdjustments(canvas, adjustments, darkMode)
+
+  const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/png'))
+  if (!blob) throw new Error('Failed to encode page')
+  return blob
+}
@@ -0,0 +1,68 @@
+import { supabase } from './supabase'
+
+export const DEFAULT_LANGUAGES = ['en']
+
+// Guests keep their list in localStorage
+const GUEST_LANGUAGES_KEY = 'preferred_languages'
+
+function sanitizeLanguages(languages: unknown): string[] {
+  if (!Array.isArray(languages)) return DEFAULT_LANGUAGES
+  const valid = languages.filter((language): language is string => typeof language === 'string' && language.length > 0)
+  return valid.length > 0 ? Array.from(new Set(valid)) : DEFAULT_LANGUAGES
+}
+
+// Translation languages in order of preference, the first one wins when a
+// chapter is available in several of them
+export async function getPreferredLanguages(userId: string | null): Promise<string[]> {
+  if (!userId) {
+    if (typeof window === 'undefined') return DEFAULT_LANGUAGES
+    try {
+      return sanitizeLanguages(JSON.parse(localStorage.getItem(GUEST_LANGUAGES_KEY) || 'null'))
+    } catch {
+      return DEFAULT_LANGUAGES
+    }
+  }
+
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('preferred_languages')
+    .eq('id', userId)
+    .single()
+
+  if (error) {
+    console.error('Error fetching preferred languages:', error)
+    return DEFAULT_LANGUAGES
+  }
+  return sanitizeLanguages(data?.preferred_languages)
+}
+
+export async function savePreferredLanguages(userId: string | null, languages: string[]) {
+  const preferred = sanitizeLanguages(languages)
+
+  if (!userId) {
+    localStorage.setItem(GUEST_LANGUAGES_KEY, JSON.stringify(preferred))
+    return { error: null }
+  }
+
+  const { error } = await supabase
+    .from('profiles')
+    .update({ preferred_languages: preferred })
+    .eq('id', userId)
+
+  return { error }
+}
+
+// MangaDex language codes look like `en`, `pt-br` or `es-la`
+export function getLanguageName(code: string) {
+  try {
+    const [language, region] = code.split('-')
+    const name = new Intl.DisplayNames(['en'], { type: 'language' }).of(language)
+    return region && name ? `${name} (${region.toUpperCase()})` : name || code
+  } catch {
+    return code
+  }
+}
+
+export function getLanguageBadge(code: string) {
+  return code.toUpperCase()
+}
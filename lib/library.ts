@@ -150,6 +150,76 @@ export async function getLibraryStats(userId: string) {
   }
 }
 
+// Reader progress tracking
+const LIBRARY_PROMPT_DISMISSED_KEY = 'library_prompt_dismissed'
+
+export interface FinishedChapter {
+  chapterNumber: string | null
+  isFinalChapter: boolean
+  totalChapters?: number
+}
+
+// Called by the reader when a chapter is finished. Raises `progress`, starts
+// planned titles and completes titles whose final chapter was read. Entries
+// with auto_track turned off are left alone.
+export async function recordChapterFinished(userId: string, mangaId: string, chapter: FinishedChapter) {
+  const entry = await getLibraryEntry(userId, mangaId)
+  if (!entry) {
+    return { data: null, error: null, inLibrary: false }
+  }
+  if (!entry.auto_track) {
+    return { data: entry, error: null, inLibrary: true }
+  }
+
+  const updates: Partial<LibraryUpdate> = {}
+
+  const chapterNumber = Math.floor(Number.parseFloat(chapter.chapterNumber || ''))
+  if (!Number.isNaN(chapterNumber) && chapterNumber > (entry.progress || 0)) {
+    updates.progress = chapterNumber
+  }
+  if (!entry.total_chapters && chapter.totalChapters) {
+    updates.total_chapters = chapter.totalChapters
+  }
+
+  if (chapter.isFinalChapter && (entry.status === 'reading' || entry.status === 'plan_to_read')) {
+    updates.status = 'completed'
+  } else if (entry.status === 'plan_to_read') {
+    updates.status = 'reading'
+  }
+
+  if (Object.keys(updates).length === 0) {
+    return { data: entry, error: null, inLibrary: true }
+  }
+
+  const { data, error } = await updateLibraryEntry(userId, mangaId, updates)
+  return { data, error, inLibrary: true }
+}
+
+export async function setAutoTrack(userId: string, mangaId: string, autoTrack: boolean) {
+  return updateLibraryEntry(userId, mangaId, { auto_track: autoTrack })
+}
+
+// Titles the reader should stop offering to add to the library
+export function isLibraryPromptDismissed(mangaId: string) {
+  try {
+    const dismissed: string[] = JSON.parse(localStorage.getItem(LIBRARY_PROMPT_DISMISSED_KEY) || '[]')
+    return dismissed.includes(mangaId)
+  } catch {
+    return false
+  }
+}
+
+export function dismissLibraryPrompt(mangaId: string) {
+  try {
+    const dismissed: string[] = JSON.parse(localStorage.getItem(LIBRARY_PROMPT_DISMISSED_KEY) || '[]')
+    if (!dismissed.includes(mangaId)) {
+      localStorage.setItem(LIBRARY_PROMPT_DISMISSED_KEY, JSON.stringify([...dismissed, mangaId]))
+    }
+  } catch (error) {
+    console.error('Error saving library prompt preference:', error)
+  }
+}
+
 // Custom lists functions
 export async function createCustomList(
   userId: string,
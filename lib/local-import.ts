@@ -0,0 +1,141 @@
+import { saveDownloadRecord, getDownloads, downloadToChapter, type DownloadedChapter } from './downloads'
+import { savePage } from './offline-storage'
+import {
+  readArchive,
+  getImageMimeType,
+  naturalCompare,
+  parseChapterNumber,
+  parseVolumeNumber,
+  stripExtension,
+} from './comic-archive'
+import { slugify } from './slugify'
+import type { Chapter } from './sources'
+
+// Imported titles live next to MangaDex downloads in the same stores.
+// Their ids carry a prefix so the reader knows not to ask MangaDex about them.
+export const LOCAL_MANGA_PREFIX = 'local-'
+
+export function isLocalMangaId(id: string | null | undefined) {
+  return !!id && id.startsWith(LOCAL_MANGA_PREFIX)
+}
+
+interface ImportedChapter {
+  series: string
+  number: string | null
+  title?: string
+  volume?: string | null
+  pages: Blob[]
+}
+
+function generateId() {
+  return `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`
+}
+
+// Small JPEG of the first page, kept as a data URL so it survives reloads
+async function createThumbnail(blob: Blob, width = 240): Promise<string> {
+  try {
+    const bitmap = await createImageBitmap(blob)
+    const canvas = document.createElement('canvas')
+    canvas.width = width
+    canvas.height = Math.round((bitmap.height / bitmap.width) * width)
+    canvas.getContext('2d')?.drawImage(bitmap, 0, 0, canvas.width, canvas.height)
+    bitmap.close()
+    return canvas.toDataURL('image/jpeg', 0.8)
+  } catch (error) {
+    console.error('Error creating thumbnail:', error)
+    return '/placeholder.svg'
+  }
+}
+
+async function storeImportedChapter(imported: ImportedChapter): Promise<DownloadedChapter> {
+  if (imported.pages.length === 0) {
+    throw new Error('No images found')
+  }
+
+  const mangaId = `${LOCAL_MANGA_PREFIX}${slugify(imported.series) || generateId()}`
+  const chapterId = `${LOCAL_MANGA_PREFIX}${generateId()}`
+
+  let size = 0
+  for (let index = 0; index < imported.pages.length; index++) {
+    await savePage(chapterId, index, imported.pages[index])
+    size += imported.pages[index].size
+  }
+
+  // Reuse the cover of earlier chapters of the same title
+  const existing = getDownloads().find((d) => d.mangaId === mangaId)
+  const record: DownloadedChapter = {
+    id: `${mangaId}-${chapterId}`,
+    mangaId,
+    mangaTitle: imported.series,
+    mangaSlug: mangaId,
+    chapterId,
+    chapterNumber: imported.number || '1',
+    chapterTitle: imported.title || '',
+    volume: imported.volume,
+    posterUrl: existing?.posterUrl || (await createThumbnail(imported.pages[0])),
+    pageCount: imported.pages.length,
+    downloadedAt: new Date().toISOString(),
+    size,
+    source: 'local',
+  }
+
+  saveDownloadRecord(record)
+  return record
+}
+
+export async function importArchiveFile(file: File): Promise<DownloadedChapter> {
+  const { pages, comicInfo } = readArchive(new Uint8Array(await file.arrayBuffer()))
+  const baseName = stripExtension(file.name)
+
+  return storeImportedChapter({
+    series: comicInfo?.series || baseName,
+    number: comicInfo?.number || parseChapterNumber(baseName),
+    title: comicInfo?.title,
+    volume: comicInfo?.volume || parseVolumeNumber(baseName),
+    pages: pages.map((page) => new Blob([page.bytes], { type: page.mimeType })),
+  })
+}
+
+export interface ImportFile {
+  file: File
+  // Path relative to the picked or dropped folder, e.g. "Vol 1/Ch 3/001.jpg"
+  path: string
+}
+
+// Imports a folder of images. A folder holding one subfolder per chapter
+// becomes one title with several chapters; a flat folder is a single chapter.
+export async function importImageFolder(files: ImportFile[], folderName: string): Promise<DownloadedChapter[]> {
+  const groups = new Map<string, ImportFile[]>()
+  files
+    .filter(({ file }) => getImageMimeType(file.name))
+    .forEach((entry) => {
+      const dir = entry.path.split('/').slice(0, -1).join('/')
+      groups.set(dir, [...(groups.get(dir) || []), entry])
+    })
+
+  const imported: DownloadedChapter[] = []
+  const dirs = Array.from(groups.keys()).sort(naturalCompare)
+  for (const dir of dirs) {
+    const images = groups.get(dir)!.sort((a, b) => naturalCompare(a.path, b.path))
+    const chapterName = dir.split('/').pop() || folderName
+    imported.push(
+      await storeImportedChapter({
+        series: folderName,
+        number: parseChapterNumber(chapterName),
+        title: dirs.length > 1 ? chapterName : undefined,
+        volume: parseVolumeNumber(dir || folderName),
+        pages: images.map(({ file }) => (file.type ? file : new Blob([file], { type: getImageMimeType(file.name) || '' }))),
+      })
+    )
+  }
+
+  return imported
+}
+
+// Imported chapters of a title in reading order, shaped like MangaDex chapters
+export function getLocalChapters(mangaId: string): Chapter[] {
+  return getDownloads()
+    .filter((d) => d.mangaId === mangaId)
+    .sort((a, b) => naturalCompare(a.chapterNumber, b.chapterNumber))
+    .map(downloadToChapter)
+}
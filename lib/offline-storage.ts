@@ -0,0 +1,91 @@
+// IndexedDB storage for downloaded page images.
+// Chapter metadata lives in localStorage (see lib/downloads.ts); the image
+// bytes live here because they are far too large for localStorage.
+
+const DB_NAME = 'anireads_offline'
+const DB_VERSION = 1
+const PAGES_STORE = 'pages'
+
+export interface StoredPage {
+  chapterId: string
+  index: number
+  blob: Blob
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (typeof indexedDB === 'undefined') {
+    return Promise.reject(new Error('IndexedDB is not available'))
+  }
+
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+
+      request.onupgradeneeded = () => {
+        const db = request.result
+        if (!db.objectStoreNames.contains(PAGES_STORE)) {
+          const store = db.createObjectStore(PAGES_STORE, { keyPath: ['chapterId', 'index'] })
+          store.createIndex('chapterId', 'chapterId', { unique: false })
+        }
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => {
+        dbPromise = null
+        reject(request.error)
+      }
+    })
+  }
+
+  return dbPromise
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve()
+    tx.onerror = () => reject(tx.error)
+    tx.onabort = () => reject(tx.error)
+  })
+}
+
+export async function savePage(chapterId: string, index: number, blob: Blob) {
+  const db = await openDatabase()
+  const tx = db.transaction(PAGES_STORE, 'readwrite')
+  const page: StoredPage = { chapterId, index, blob }
+  tx.objectStore(PAGES_STORE).put(page)
+  await transactionDone(tx)
+}
+
+// Returns the stored pages of a chapter ordered by page index
+export async function getChapterPages(chapterId: string): Promise<StoredPage[]> {
+  const db = await openDatabase()
+  const tx = db.transaction(PAGES_STORE, 'readonly')
+  const pages = await requestToPromise<StoredPage[]>(
+    tx.objectStore(PAGES_STORE).index('chapterId').getAll(IDBKeyRange.only(chapterId))
+  )
+  return pages.sort((a, b) => a.index - b.index)
+}
+
+export async function deleteChapterPages(chapterId: string) {
+  const db = await openDatabase()
+  const tx = db.transaction(PAGES_STORE, 'readwrite')
+  const store = tx.objectStore(PAGES_STORE)
+  const keys = await requestToPromise(store.index('chapterId').getAllKeys(IDBKeyRange.only(chapterId)))
+  keys.forEach((key) => store.delete(key))
+  await transactionDone(tx)
+}
+
+export async function clearAllPages() {
+  const db = await openDatabase()
+  const tx = db.transaction(PAGES_STORE, 'readwrite')
+  tx.objectStore(PAGES_STORE).clear()
+  await transactionDone(tx)
+}
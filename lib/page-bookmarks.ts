@@ -0,0 +1,223 @@
+import { supabase } from './supabase'
+import type { Database } from './supabase'
+
+type PageBookmarkRow = Database['public']['Tables']['page_bookmarks']['Row']
+type PageBookmarkInsert = Database['public']['Tables']['page_bookmarks']['Insert']
+
+export interface PageBookmark {
+  id: string
+  mangaId: string
+  mangaTitle: string
+  mangaSlug: string
+  chapterId: string
+  chapterNumber: string | null
+  page: number
+  note: string | null
+  thumbnail: string | null
+  createdAt: string
+}
+
+export type NewPageBookmark = Omit<PageBookmark, 'id' | 'createdAt'>
+
+// Bookmarks of one title, newest first
+export interface MangaBookmarkGroup {
+  mangaId: string
+  mangaTitle: string
+  mangaSlug: string
+  bookmarks: PageBookmark[]
+}
+
+// Guests keep the same records in localStorage, keyed by bookmark id
+const GUEST_PAGE_BOOKMARKS_KEY = 'page_bookmarks'
+
+const THUMBNAIL_WIDTH = 160
+
+function fromRow(row: PageBookmarkRow): PageBookmark {
+  return {
+    id: row.id,
+    mangaId: row.manga_id,
+    mangaTitle: row.manga_title,
+    mangaSlug: row.manga_slug,
+    chapterId: row.chapter_id,
+    chapterNumber: row.chapter_number,
+    page: row.page,
+    note: row.note,
+    thumbnail: row.thumbnail,
+    createdAt: row.created_at,
+  }
+}
+
+function getGuestBookmarks(): Record<string, PageBookmark> {
+  if (typeof window === 'undefined') return {}
+  try {
+    return JSON.parse(localStorage.getItem(GUEST_PAGE_BOOKMARKS_KEY) || '{}')
+  } catch (error) {
+    console.error('Error loading page bookmarks:', error)
+    return {}
+  }
+}
+
+function saveGuestBookmarks(bookmarks: Record<string, PageBookmark>) {
+  localStorage.setItem(GUEST_PAGE_BOOKMARKS_KEY, JSON.stringify(bookmarks))
+}
+
+const newestFirst = (a: PageBookmark, b: PageBookmark) => b.createdAt.localeCompare(a.createdAt)
+
+// Every page bookmark of the user, or only those of one manga
+export async function getPageBookmarks(userId: string | null, mangaId?: string): Promise<PageBookmark[]> {
+  if (!userId) {
+    return Object.values(getGuestBookmarks())
+      .filter((bookmark) => !mangaId || bookmark.mangaId === mangaId)
+      .sort(newestFirst)
+  }
+
+  let query = supabase
+    .from('page_bookmarks')
+    .select('*')
+    .eq('user_id', userId)
+  if (mangaId) {
+    query = query.eq('manga_id', mangaId)
+  }
+  const { data, error } = await query.order('created_at', { ascending: false })
+
+  if (error) {
+    console.error('Error fetching page bookmarks:', error)
+    return []
+  }
+  return (data || []).map((row: PageBookmarkRow) => fromRow(row))
+}
+
+// Bookmarking a page twice updates the existing bookmark
+export async function addPageBookmark(
+  userId: string | null,
+  bookmark: NewPageBookmark
+): Promise<{ bookmark: PageBookmark | null; error: unknown }> {
+  if (!userId) {
+    const bookmarks = getGuestBookmarks()
+    const existing = Object.values(bookmarks).find(
+      (saved) => saved.chapterId === bookmark.chapterId && saved.page === bookmark.page
+    )
+    const saved: PageBookmark = {
+      ...bookmark,
+      id: existing?.id || crypto.randomUUID(),
+      createdAt: existing?.createdAt || new Date().toISOString(),
+    }
+    bookmarks[saved.id] = saved
+    try {
+      saveGuestBookmarks(bookmarks)
+    } catch (error) {
+      // Thumbnails can fill up localStorage, keep the bookmark without one
+      if (!saved.thumbnail) return { bookmark: null, error }
+      return addPageBookmark(userId, { ...bookmark, thumbnail: null })
+    }
+    return { bookmark: saved, error: null }
+  }
+
+  const row: PageBookmarkInsert = {
+    user_id: userId,
+    manga_id: bookmark.mangaId,
+    manga_title: bookmark.mangaTitle,
+    manga_slug: bookmark.mangaSlug,
+    chapter_id: bookmark.chapterId,
+    chapter_number: bookmark.chapterNumber,
+    page: bookmark.page,
+    note: bookmark.note,
+    thumbnail: bookmark.thumbnail,
+  }
+
+  const { data, error } = await supabase
+    .from('page_bookmarks')
+    .upsert(row, { onConflict: 'user_id,chapter_id,page' })
+    .select()
+    .single()
+
+  return { bookmark: data ? fromRow(data) : null, error }
+}
+
+export async function updatePageBookmarkNote(userId: string | null, id: string, note: string | null) {
+  if (!userId) {
+    const bookmarks = getGuestBookmarks()
+    if (bookmarks[id]) {
+      bookmarks[id] = { ...bookmarks[id], note }
+      saveGuestBookmarks(bookmarks)
+    }
+    return { error: null }
+  }
+
+  const { error } = await supabase
+    .from('page_bookmarks')
+    .update({ note })
+    .eq('user_id', userId)
+    .eq('id', id)
+
+  return { error }
+}
+
+export async function removePageBookmark(userId: string | null, id: string) {
+  if (!userId) {
+    const bookmarks = getGuestBookmarks()
+    delete bookmarks[id]
+    saveGuestBookmarks(bookmarks)
+    return { error: null }
+  }
+
+  const { error } = await supabase
+    .from('page_bookmarks')
+    .delete()
+    .eq('user_id', userId)
+    .eq('id', id)
+
+  return { error }
+}
+
+// Titles ordered by their latest bookmark, pages in reading order within each
+export function groupBookmarksByManga(bookmarks: PageBookmark[]): MangaBookmarkGroup[] {
+  const groups = new Map<string, MangaBookmarkGroup>()
+  ;[...bookmarks].sort(newestFirst).forEach((bookmark) => {
+    const group = groups.get(bookmark.mangaId)
+    if (group) {
+      group.bookmarks.push(bookmark)
+    } else {
+      groups.set(bookmark.mangaId, {
+        mangaId: bookmark.mangaId,
+        mangaTitle: bookmark.mangaTitle,
+        mangaSlug: bookmark.mangaSlug,
+        bookmarks: [bookmark],
+      })
+    }
+  })
+
+  const chapterOrder = (bookmark: PageBookmark) => parseFloat(bookmark.chapterNumber || '') || 0
+  return Array.from(groups.values()).map((group) => ({
+    ...group,
+    bookmarks: group.bookmarks.sort((a, b) => chapterOrder(a) - chapterOrder(b) || a.page - b.page),
+  }))
+}
+
+export function getBookmarkUrl(bookmark: PageBookmark) {
+  return `/reader/${bookmark.mangaSlug}/${bookmark.page}?chapter=${bookmark.chapterId}`
+}
+
+// Small JPEG of a page to recognise the bookmark by. Null when the image
+// can't be read back (no CORS headers).
+export function createBookmarkThumbnail(src: string): Promise<string | null> {
+  return new Promise((resolve) => {
+    const img = new window.Image()
+    img.crossOrigin = 'anonymous'
+    img.onload = () => {
+      try {
+        const canvas = document.createElement('canvas')
+        canvas.width = THUMBNAIL_WIDTH
+        canvas.height = Math.round((img.naturalHeight / img.naturalWidth) * THUMBNAIL_WIDTH)
+        const ctx = canvas.getContext('2d')
+        if (!ctx) return resolve(null)
+        ctx.drawImage(img, 0, 0, canvas.width, canvas.height)
+        resolve(canvas.toDataURL('image/jpeg', 0.7))
+      } catch {
+        resolve(null)
+      }
+    }
+    img.onerror = () => resolve(null)
+    img.src = src
+  })
+}
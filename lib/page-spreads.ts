@@ -0,0 +1,64 @@
+// Pairs pages for the double-page reader. Pages are zero-based indexes and
+// each spread lists its pages in reading order, whatever the direction.
+
+const SPREAD_OFFSETS_KEY = 'reader_spread_offsets'
+
+// Images wider than they are tall are already two pages scanned as one
+export const WIDE_PAGE_RATIO = 1.1
+
+export function isWidePage(width: number, height: number) {
+  return height > 0 && width / height >= WIDE_PAGE_RATIO
+}
+
+// Wide pages stand alone and restart the pairing after them. With `offset`
+// the first page stands alone too, which fixes books whose spreads start on
+// an even page because of a cover.
+export function buildSpreads(pageCount: number, widePages: Set<number>, offset: boolean): number[][] {
+  const spreads: number[][] = []
+  let index = 0
+
+  if (offset && pageCount > 0) {
+    spreads.push([0])
+    index = 1
+  }
+
+  while (index < pageCount) {
+    if (widePages.has(index) || index + 1 >= pageCount || widePages.has(index + 1)) {
+      spreads.push([index])
+      index += 1
+    } else {
+      spreads.push([index, index + 1])
+      index += 2
+    }
+  }
+
+  return spreads
+}
+
+export function findSpreadIndex(spreads: number[][], pageIndex: number) {
+  return spreads.findIndex((spread) => spread.includes(pageIndex))
+}
+
+export function getSpreadOffset(mangaId: string): boolean {
+  if (typeof window === 'undefined') return false
+  try {
+    const offsets = JSON.parse(localStorage.getItem(SPREAD_OFFSETS_KEY) || '{}')
+    return !!offsets[mangaId]
+  } catch {
+    return false
+  }
+}
+
+export function saveSpreadOffset(mangaId: string, offset: boolean) {
+  try {
+    const offsets = JSON.parse(localStorage.getItem(SPREAD_OFFSETS_KEY) || '{}')
+    if (offset) {
+      offsets[mangaId] = true
+    } else {
+      delete offsets[mangaId]
+    }
+    localStorage.setItem(SPREAD_OFFSETS_KEY, JSON.stringify(offsets))
+  } catch (error) {
+    console.error('Error saving spread offset:', error)
+  }
+}
@@ -0,0 +1,193 @@
+// Finds comic panels on a page by looking for the blank gutters between them,
+// entirely in the browser. Panels are fractions of the page in reading order.
+
+import { loadImage } from './image-enhancement'
+
+export interface PanelRect {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+interface Region {
+  left: number
+  top: number
+  right: number
+  bottom: number
+}
+
+const PANEL_CORRECTIONS_KEY = 'reader_panel_corrections'
+
+// Width of the copy the gutters are searched on
+const ANALYSIS_WIDTH = 320
+// Difference from the paper color that counts as ink
+const INK_THRESHOLD = 60
+// Share of ink a line may have and still count as gutter (specks, stray lines)
+const GUTTER_INK_RATIO = 0.01
+// Runs of ink thinner than this share of the page are noise, not panels
+const MIN_RUN = 0.02
+// Panels smaller than this share of the page (page numbers, sound effects) are dropped
+const MIN_PANEL_AREA = 0.015
+const MAX_DEPTH = 6
+const PANEL_PADDING = 0.005
+
+const detectionCache = new Map<string, Promise<PanelRect[]>>()
+
+export const FULL_PAGE: PanelRect = { x: 0, y: 0, width: 1, height: 1 }
+
+function buildInkMap(img: HTMLImageElement) {
+  const width = Math.min(ANALYSIS_WIDTH, img.naturalWidth)
+  const height = Math.max(1, Math.round((img.naturalHeight / img.naturalWidth) * width))
+
+  const canvas = document.createElement('canvas')
+  canvas.width = width
+  canvas.height = height
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })
+  if (!ctx) return null
+  ctx.drawImage(img, 0, 0, width, height)
+  const { data } = ctx.getImageData(0, 0, width, height)
+
+  const luminance = new Float32Array(width * height)
+  for (let i = 0; i < luminance.length; i++) {
+    luminance[i] = 0.2126 * data[i * 4] + 0.7152 * data[i * 4 + 1] + 0.0722 * data[i * 4 + 2]
+  }
+
+  // The paper color is taken from the page border, most pages are white but some are black
+  let borderSum = 0
+  let borderCount = 0
+  for (let x = 0; x < width; x++) {
+    borderSum += luminance[x] + luminance[(height - 1) * width + x]
+    borderCount += 2
+  }
+  for (let y = 0; y < height; y++) {
+    borderSum += luminance[y * width] + luminance[y * width + width - 1]
+    borderCount += 2
+  }
+  const paper = borderSum / borderCount > 128 ? 255 : 0
+
+  const ink = new Uint8Array(width * height)
+  for (let i = 0; i < ink.length; i++) {
+    ink[i] = Math.abs(luminance[i] - paper) > INK_THRESHOLD ? 1 : 0
+  }
+  return { ink, width, height }
+}
+
+async function detectPanelsInImage(src: string, direction: 'ltr' | 'rtl'): Promise<PanelRect[]> {
+  const img = await loadImage(src)
+  const map = buildInkMap(img)
+  if (!map) return []
+  const { ink, width, height } = map
+
+  // Runs of lines that contain ink along one axis of a region
+  const runs = (region: Region, axis: 'x' | 'y'): Region[] => {
+    const [start, end] = axis === 'y' ? [region.top, region.bottom] : [region.left, region.right]
+    const [crossStart, crossEnd] = axis === 'y' ? [region.left, region.right] : [region.top, region.bottom]
+    const allowed = (crossEnd - crossStart) * GUTTER_INK_RATIO
+    const minRun = (axis === 'y' ? height : width) * MIN_RUN
+    const found: Region[] = []
+    let runStart = -1
+
+    for (let line = start; line <= end; line++) {
+      let count = 0
+      if (line < end) {
+        for (let cross = crossStart; cross < crossEnd && count <= allowed; cross++) {
+          count += axis === 'y' ? ink[line * width + cross] : ink[cross * width + line]
+        }
+      }
+      const isGutter = line === end || count <= allowed
+      if (!isGutter && runStart === -1) {
+        runStart = line
+      } else if (isGutter && runStart !== -1) {
+        if (line - runStart >= minRun) {
+          found.push(axis === 'y' ? { ...region, top: runStart, bottom: line } : { ...region, left: runStart, right: line })
+        }
+        runStart = -1
+      }
+    }
+    return found
+  }
+
+  // Rows first, then the panels of each row in reading order
+  const split = (region: Region, depth: number): Region[] => {
+    if (depth >= MAX_DEPTH) return [region]
+
+    const rows = runs(region, 'y')
+    if (rows.length > 1) return rows.flatMap((row) => split(row, depth + 1))
+
+    const columns = runs(rows[0] || region, 'x')
+    if (columns.length > 1) {
+      const ordered = direction === 'rtl' ? columns.reverse() : columns
+      return ordered.flatMap((column) => split(column, depth + 1))
+    }
+
+    // Nothing left to cut, shrink to the ink
+    const row = rows[0]
+    const column = columns[0]
+    if (!row || !column) return []
+    return [{ left: column.left, right: column.right, top: row.top, bottom: row.bottom }]
+  }
+
+  const panels = split({ left: 0, top: 0, right: width, bottom: height }, 0)
+    .filter((region) => ((region.right - region.left) * (region.bottom - region.top)) / (width * height) >= MIN_PANEL_AREA)
+    .map((region) => {
+      const x = Math.max(0, region.left / width - PANEL_PADDING)
+      const y = Math.max(0, region.top / height - PANEL_PADDING)
+      return {
+        x,
+        y,
+        width: Math.min(1, region.right / width + PANEL_PADDING) - x,
+        height: Math.min(1, region.bottom / height + PANEL_PADDING) - y,
+      }
+    })
+
+  // A single panel is just the page
+  return panels.length > 1 ? panels : []
+}
+
+// Panels of a page, or an empty list when the page should be shown whole
+// (one panel, a splash page, or an image the canvas can't read)
+export function detectPanels(src: string, direction: 'ltr' | 'rtl'): Promise<PanelRect[]> {
+  const key = `${direction}:${src}`
+  const cached = detectionCache.get(key)
+  if (cached) return cached
+
+  const detected = detectPanelsInImage(src, direction).catch((error) => {
+    console.error('Error detecting panels:', error)
+    return []
+  })
+  detectionCache.set(key, detected)
+  return detected
+}
+
+// Manual corrections replace the detected panels of a page. An empty list
+// means the page is shown whole.
+export function getPanelCorrection(chapterId: string, pageIndex: number): PanelRect[] | null {
+  if (typeof window === 'undefined') return null
+  try {
+    const corrections = JSON.parse(localStorage.getItem(PANEL_CORRECTIONS_KEY) || '{}')
+    return corrections[chapterId]?.[pageIndex] ?? null
+  } catch {
+    return null
+  }
+}
+
+export function savePanelCorrection(chapterId: string, pageIndex: number, panels: PanelRect[] | null) {
+  try {
+    const corrections = JSON.parse(localStorage.getItem(PANEL_CORRECTIONS_KEY) || '{}')
+    const chapter = corrections[chapterId] || {}
+    if (panels) {
+      chapter[pageIndex] = panels
+    } else {
+      delete chapter[pageIndex]
+    }
+    if (Object.keys(chapter).length > 0) {
+      corrections[chapterId] = chapter
+    } else {
+      delete corrections[chapterId]
+    }
+    localStorage.setItem(PANEL_CORRECTIONS_KEY, JSON.stringify(corrections))
+  } catch (error) {
+    console.error('Error saving panel correction:', error)
+  }
+}
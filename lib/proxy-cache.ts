@@ -0,0 +1,323 @@
+import { createHash } from 'crypto'
+import { promises as fs } from 'fs'
+import path from 'path'
+
+// Server-side cache of upstream answers for app/api/proxy, keyed by upstream
+// URL. Entries are fresh for the endpoint's TTL and then served stale while
+// one background request revalidates them (with If-None-Match when upstream
+// sent an ETag). Entries live in a size-bounded in-memory LRU, or in a
+// size-bounded directory when PROXY_CACHE_DIR is set. Only server code may import this module.
+
+export interface CachedResponse {
+  status: number
+  statusText: string
+  contentType: string
+  etag: string
+  // Only set when the ETag came from upstream, used to revalidate
+  upstreamEtag?: string
+  body: Uint8Array
+  storedAt: number
+  freshUntil: number
+  staleUntil: number
+}
+
+export type CacheStatus = 'HIT' | 'STALE' | 'MISS' | 'BYPASS'
+
+export interface ProxyCacheStore {
+  get(key: string): Promise<CachedResponse | undefined>
+  set(key: string, entry: CachedResponse): Promise<void>
+  delete(key: string): Promise<void>
+}
+
+export type Fetcher = (url: string, init: RequestInit) => Promise<Response>
+
+export interface UpstreamRequest {
+  headers?: HeadersInit
+  fetcher?: Fetcher
+}
+
+interface CachePolicy {
+  // Seconds an answer is served without asking upstream
+  ttl: number
+  // Seconds after that it is still served while being revalidated
+  staleWhileRevalidate: number
+}
+
+const NO_CACHE: CachePolicy = { ttl: 0, staleWhileRevalidate: 0 }
+const MINUTE = 60
+const HOUR = 60 * MINUTE
+const DAY = 24 * HOUR
+
+// First match wins, paths are relative to the API base
+const CACHE_POLICIES: { api: string; path: RegExp; policy: CachePolicy }[] = [
+  // at-home servers are handed out per request and expire on their own
+  { api: 'mangadex', path: /^at-home\//, policy: NO_CACHE },
+  { api: 'mangadex', path: /^manga\/[^/]+\/feed$/, policy: { ttl: MINUTE, staleWhileRevalidate: 10 * MINUTE } },
+  { api: 'mangadex', path: /^manga\/[^/]+$/, policy: { ttl: 6 * HOUR, staleWhileRevalidate: DAY } },
+  { api: 'mangadex', path: /^manga$/, policy: { ttl: 5 * MINUTE, staleWhileRevalidate: HOUR } },
+  { api: 'mangadex', path: /^chapter$/, policy: { ttl: MINUTE, staleWhileRevalidate: 10 * MINUTE } },
+  { api: 'mangadex', path: /^chapter\/[^/]+$/, policy: { ttl: 6 * HOUR, staleWhileRevalidate: DAY } },
+  { api: 'mangadex', path: /^cover(\/|$)/, policy: { ttl: DAY, staleWhileRevalidate: 7 * DAY } },
+  { api: 'mangadex-uploads', path: /^covers\//, policy: { ttl: DAY, staleWhileRevalidate: 7 * DAY } },
+  { api: 'kitsu', path: /^trending\//, policy: { ttl: HOUR, staleWhileRevalidate: 6 * HOUR } },
+  { api: 'kitsu', path: /^manga(\/|$)/, policy: { ttl: 12 * HOUR, staleWhileRevalidate: DAY } },
+]
+const DEFAULT_POLICY: CachePolicy = { ttl: MINUTE, staleWhileRevalidate: 5 * MINUTE }
+
+// Hosts of `?url=` requests, mapped to the API names of CACHE_POLICIES
+const UPSTREAM_HOSTS: [string, string][] = [
+  ['api.mangadex.org', 'mangadex'],
+  ['uploads.mangadex.org', 'mangadex-uploads'],
+  ['kitsu.io', 'kitsu'],
+]
+
+const DEFAULT_MAX_BYTES = 32 * 1024 * 1024
+const DEFAULT_DISK_MAX_BYTES = 512 * 1024 * 1024
+const DISK_SWEEP_INTERVAL_MS = 5 * 60 * 1000
+
+// Least recently used entries go first once the bodies outgrow maxBytes
+export class MemoryCacheStore implements ProxyCacheStore {
+  private entries = new Map<string, CachedResponse>()
+  private bytes = 0
+
+  constructor(private readonly maxBytes = DEFAULT_MAX_BYTES) {}
+
+  async get(key: string) {
+    const entry = this.entries.get(key)
+    if (entry) {
+      // Re-inserting moves the entry to the back of the eviction order
+      this.entries.delete(key)
+      this.entries.set(key, entry)
+    }
+    return entry
+  }
+
+  async set(key: string, entry: CachedResponse) {
+    await this.delete(key)
+    if (entry.body.byteLength > this.maxBytes) return
+    this.entries.set(key, entry)
+    this.bytes += entry.body.byteLength
+    for (const [oldestKey, oldest] of Array.from(this.entries.entries())) {
+      if (this.bytes <= this.maxBytes) break
+      this.entries.delete(oldestKey)
+      this.bytes -= oldest.body.byteLength
+    }
+  }
+
+  async delete(key: string) {
+    const entry = this.entries.get(key)
+    if (!entry) return
+    this.entries.delete(key)
+    this.bytes -= entry.body.byteLength
+  }
+}
+
+// One JSON file per entry, named after the hash of the key, with its mtime set
+// to the entry's staleUntil. Every few minutes a sweep removes expired files
+// and, past maxBytes, the ones that expire soonest.
+export class DiskCacheStore implements ProxyCacheStore {
+  private lastSweep = 0
+  private sweeping: Promise<void> | null = null
+
+  constructor(
+    private readonly dir: string,
+    private readonly maxBytes = DEFAULT_DISK_MAX_BYTES
+  ) {}
+
+  private fileFor(key: string) {
+    return path.join(this.dir, `${createHash('sha1').update(key).digest('hex')}.json`)
+  }
+
+  async get(key: string) {
+    try {
+      const { body, ...entry } = JSON.parse(await fs.readFile(this.fileFor(key), 'utf8'))
+      if (entry.staleUntil <= Date.now()) {
+        await this.delete(key)
+        return undefined
+      }
+      return { ...entry, body: new Uint8Array(Buffer.from(body, 'base64')) } as CachedResponse
+    } catch {
+      return undefined
+    }
+  }
+
+  async set(key: string, entry: CachedResponse) {
+    await fs.mkdir(this.dir, { recursive: true })
+    const file = this.fileFor(key)
+    // Write then rename so readers never see half a file
+    const tempFile = `${file}.${process.pid}.tmp`
+    await fs.writeFile(tempFile, JSON.stringify({ ...entry, body: Buffer.from(entry.body).toString('base64') }))
+    await fs.utimes(tempFile, new Date(), new Date(entry.staleUntil))
+    await fs.rename(tempFile, file)
+
+    if (!this.sweeping && Date.now() - this.lastSweep > DISK_SWEEP_INTERVAL_MS) {
+      this.sweeping = this.sweep()
+        .catch((error) => console.error('Proxy cache sweep failed:', error))
+        .finally(() => {
+          this.lastSweep = Date.now()
+          this.sweeping = null
+        })
+    }
+  }
+
+  async delete(key: string) {
+    await fs.rm(this.fileFor(key), { force: true })
+  }
+
+  private async sweep() {
+    const now = Date.now()
+    const files: { file: string; size: number; staleUntil: number }[] = []
+    for (const name of await fs.readdir(this.dir)) {
+      const file = path.join(this.dir, name)
+      const stats = await fs.stat(file).catch(() => null)
+      if (!stats) continue
+      // Leftovers of writes that never got renamed
+      if (name.endsWith('.tmp')) {
+        if (now - stats.ctimeMs > DISK_SWEEP_INTERVAL_MS) await fs.rm(file, { force: true })
+        continue
+      }
+      if (!name.endsWith('.json')) continue
+      if (stats.mtimeMs <= now) {
+        await fs.rm(file, { force: true })
+        continue
+      }
+      files.push({ file, size: stats.size, staleUntil: stats.mtimeMs })
+    }
+
+    let bytes = files.reduce((total, { size }) => total + size, 0)
+    files.sort((a, b) => a.staleUntil - b.staleUntil)
+    for (const { file, size } of files) {
+      if (bytes <= this.maxBytes) break
+      await fs.rm(file, { force: true })
+      bytes -= size
+    }
+  }
+}
+
+// PROXY_CACHE_MAX_BYTES bounds whichever store is used
+function createDefaultStore(): ProxyCacheStore {
+  const maxBytes = Number.parseInt(process.env.PROXY_CACHE_MAX_BYTES || '', 10)
+  if (process.env.PROXY_CACHE_DIR) {
+    return new DiskCacheStore(process.env.PROXY_CACHE_DIR, maxBytes > 0 ? maxBytes : DEFAULT_DISK_MAX_BYTES)
+  }
+  return new MemoryCacheStore(maxBytes > 0 ? maxBytes : DEFAULT_MAX_BYTES)
+}
+
+let store: ProxyCacheStore = createDefaultStore()
+// Revalidations and first fetches in flight, so each URL goes upstream once
+const inFlight = new Map<string, Promise<CachedResponse>>()
+
+export function setProxyCacheStore(nextStore: ProxyCacheStore) {
+  store = nextStore
+}
+
+export function getCachePolicy(api: string, apiPath: string): CachePolicy {
+  const name = api === 'mangadx' ? 'mangadex' : api
+  const path = apiPath.replace(/^\/+|\/+$/g, '')
+  return CACHE_POLICIES.find((rule) => rule.api === name && rule.path.test(path))?.policy ?? DEFAULT_POLICY
+}
+
+export function getCachePolicyForUrl(url: string): CachePolicy {
+  const { hostname, pathname } = new URL(url)
+  const api = UPSTREAM_HOSTS.find(([host]) => hostname === host)?.[1]
+  if (!api) return DEFAULT_POLICY
+  return getCachePolicy(api, api === 'kitsu' ? pathname.replace(/^\/api\/edge/, '') : pathname)
+}
+
+function weakEtag(body: Uint8Array) {
+  return `W/"${createHash('sha1').update(body).digest('base64url')}"`
+}
+
+async function fetchUpstream(
+  url: string,
+  policy: CachePolicy,
+  { headers, fetcher = fetch }: UpstreamRequest,
+  previous?: CachedResponse
+): Promise<CachedResponse> {
+  const requestHeaders = new Headers(headers)
+  if (previous?.upstreamEtag) requestHeaders.set('If-None-Match', previous.upstreamEtag)
+
+  const response = await fetcher(url, { headers: requestHeaders, cache: 'no-store' })
+  const now = Date.now()
+  const lifetime = {
+    storedAt: now,
+    freshUntil: now + policy.ttl * 1000,
+    staleUntil: now + (policy.ttl + policy.staleWhileRevalidate) * 1000,
+  }
+
+  if (response.status === 304 && previous) {
+    const entry = { ...previous, ...lifetime }
+    await store.set(url, entry)
+    return entry
+  }
+
+  const body = new Uint8Array(await response.arrayBuffer())
+  const upstreamEtag = response.headers.get('etag') ?? undefined
+  const entry: CachedResponse = {
+    status: response.status,
+    statusText: response.statusText,
+    contentType: response.headers.get('content-type') ?? 'application/json',
+    etag: upstreamEtag ?? weakEtag(body),
+    upstreamEtag,
+    body,
+    ...lifetime,
+  }
+  // Errors are passed on but never stored
+  if (response.ok && policy.ttl > 0) {
+    await store.set(url, entry)
+  }
+  return entry
+}
+
+function fetchOnce(url: string, policy: CachePolicy, upstream: UpstreamRequest, previous?: CachedResponse) {
+  let pending = inFlight.get(url)
+  if (!pending) {
+    pending = fetchUpstream(url, policy, upstream, previous).finally(() => inFlight.delete(url))
+    inFlight.set(url, pending)
+  }
+  return pending
+}
+
+// Answers from the cache when it can, going upstream only for missing or
+// expired entries. Stale entries are answered at once and refreshed behind.
+export async function cachedFetch(
+  url: string,
+  policy: CachePolicy,
+  upstream: UpstreamRequest = {}
+): Promise<{ response: CachedResponse; cacheStatus: CacheStatus }> {
+  if (policy.ttl <= 0) {
+    return { response: await fetchUpstream(url, policy, upstream), cacheStatus: 'BYPASS' }
+  }
+
+  const now = Date.now()
+  const cached = await store.get(url)
+  if (cached && cached.freshUntil > now) {
+    return { response: cached, cacheStatus: 'HIT' }
+  }
+  if (cached && cached.staleUntil > now) {
+    fetchOnce(url, policy, upstream, cached).catch((error) =>
+      console.error(`Proxy cache revalidation failed for ${url}:`, error)
+    )
+    return { response: cached, cacheStatus: 'STALE' }
+  }
+
+  return { response: await fetchOnce(url, policy, upstream), cacheStatus: 'MISS' }
+}
+
+// Headers for the browser: it keeps its own copy but checks back every time,
+// which the ETag turns into a body-less 304 while the entry is unchanged
+export function cacheHeaders(response: CachedResponse, cacheStatus: CacheStatus) {
+  return {
+    'content-type': response.contentType,
+    etag: response.etag,
+    'cache-control': 'no-cache',
+    'x-proxy-cache': cacheStatus,
+  }
+}
+
+export function matchesEtag(ifNoneMatch: string | null, etag: string) {
+  if (!ifNoneMatch) return false
+  // Weak comparison, as If-None-Match calls for
+  const bare = (tag: string) => tag.trim().replace(/^W\//, '')
+  return ifNoneMatch.split(',').some((tag) => tag.trim() === '*' || bare(tag) === bare(etag))
+}
@@ -0,0 +1,227 @@
+import { promises as dns } from 'dns'
+import { isIP } from 'net'
+
+// Limits on what app/api/proxy will fetch for a client. `?url=` requests may
+// only reach MangaDex, Kitsu and MangaDex@Home hosts over http(s), never a
+// private address, and every upstream answer is bounded in time and size.
+// Only server code may import this module.
+
+export class ProxyRequestError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number
+  ) {
+    super(message)
+    this.name = 'ProxyRequestError'
+  }
+}
+
+// Exact hosts, or any subdomain of a host starting with a dot
+const ALLOWED_HOSTS = [
+  'api.mangadex.org',
+  'uploads.mangadex.org',
+  // MangaDex@Home image servers
+  '.mangadex.network',
+  'kitsu.io',
+  'media.kitsu.io',
+]
+const ALLOWED_PROTOCOLS = ['https:', 'http:']
+const MAX_URL_LENGTH = 2048
+const MAX_REDIRECTS = 3
+const UPSTREAM_TIMEOUT_MS = 15 * 1000
+const MAX_RESPONSE_BYTES = 10 * 1024 * 1024
+
+// Statuses a Response may not carry a body with
+const NULL_BODY_STATUSES = [204, 205, 304]
+
+const RATE_LIMIT = Number.parseInt(process.env.PROXY_RATE_LIMIT || '', 10) || 300
+const RATE_LIMIT_WINDOW_MS = 60 * 1000
+
+function isAllowedHost(hostname: string) {
+  return ALLOWED_HOSTS.some((host) => (host.startsWith('.') ? hostname.endsWith(host) : hostname === host))
+}
+
+function isPrivateIPv4(address: string) {
+  const [a, b] = address.split('.').map(Number)
+  return (
+    a === 0 ||
+    a === 10 ||
+    a === 127 ||
+    (a === 100 && b >= 64 && b <= 127) ||
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 168) ||
+    (a === 192 && b === 0) ||
+    (a === 198 && (b === 18 || b === 19)) ||
+    // Multicast and reserved
+    a >= 224
+  )
+}
+
+function isPrivateAddress(address: string) {
+  if (isIP(address) === 4) return isPrivateIPv4(address)
+  const lower = address.toLowerCase()
+  const mapped = lower.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/)
+  if (mapped) return isPrivateIPv4(mapped[1])
+  return (
+    lower === '::' ||
+    lower === '::1' ||
+    // Unique local, link-local and multicast
+    /^f[cd]/.test(lower) ||
+    /^fe[89ab]/.test(lower) ||
+    lower.startsWith('ff')
+  )
+}
+
+// Throws unless the URL may be fetched for a client. The host is resolved
+// here so a public name pointing at an internal address is refused too.
+export async function assertAllowedUrl(rawUrl: string): Promise<URL> {
+  if (rawUrl.length > MAX_URL_LENGTH) {
+    throw new ProxyRequestError('URL is too long', 414)
+  }
+
+  let url: URL
+  try {
+    url = new URL(rawUrl)
+  } catch {
+    throw new ProxyRequestError('Invalid URL', 400)
+  }
+
+  if (!ALLOWED_PROTOCOLS.includes(url.protocol)) {
+    throw new ProxyRequestError(`Protocol ${url.protocol} is not allowed`, 400)
+  }
+  if (url.username || url.password) {
+    throw new ProxyRequestError('URLs with credentials are not allowed', 400)
+  }
+  const hostname = url.hostname.toLowerCase()
+  if (isIP(hostname.replace(/^\[|\]$/g, '')) || !isAllowedHost(hostname)) {
+    throw new ProxyRequestError(`Host ${url.hostname} is not allowed`, 403)
+  }
+
+  let addresses: { address: string }[]
+  try {
+    addresses = await dns.lookup(hostname, { all: true })
+  } catch {
+    throw new ProxyRequestError(`Host ${url.hostname} could not be resolved`, 502)
+  }
+  if (addresses.length === 0 || addresses.some(({ address }) => isPrivateAddress(address))) {
+    throw new ProxyRequestError(`Host ${url.hostname} resolves to a private address`, 403)
+  }
+  return url
+}
+
+// Reads at most MAX_RESPONSE_BYTES of the body, giving up on larger answers
+async function readLimitedBody(response: Response) {
+  const declaredLength = Number(response.headers.get('content-length'))
+  if (declaredLength > MAX_RESPONSE_BYTES) {
+    await response.body?.cancel()
+    throw new ProxyRequestError('Upstream response is too large', 502)
+  }
+  if (!response.body) return new Uint8Array()
+
+  const reader = response.body.getReader()
+  const chunks: Uint8Array[] = []
+  let size = 0
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) break
+    size += value.byteLength
+    if (size > MAX_RESPONSE_BYTES) {
+      await reader.cancel()
+      throw new ProxyRequestError('Upstream response is too large', 502)
+    }
+    chunks.push(value)
+  }
+
+  const body = new Uint8Array(size)
+  let offset = 0
+  chunks.forEach((chunk) => {
+    body.set(chunk, offset)
+    offset += chunk.byteLength
+  })
+  return body
+}
+
+// fetch with the proxy's time and size limits. The answer is fully read, so
+// it can be handed on as is.
+export async function limitedFetch(url: string, init: RequestInit = {}): Promise<Response> {
+  try {
+    const response = await fetch(url, { ...init, signal: AbortSignal.timeout(UPSTREAM_TIMEOUT_MS) })
+    const body = await readLimitedBody(response)
+    return new Response(NULL_BODY_STATUSES.includes(response.status) ? null : body, {
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers,
+    })
+  } catch (error) {
+    if (error instanceof DOMException && error.name === 'TimeoutError') {
+      throw new ProxyRequestError('Upstream request timed out', 504)
+    }
+    throw error
+  }
+}
+
+// limitedFetch for client-chosen URLs: every redirect is checked like the
+// URL itself before it is followed
+export async function guardedFetch(url: string, init: RequestInit = {}): Promise<Response> {
+  let target = (await assertAllowedUrl(url)).toString()
+  for (let redirects = 0; ; redirects++) {
+    const response = await limitedFetch(target, { ...init, redirect: 'manual' })
+    const location = response.headers.get('location')
+    if (response.status < 300 || response.status >= 400 || response.status === 304 || !location) {
+      return response
+    }
+    if (redirects >= MAX_REDIRECTS) {
+      throw new ProxyRequestError('Too many upstream redirects', 502)
+    }
+    target = (await assertAllowedUrl(new URL(location, target).toString())).toString()
+  }
+}
+
+const clientWindows = new Map<string, { count: number; resetAt: number }>()
+let warnedUnknownClient = false
+
+// The client's address as the platform reports it. X-Forwarded-For is written
+// by the client too, so it only counts behind a proxy named trusted with
+// PROXY_TRUST_FORWARDED=true, and then only the entry that proxy appended.
+// Null when neither is available.
+export function getClientKey(ip: string | undefined, headers: Headers) {
+  if (ip) return ip
+  if (process.env.PROXY_TRUST_FORWARDED === 'true') {
+    const forwarded = headers.get('x-forwarded-for')?.split(',').pop()?.trim()
+    if (forwarded) return forwarded
+  }
+  return null
+}
+
+// Counts a request against the client's fixed window, `limited` once it is
+// over RATE_LIMIT requests in that window. Clients that can't be told apart
+// (e.g. `next start` without a trusted proxy) would all share one window and
+// throttle each other, so they aren't limited at all.
+export function checkRateLimit(clientKey: string | null) {
+  if (!clientKey) {
+    if (!warnedUnknownClient) {
+      warnedUnknownClient = true
+      console.warn('Proxy rate limiting is off: no client address. Set PROXY_TRUST_FORWARDED=true behind a proxy.')
+    }
+    return { limited: false, limit: RATE_LIMIT, remaining: RATE_LIMIT, resetAt: Date.now() }
+  }
+
+  const now = Date.now()
+  let window = clientWindows.get(clientKey)
+  if (!window || window.resetAt <= now) {
+    // Forget finished windows now and then so the map stays small
+    if (clientWindows.size > 10000) {
+      clientWindows.forEach((entry, key) => entry.resetAt <= now && clientWindows.delete(key))
+    }
+    window = { count: 0, resetAt: now + RATE_LIMIT_WINDOW_MS }
+    clientWindows.set(clientKey, window)
+  }
+  window.count++
+  return {
+    limited: window.count > RATE_LIMIT,
+    limit: RATE_LIMIT,
+    remaining: Math.max(0, RATE_LIMIT - window.count),
+    resetAt: window.resetAt,
+  }
+}
@@ -0,0 +1,174 @@
+import { supabase } from './supabase'
+import type { Database } from './supabase'
+
+type ReadStateRow = Database['public']['Tables']['chapter_read_state']['Row']
+type ReadStateInsert = Database['public']['Tables']['chapter_read_state']['Insert']
+
+export interface ChapterReadState {
+  mangaId: string
+  chapterId: string
+  lastPage: number
+  totalPages: number | null
+  completed: boolean
+  completedAt: string | null
+  updatedAt: string
+}
+
+export interface ChapterProgress {
+  mangaId: string
+  chapterId: string
+  page: number
+  totalPages: number
+}
+
+// Guests keep the same records in localStorage, keyed by chapter id
+const GUEST_READ_STATE_KEY = 'chapter_read_state'
+
+function fromRow(row: ReadStateRow): ChapterReadState {
+  return {
+    mangaId: row.manga_id,
+    chapterId: row.chapter_id,
+    lastPage: row.last_page,
+    totalPages: row.total_pages,
+    completed: row.completed,
+    completedAt: row.completed_at,
+    updatedAt: row.updated_at,
+  }
+}
+
+function getGuestReadStates(): Record<string, ChapterReadState> {
+  if (typeof window === 'undefined') return {}
+  try {
+    return JSON.parse(localStorage.getItem(GUEST_READ_STATE_KEY) || '{}')
+  } catch (error) {
+    console.error('Error loading read state:', error)
+    return {}
+  }
+}
+
+function saveGuestReadStates(states: Record<string, ChapterReadState>) {
+  localStorage.setItem(GUEST_READ_STATE_KEY, JSON.stringify(states))
+}
+
+export function isChapterInProgress(state: ChapterReadState | undefined): state is ChapterReadState {
+  return !!state && !state.completed && state.lastPage > 1
+}
+
+// Read state of every chapter of a manga the user has opened, by chapter id
+export async function getMangaReadStates(userId: string | null, mangaId: string): Promise<Record<string, ChapterReadState>> {
+  if (!userId) {
+    const states: Record<string, ChapterReadState> = {}
+    Object.values(getGuestReadStates())
+      .filter((state) => state.mangaId === mangaId)
+      .forEach((state) => {
+        states[state.chapterId] = state
+      })
+    return states
+  }
+
+  const { data, error } = await supabase
+    .from('chapter_read_state')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('manga_id', mangaId)
+
+  if (error) {
+    console.error('Error fetching read state:', error)
+    return {}
+  }
+
+  const states: Record<string, ChapterReadState> = {}
+  ;(data || []).forEach((row: ReadStateRow) => {
+    states[row.chapter_id] = fromRow(row)
+  })
+  return states
+}
+
+// Records the page a chapter was left on. Reaching the last page completes
+// the chapter; going back to an earlier page never un-completes it.
+export async function saveChapterProgress(userId: string | null, progress: ChapterProgress) {
+  const now = new Date().toISOString()
+  const reachedEnd = progress.totalPages > 0 && progress.page >= progress.totalPages
+
+  if (!userId) {
+    const states = getGuestReadStates()
+    const existing = states[progress.chapterId]
+    states[progress.chapterId] = {
+      mangaId: progress.mangaId,
+      chapterId: progress.chapterId,
+      lastPage: progress.page,
+      totalPages: progress.totalPages,
+      completed: existing?.completed || reachedEnd,
+      completedAt: existing?.completedAt || (reachedEnd ? now : null),
+      updatedAt: now,
+    }
+    saveGuestReadStates(states)
+    return { error: null }
+  }
+
+  const row: ReadStateInsert = {
+    user_id: userId,
+    manga_id: progress.mangaId,
+    chapter_id: progress.chapterId,
+    last_page: progress.page,
+    total_pages: progress.totalPages,
+    // Leaving these out keeps an earlier completion intact
+    ...(reachedEnd ? { completed: true, completed_at: now } : {}),
+  }
+
+  const { error } = await supabase
+    .from('chapter_read_state')
+    .upsert(row, { onConflict: 'user_id,chapter_id' })
+
+  return { error }
+}
+
+export async function markChaptersRead(userId: string | null, mangaId: string, chapterIds: string[], read: boolean) {
+  if (chapterIds.length === 0) return { error: null }
+  const now = new Date().toISOString()
+
+  if (!userId) {
+    const states = getGuestReadStates()
+    chapterIds.forEach((chapterId) => {
+      if (read) {
+        states[chapterId] = {
+          mangaId,
+          chapterId,
+          lastPage: states[chapterId]?.lastPage || 1,
+          totalPages: states[chapterId]?.totalPages ?? null,
+          completed: true,
+          completedAt: states[chapterId]?.completedAt || now,
+          updatedAt: now,
+        }
+      } else {
+        delete states[chapterId]
+      }
+    })
+    saveGuestReadStates(states)
+    return { error: null }
+  }
+
+  if (!read) {
+    const { error } = await supabase
+      .from('chapter_read_state')
+      .delete()
+      .eq('user_id', userId)
+      .in('chapter_id', chapterIds)
+
+    return { error }
+  }
+
+  const rows: ReadStateInsert[] = chapterIds.map((chapterId) => ({
+    user_id: userId,
+    manga_id: mangaId,
+    chapter_id: chapterId,
+    completed: true,
+    completed_at: now,
+  }))
+
+  const { error } = await supabase
+    .from('chapter_read_state')
+    .upsert(rows, { onConflict: 'user_id,chapter_id' })
+
+  return { error }
+}
@@ -0,0 +1,164 @@
+export type ReaderAction =
+  | 'pageLeft'
+  | 'pageRight'
+  | 'scrollUp'
+  | 'scrollDown'
+  | 'exit'
+  | 'toggleFullscreen'
+  | 'toggleControls'
+  | 'toggleSettings'
+  | 'showShortcuts'
+  | 'toggleAutoPlay'
+  | 'autoScrollFaster'
+  | 'autoScrollSlower'
+
+// Keys are stored as KeyboardEvent.key values, letters in lower case
+export type KeyBindings = Record<ReaderAction, string[]>
+
+export type TapZoneLayout = 'sides' | 'l-shape' | 'edge' | 'kindle' | 'none'
+
+export type TapZoneAction = 'prev' | 'next'
+
+// Area of the view in percent, laid out for left-to-right reading
+export interface TapZone {
+  x: number
+  y: number
+  width: number
+  height: number
+  action: TapZoneAction
+}
+
+export const READER_ACTIONS: { action: ReaderAction; label: string }[] = [
+  { action: 'pageLeft', label: 'Turn page left' },
+  { action: 'pageRight', label: 'Turn page right' },
+  { action: 'scrollUp', label: 'Scroll up / previous page' },
+  { action: 'scrollDown', label: 'Scroll down / next page' },
+  { action: 'toggleFullscreen', label: 'Toggle fullscreen' },
+  { action: 'toggleControls', label: 'Show or hide controls' },
+  { action: 'toggleSettings', label: 'Open settings' },
+  { action: 'showShortcuts', label: 'Show shortcuts' },
+  { action: 'toggleAutoPlay', label: 'Start or stop auto-play / auto-scroll' },
+  { action: 'autoScrollFaster', label: 'Auto-scroll faster' },
+  { action: 'autoScrollSlower', label: 'Auto-scroll slower' },
+  { action: 'exit', label: 'Leave the reader' },
+]
+
+export const DEFAULT_KEY_BINDINGS: KeyBindings = {
+  pageLeft: ['ArrowLeft'],
+  pageRight: ['ArrowRight', ' '],
+  scrollUp: ['ArrowUp'],
+  scrollDown: ['ArrowDown'],
+  exit: ['Escape'],
+  toggleFullscreen: ['f', 'F11'],
+  toggleControls: ['h'],
+  toggleSettings: ['s'],
+  showShortcuts: ['?'],
+  toggleAutoPlay: ['a'],
+  autoScrollFaster: ['+', '='],
+  autoScrollSlower: ['-'],
+}
+
+export const TAP_ZONE_LAYOUTS: { layout: TapZoneLayout; label: string }[] = [
+  { layout: 'sides', label: 'Left and right' },
+  { layout: 'l-shape', label: 'L-shape' },
+  { layout: 'edge', label: 'Edge' },
+  { layout: 'kindle', label: 'Kindle-style' },
+  { layout: 'none', label: 'None' },
+]
+
+const THIRD = 100 / 3
+
+const TAP_ZONES: Record<TapZoneLayout, TapZone[]> = {
+  sides: [
+    { x: 0, y: 0, width: THIRD, height: 100, action: 'prev' },
+    { x: 2 * THIRD, y: 0, width: THIRD, height: 100, action: 'next' },
+  ],
+  // Top band and left column go back, bottom band and right column go forward
+  'l-shape': [
+    { x: 0, y: 0, width: 100, height: THIRD, action: 'prev' },
+    { x: 0, y: THIRD, width: THIRD, height: THIRD, action: 'prev' },
+    { x: 2 * THIRD, y: THIRD, width: THIRD, height: THIRD, action: 'next' },
+    { x: 0, y: 2 * THIRD, width: 100, height: THIRD, action: 'next' },
+  ],
+  // Both edges go forward so either thumb can turn pages, the bottom center goes back
+  edge: [
+    { x: 0, y: 0, width: THIRD, height: 100, action: 'next' },
+    { x: THIRD, y: 2 * THIRD, width: THIRD, height: THIRD, action: 'prev' },
+    { x: 2 * THIRD, y: 0, width: THIRD, height: 100, action: 'next' },
+  ],
+  // Below the top band, the left column goes back and everything else forward
+  kindle: [
+    { x: 0, y: THIRD, width: THIRD, height: 2 * THIRD, action: 'prev' },
+    { x: THIRD, y: THIRD, width: 2 * THIRD, height: 2 * THIRD, action: 'next' },
+  ],
+  none: [],
+}
+
+// Zones of a layout, mirrored for right-to-left reading. Taps outside every
+// zone toggle the controls.
+export function getTapZones(layout: TapZoneLayout, direction: 'ltr' | 'rtl'): TapZone[] {
+  const zones = TAP_ZONES[layout]
+  return direction === 'rtl' ? zones.map((zone) => ({ ...zone, x: 100 - zone.x - zone.width })) : zones
+}
+
+export function normalizeKey(key: string) {
+  return key.length === 1 ? key.toLowerCase() : key
+}
+
+export function formatKey(key: string) {
+  switch (key) {
+    case ' ':
+      return 'Space'
+    case 'ArrowLeft':
+      return '←'
+    case 'ArrowRight':
+      return '→'
+    case 'ArrowUp':
+      return '↑'
+    case 'ArrowDown':
+      return '↓'
+    case 'Escape':
+      return 'Esc'
+    default:
+      return key.length === 1 ? key.toUpperCase() : key
+  }
+}
+
+export function findAction(bindings: KeyBindings, key: string): ReaderAction | null {
+  const normalized = normalizeKey(key)
+  const entry = (Object.entries(bindings) as [ReaderAction, string[]][]).find(([, keys]) => keys.includes(normalized))
+  return entry ? entry[0] : null
+}
+
+// Binds `key` to `action`, taking it away from whatever action had it before
+export function bindKey(bindings: KeyBindings, action: ReaderAction, key: string): KeyBindings {
+  const normalized = normalizeKey(key)
+  const next = {} as KeyBindings
+  READER_ACTIONS.forEach(({ action: other }) => {
+    next[other] = bindings[other].filter((bound) => bound !== normalized)
+  })
+  next[action] = [...next[action], normalized]
+  return next
+}
+
+export function unbindKey(bindings: KeyBindings, action: ReaderAction, key: string): KeyBindings {
+  return { ...bindings, [action]: bindings[action].filter((bound) => bound !== key) }
+}
+
+// Fills in missing actions and drops anything that isn't a list of keys
+export function sanitizeKeyBindings(value: unknown): KeyBindings | undefined {
+  if (!value || typeof value !== 'object') return undefined
+  const raw = value as Record<string, unknown>
+  const bindings = { ...DEFAULT_KEY_BINDINGS }
+  READER_ACTIONS.forEach(({ action }) => {
+    const keys = raw[action]
+    if (Array.isArray(keys)) {
+      bindings[action] = keys.filter((key): key is string => typeof key === 'string' && key.length > 0)
+    }
+  })
+  return bindings
+}
+
+export function isTapZoneLayout(value: unknown): value is TapZoneLayout {
+  return TAP_ZONE_LAYOUTS.some(({ layout }) => layout === value)
+}
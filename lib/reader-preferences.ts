@@ -0,0 +1,267 @@
+import { supabase } from './supabase'
+import type { Database } from './supabase'
+import type { Manga } from './sources'
+import type { ImageQualitySetting } from './at-home'
+import { DEFAULT_IMAGE_ADJUSTMENTS, sanitizeImageAdjustments, type ImageAdjustments } from './image-enhancement'
+import { DEFAULT_KEY_BINDINGS, isTapZoneLayout, sanitizeKeyBindings, type KeyBindings, type TapZoneLayout } from './reader-controls'
+
+type PreferencesInsert = Database['public']['Tables']['reader_preferences']['Insert']
+
+export type ReadingMode = 'single' | 'double' | 'vertical' | 'webtoon'
+export type Direction = 'ltr' | 'rtl'
+export type FitMode = 'screen' | 'width' | 'height' | 'original'
+
+export const MIN_ZOOM = 50
+export const MAX_ZOOM = 400
+
+// Auto-scroll speed in pixels per second
+export const MIN_SCROLL_SPEED = 10
+export const MAX_SCROLL_SPEED = 800
+
+export interface ReaderPreferences {
+  readingMode: ReadingMode
+  direction: Direction
+  zoom: number
+  fitMode: FitMode
+  darkMode: boolean
+  autoPlayTimeout: number
+  imageQuality: ImageQualitySetting
+  keyBindings: KeyBindings
+  tapZones: TapZoneLayout
+  swipeToTurn: boolean
+  imageAdjustments: ImageAdjustments
+  guidedView: boolean
+  autoScrollSpeed: number
+}
+
+// Global defaults plus the per-manga overrides that replace them
+export interface ReaderPreferenceProfiles {
+  defaults: ReaderPreferences
+  manga: Record<string, Partial<ReaderPreferences>>
+}
+
+export const DEFAULT_READER_PREFERENCES: ReaderPreferences = {
+  readingMode: 'single',
+  direction: 'rtl',
+  zoom: 100,
+  fitMode: 'screen',
+  darkMode: true,
+  autoPlayTimeout: 3,
+  imageQuality: 'auto',
+  keyBindings: DEFAULT_KEY_BINDINGS,
+  tapZones: 'sides',
+  swipeToTurn: true,
+  imageAdjustments: DEFAULT_IMAGE_ADJUSTMENTS,
+  guidedView: false,
+  autoScrollSpeed: 60,
+}
+
+// Input controls belong to the reader, not to a title: they only live in the
+// defaults and per-manga profiles never carry them
+const ACCOUNT_WIDE_PREFERENCES: (keyof ReaderPreferences)[] = ['keyBindings', 'tapZones', 'swipeToTurn']
+
+export function isAccountWidePreference(key: string) {
+  return (ACCOUNT_WIDE_PREFERENCES as string[]).includes(key)
+}
+
+// The part of `settings` a per-manga profile may hold
+export function pickMangaPreferences(settings: Partial<ReaderPreferences>): Partial<ReaderPreferences> {
+  const result = { ...settings }
+  ACCOUNT_WIDE_PREFERENCES.forEach((key) => delete result[key])
+  return result
+}
+
+// Row id of the global defaults in reader_preferences
+export const DEFAULT_PROFILE_ID = 'default'
+
+const GUEST_PREFERENCES_KEY = 'reader_preferences'
+
+function emptyProfiles(): ReaderPreferenceProfiles {
+  return { defaults: { ...DEFAULT_READER_PREFERENCES }, manga: {} }
+}
+
+// Drops unknown keys and values of the wrong type from stored settings
+export function sanitizePreferences(settings: unknown): Partial<ReaderPreferences> {
+  if (!settings || typeof settings !== 'object') return {}
+  const raw = settings as Record<string, unknown>
+  const result: Partial<ReaderPreferences> = {}
+
+  if (raw.readingMode === 'single' || raw.readingMode === 'double' || raw.readingMode === 'vertical' || raw.readingMode === 'webtoon') {
+    result.readingMode = raw.readingMode
+  }
+  if (raw.direction === 'ltr' || raw.direction === 'rtl') {
+    result.direction = raw.direction
+  }
+  if (typeof raw.zoom === 'number' && raw.zoom >= MIN_ZOOM && raw.zoom <= MAX_ZOOM) {
+    result.zoom = raw.zoom
+  }
+  if (raw.fitMode === 'screen' || raw.fitMode === 'width' || raw.fitMode === 'height' || raw.fitMode === 'original') {
+    result.fitMode = raw.fitMode
+  }
+  if (typeof raw.darkMode === 'boolean') {
+    result.darkMode = raw.darkMode
+  }
+  if (typeof raw.autoPlayTimeout === 'number' && raw.autoPlayTimeout > 0) {
+    result.autoPlayTimeout = raw.autoPlayTimeout
+  }
+  if (raw.imageQuality === 'auto' || raw.imageQuality === 'original' || raw.imageQuality === 'data-saver') {
+    result.imageQuality = raw.imageQuality
+  }
+  const keyBindings = sanitizeKeyBindings(raw.keyBindings)
+  if (keyBindings) {
+    result.keyBindings = keyBindings
+  }
+  if (isTapZoneLayout(raw.tapZones)) {
+    result.tapZones = raw.tapZones
+  }
+  if (typeof raw.swipeToTurn === 'boolean') {
+    result.swipeToTurn = raw.swipeToTurn
+  }
+  const imageAdjustments = sanitizeImageAdjustments(raw.imageAdjustments)
+  if (imageAdjustments) {
+    result.imageAdjustments = imageAdjustments
+  }
+  if (typeof raw.guidedView === 'boolean') {
+    result.guidedView = raw.guidedView
+  }
+  if (typeof raw.autoScrollSpeed === 'number' && raw.autoScrollSpeed >= MIN_SCROLL_SPEED && raw.autoScrollSpeed <= MAX_SCROLL_SPEED) {
+    result.autoScrollSpeed = raw.autoScrollSpeed
+  }
+
+  return result
+}
+
+// Sensible starting point for a title nobody has configured yet:
+// long strips open as webtoons, Korean and Chinese comics read left to right.
+export function suggestPreferences(manga: Manga | null): Partial<ReaderPreferences> {
+  if (!manga) return {}
+
+  const suggested: Partial<ReaderPreferences> = {}
+  const isLongStrip = manga.attributes.tags?.some((tag) => tag.attributes.name.en === 'Long Strip')
+  if (isLongStrip) {
+    suggested.readingMode = 'webtoon'
+  }
+
+  const language = manga.attributes.originalLanguage
+  if (language === 'ja') {
+    suggested.direction = 'rtl'
+  } else if (language === 'ko' || language?.startsWith('zh')) {
+    suggested.direction = 'ltr'
+  }
+
+  return suggested
+}
+
+export function resolvePreferences(
+  profiles: ReaderPreferenceProfiles,
+  mangaId: string | null,
+  suggested: Partial<ReaderPreferences> = {}
+): ReaderPreferences {
+  const override = mangaId ? profiles.manga[mangaId] : undefined
+  // Older profiles may still hold input controls, the defaults win over them
+  return override
+    ? { ...profiles.defaults, ...pickMangaPreferences(override) }
+    : { ...profiles.defaults, ...suggested }
+}
+
+function getGuestProfiles(): ReaderPreferenceProfiles {
+  if (typeof window === 'undefined') return emptyProfiles()
+  try {
+    const stored = JSON.parse(localStorage.getItem(GUEST_PREFERENCES_KEY) || '{}')
+    const manga: Record<string, Partial<ReaderPreferences>> = {}
+    Object.entries(stored.manga || {}).forEach(([mangaId, settings]) => {
+      manga[mangaId] = sanitizePreferences(settings)
+    })
+    return {
+      defaults: { ...DEFAULT_READER_PREFERENCES, ...sanitizePreferences(stored.defaults) },
+      manga,
+    }
+  } catch (error) {
+    console.error('Error loading reader preferences:', error)
+    return emptyProfiles()
+  }
+}
+
+function saveGuestProfiles(profiles: ReaderPreferenceProfiles) {
+  localStorage.setItem(GUEST_PREFERENCES_KEY, JSON.stringify(profiles))
+}
+
+// Loads the defaults and, when given, the profile of one manga
+export async function loadPreferenceProfiles(userId: string | null, mangaId?: string | null): Promise<ReaderPreferenceProfiles> {
+  if (!userId) {
+    const guestProfiles = getGuestProfiles()
+    return {
+      defaults: guestProfiles.defaults,
+      manga: mangaId && guestProfiles.manga[mangaId] ? { [mangaId]: guestProfiles.manga[mangaId] } : {},
+    }
+  }
+
+  const { data, error } = await supabase
+    .from('reader_preferences')
+    .select('manga_id, settings')
+    .eq('user_id', userId)
+    .in('manga_id', mangaId ? [DEFAULT_PROFILE_ID, mangaId] : [DEFAULT_PROFILE_ID])
+
+  if (error) {
+    console.error('Error fetching reader preferences:', error)
+    return emptyProfiles()
+  }
+
+  const profiles = emptyProfiles()
+  ;(data || []).forEach((row: { manga_id: string; settings: unknown }) => {
+    if (row.manga_id === DEFAULT_PROFILE_ID) {
+      profiles.defaults = { ...DEFAULT_READER_PREFERENCES, ...sanitizePreferences(row.settings) }
+    } else {
+      profiles.manga[row.manga_id] = sanitizePreferences(row.settings)
+    }
+  })
+  return profiles
+}
+
+// Saves the defaults (mangaId null) or the profile of one manga
+export async function savePreferenceProfile(
+  userId: string | null,
+  mangaId: string | null,
+  settings: Partial<ReaderPreferences>
+) {
+  if (!userId) {
+    const profiles = getGuestProfiles()
+    if (mangaId) {
+      profiles.manga[mangaId] = settings
+    } else {
+      profiles.defaults = { ...DEFAULT_READER_PREFERENCES, ...settings }
+    }
+    saveGuestProfiles(profiles)
+    return { error: null }
+  }
+
+  const row: PreferencesInsert = {
+    user_id: userId,
+    manga_id: mangaId || DEFAULT_PROFILE_ID,
+    settings: { ...settings },
+  }
+
+  const { error } = await supabase
+    .from('reader_preferences')
+    .upsert(row, { onConflict: 'user_id,manga_id' })
+
+  return { error }
+}
+
+// Drops a manga's own profile so it follows the defaults again
+export async function deletePreferenceProfile(userId: string | null, mangaId: string) {
+  if (!userId) {
+    const profiles = getGuestProfiles()
+    delete profiles.manga[mangaId]
+    saveGuestProfiles(profiles)
+    return { error: null }
+  }
+
+  const { error } = await supabase
+    .from('reader_preferences')
+    .delete()
+    .eq('user_id', userId)
+    .eq('manga_id', mangaId)
+
+  return { error }
+}
@@ -0,0 +1,127 @@
+import type { Chapter } from './sources'
+
+export interface ScanlationGroup {
+  id: string
+  name: string
+}
+
+// All uploads of one chapter number, in feed order
+export interface ChapterEntry {
+  key: string
+  chapter: string | null
+  volume: string | null
+  uploads: Chapter[]
+}
+
+const PREFERRED_GROUPS_KEY = 'preferred_scanlation_groups'
+
+export function getChapterGroups(chapter: Chapter): ScanlationGroup[] {
+  return (chapter.relationships || [])
+    .filter((rel) => rel.type === 'scanlation_group')
+    .map((rel) => ({ id: rel.id, name: rel.attributes?.name || 'Unknown group' }))
+}
+
+export function formatGroupNames(chapter: Chapter) {
+  const groups = getChapterGroups(chapter)
+  return groups.length > 0 ? groups.map((group) => group.name).join(' & ') : 'No group'
+}
+
+// Every group that uploaded chapters for a manga, most prolific first
+export function getMangaGroups(chapters: Chapter[]): (ScanlationGroup & { chapterCount: number })[] {
+  const groups = new Map<string, ScanlationGroup & { chapterCount: number }>()
+  chapters.forEach((chapter) => {
+    getChapterGroups(chapter).forEach((group) => {
+      const existing = groups.get(group.id)
+      if (existing) {
+        existing.chapterCount++
+      } else {
+        groups.set(group.id, { ...group, chapterCount: 1 })
+      }
+    })
+  })
+  return Array.from(groups.values()).sort((a, b) => b.chapterCount - a.chapterCount)
+}
+
+// Collapses duplicate uploads into one entry per chapter number. Chapters
+// without a number (oneshots) are never merged.
+export function groupChaptersByNumber(chapters: Chapter[]): ChapterEntry[] {
+  const entries: ChapterEntry[] = []
+  const byKey = new Map<string, ChapterEntry>()
+
+  chapters.forEach((chapter) => {
+    const number = chapter.attributes.chapter
+    const key = number ? `ch-${number}` : `id-${chapter.id}`
+    const entry = byKey.get(key)
+    if (entry) {
+      entry.uploads.push(chapter)
+      return
+    }
+
+    const created = { key, chapter: number, volume: chapter.attributes.volume, uploads: [chapter] }
+    byKey.set(key, created)
+    entries.push(created)
+  })
+
+  return entries
+}
+
+function isReadable(chapter: Chapter) {
+  return !chapter.attributes.externalUrl && chapter.attributes.pages > 0
+}
+
+// The upload to show for a chapter number. Only uploads in the first of
+// `languages` that has one are considered; among those the one by `groupId`
+// wins, otherwise the first one that can be read in the reader.
+export function pickUpload(uploads: Chapter[], groupId: string | null, languages: string[] = []): Chapter {
+  const language = languages.find((code) => uploads.some((chapter) => chapter.attributes.translatedLanguage === code))
+  const candidates = language ? uploads.filter((chapter) => chapter.attributes.translatedLanguage === language) : uploads
+
+  if (groupId) {
+    const byGroup = candidates.find((chapter) => getChapterGroups(chapter).some((group) => group.id === groupId))
+    if (byGroup) return byGroup
+  }
+  return candidates.find(isReadable) || candidates[0]
+}
+
+// One upload per chapter number for next/prev navigation. The current chapter
+// always stays in the list, and without a preferred group the list follows
+// whichever group uploaded it.
+export function buildReadingList(
+  entries: ChapterEntry[],
+  preferredGroup: string | null,
+  current?: Chapter | null,
+  languages: string[] = []
+): Chapter[] {
+  const groupId = preferredGroup || (current && getChapterGroups(current)[0]?.id) || null
+
+  return entries.map((entry) => {
+    if (current && entry.uploads.some((chapter) => chapter.id === current.id)) {
+      return entry.uploads.find((chapter) => chapter.id === current.id)!
+    }
+    return pickUpload(entry.uploads, groupId, languages)
+  })
+}
+
+export function getPreferredGroup(mangaId: string): string | null {
+  if (typeof window === 'undefined') return null
+  try {
+    const groups = JSON.parse(localStorage.getItem(PREFERRED_GROUPS_KEY) || '{}')
+    return groups[mangaId] || null
+  } catch {
+    return null
+  }
+}
+
+export function savePreferredGroup(mangaId: string, groupId: string | null) {
+  try {
+    const groups = JSON.parse(localStorage.getItem(PREFERRED_GROUPS_KEY) || '{}')
+    if (groupId) {
+      groups[mangaId] = groupId
+    } else {
+      delete groups[mangaId]
+    }
+    localStorage.setItem(PREFERRED_GROUPS_KEY, JSON.stringify(groups))
+  } catch (error) {
+    console.error('Error saving preferred scanlation group:', error)
+  }
+}
@@ -0,0 +1,38 @@
+import type { ChapterList, ChapterResponse, MangaList, MangaResponse, MangaSource } from './types'
+
+// The self-hosted archive served by app/api/archive, see lib/archive-library.
+// Its ids already carry the `archive:` prefix.
+export const ARCHIVE_SOURCE_ID = 'archive'
+
+const ARCHIVE_API = '/api/archive'
+
+async function getArchiveJson<T>(path: string, signal?: AbortSignal): Promise<T> {
+  const response = await fetch(`${ARCHIVE_API}/${path}`, { signal })
+  if (!response.ok) {
+    throw new Error(`Archive request failed: ${response.statusText}`)
+  }
+  return response.json() as Promise<T>
+}
+
+export const archiveSource: MangaSource = {
+  id: ARCHIVE_SOURCE_ID,
+  name: 'Archive',
+  // Archive links always use the id
+  resolveMangaId: async (slug) => slug,
+  search: (query, { limit = 20, offset = 0 } = {}) =>
+    getArchiveJson<MangaList>(`manga?title=${encodeURIComponent(query)}&limit=${limit}&offset=${offset}`),
+  getManga: (id) => getArchiveJson<MangaResponse>(`manga/${encodeURIComponent(id)}`),
+  async getChapterFeed(mangaId) {
+    return (await getArchiveJson<ChapterList>(`manga/${encodeURIComponent(mangaId)}/feed`)).data
+  },
+  getChapter: (id) => getArchiveJson<ChapterResponse>(`chapter/${encodeURIComponent(id)}`),
+  // Pages are the same whatever the image quality
+  async getChapterPages(chapterId, { signal } = {}) {
+    return (await getArchiveJson<{ pages: string[] }>(`chapter/${encodeURIComponent(chapterId)}/pages`, signal)).pages
+  },
+  getCoverUrl(manga) {
+    return manga.relationships.some((rel) => rel.type === 'cover_art')
+      ? `${ARCHIVE_API}/manga/${encodeURIComponent(manga.id)}/cover`
+      : null
+  },
+}
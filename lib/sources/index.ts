@@ -0,0 +1,61 @@
+import { archiveSource } from './archive'
+import { mangadexSource } from './mangadex'
+import type { MangaList, MangaSource, SearchOptions } from './types'
+
+export * from './types'
+export { getPrimaryEnglishTitle, sortChapters } from './utils'
+
+// Sources other than the default one hand out manga and chapter ids prefixed
+// with their own id, e.g. `archive:one-piece`. MangaDex ids carry no prefix so
+// existing links and saved history keep working.
+const SOURCE_ID_SEPARATOR = ':'
+
+const sources = new Map<string, MangaSource>([mangadexSource, archiveSource].map((source) => [source.id, source]))
+
+export const defaultSource = mangadexSource
+
+export function registerSource(source: MangaSource) {
+  sources.set(source.id, source)
+}
+
+export function getSource(id: string): MangaSource | undefined {
+  return sources.get(id)
+}
+
+export function getSources(): MangaSource[] {
+  return Array.from(sources.values())
+}
+
+// The source a manga or chapter id (or URL slug) belongs to. Ids without a
+// known prefix belong to the default source.
+export function getSourceForId(id: string): MangaSource {
+  const separator = id.indexOf(SOURCE_ID_SEPARATOR)
+  if (separator > 0) {
+    const source = sources.get(id.slice(0, separator))
+    if (source) return source
+  }
+  return defaultSource
+}
+
+// Searches every source with the same page window and lists the results one
+// source after another. A source that fails is left out rather than failing
+// the whole search.
+export async function searchSources(query: string, options: SearchOptions = {}): Promise<MangaList> {
+  const results = await Promise.allSettled(getSources().map((source) => source.search(query, options)))
+  const lists = results.flatMap((result, index) => {
+    if (result.status === 'fulfilled') return [result.value]
+    console.error(`Error searching ${getSources()[index].name}:`, result.reason)
+    return []
+  })
+
+  return {
+    result: lists.length > 0 ? 'ok' : 'error',
+    response: 'collection',
+    data: lists.flatMap((list) => list.data || []),
+    limit: options.limit ?? 20,
+    offset: options.offset ?? 0,
+    // Every source is paged with the same window, so the longest one decides
+    // how many pages there are
+    total: Math.max(0, ...lists.map((list) => list.total || 0)),
+  }
+}
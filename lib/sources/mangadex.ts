@@ -1,117 +1,7 @@
-// MangaDx API types
-export interface MangaResponse {
-  result: string
-  response: string
-  data: Manga
-}
-
-export interface MangaList {
-  result: string
-  response: string
-  data: Manga[]
-  limit: number
-  offset: number
-  total: number
-}
-
-export interface Manga {
-  id: string
-  type: string
-  attributes: MangaAttributes
-  relationships: Relationship[]
-}
-
-export interface MangaAttributes {
-  title: Record<string, string>
-  altTitles: Record<string, string>[]
-  description: Record<string, string>
-  isLocked: boolean
-  links: Record<string, string>
-  originalLanguage: string
-  lastVolume: string | null
-  lastChapter: string | null
-  publicationDemographic: string | null
-  status: string
-  year: number | null
-  contentRating: string
-  tags: Tag[]
-  state: string
-  chapterNumbersResetOnNewVolume: boolean
-  createdAt: string
-  updatedAt: string
-  availableTranslatedLanguages: string[]
-  latestUploadedChapter: string
-}
-
-export interface Tag {
-  id: string
-  type: string
-  attributes: {
-    name: Record<string, string>
-    description: Record<string, string>
-    group: string
-    version: number
-  }
-}
-
-export interface Relationship {
-  id: string
-  type: string
-  related?: string
-  attributes?: any
-}
-
-export interface ChapterList {
-  result: string
-  response: string
-  data: Chapter[]
-  limit: number
-  offset: number
-  total: number
-}
-
-export interface Chapter {
-  id: string
-  type: string
-  attributes: ChapterAttributes
-  relationships: Relationship[]
-}
-
-export interface ChapterAttributes {
-  title: string | null
-  volume: string | null
-  chapter: string | null
-  pages: number
-  translatedLanguage: string
-  uploader: string
-  externalUrl: string | null
-  version: number
-  createdAt: string
-  updatedAt: string
-  publishAt: string
-  readableAt: string
-}
-
-// Helper function to get primary English title - ALWAYS use title.en first
-export function getPrimaryEnglishTitle(manga: Manga): string {
-  // ALWAYS prioritize the primary English title from title.en
-  if (manga.attributes.title.en) {
-    return manga.attributes.title.en
-  }
-  
-  // If no primary English title, try other languages in order of preference
-  const titleKeys = Object.keys(manga.attributes.title)
-  const preferredOrder = ['en-us', 'ja-ro', 'ja']
-  
-  for (const lang of preferredOrder) {
-    if (manga.attributes.title[lang]) {
-      return manga.attributes.title[lang]
-    }
-  }
-  
-  // Fallback to first available title
-  return Object.values(manga.attributes.title)[0] || 'Unknown Title'
-}
+import { buildPageUrls, getAtHomeRequestsLeft, getAtHomeServer } from "../at-home"
+import { isDemoMode } from "../demo-mode"
+import type { Chapter, ChapterList, ChapterResponse, MangaList, MangaResponse, MangaSource } from "./types"
+import { getPrimaryEnglishTitle, sortChapters } from "./utils"
 
 // Helper function to correctly format query parameters for MangaDx API
 function formatMangaDxQueryParams(params: Record<string, any>): string {
@@ -146,45 +36,8 @@ function formatMangaDxQueryParams(params: Record<string, any>): string {
   return queryParts.join("&")
 }
 
-// RateLimiter class for fixed window
-class RateLimiter {
-  private timestamps: number[] = [] // Stores timestamps of requests
-  private readonly limit: number // Max requests allowed in the window
-  private readonly windowMs: number // Time window in milliseconds
-
-  constructor(limit: number, windowMinutes: number) {
-    this.limit = limit
-    this.windowMs = windowMinutes * 60 * 1000
-  }
-
-  async acquire(): Promise<void> {
-    return new Promise((resolve) => {
-      const checkAndExecute = () => {
-        const now = Date.now()
-        // Remove timestamps older than the current window
-        this.timestamps = this.timestamps.filter((ts) => now - ts < this.windowMs)
-
-        if (this.timestamps.length < this.limit) {
-          // If limit not reached, add current timestamp and resolve immediately
-          this.timestamps.push(now)
-          resolve()
-        } else {
-          // If limit reached, calculate time until the oldest request expires
-          const oldestRequestTime = this.timestamps[0]
-          const timeToWait = this.windowMs - (now - oldestRequestTime) + 50 // Add a small buffer
-          setTimeout(checkAndExecute, timeToWait) // Wait and re-check
-        }
-      }
-      checkAndExecute()
-    })
-  }
-}
-
-// Instantiate the rate limiter for AtHome endpoint (40 requests per 1 minute)
-const atHomeRateLimiter = new RateLimiter(40, 1)
-
 // API functions
-export async function searchMangaDxManga(query: string, limit = 20, offset = 0) {
+async function searchMangaDxManga(query: string, limit = 20, offset = 0) {
   const params = {
     title: query,
     limit: limit.toString(),
@@ -199,7 +52,7 @@ export async function searchMangaDxManga(query: string, limit = 20, offset = 0)
   return response.json() as Promise<MangaList>
 }
 
-export async function getMangaDxManga(id: string) {
+async function getMangaDxManga(id: string) {
   const params = {
     includes: ["cover_art", "author", "artist", "tag"],
   }
@@ -209,11 +62,12 @@ export async function getMangaDxManga(id: string) {
   return response.json() as Promise<MangaResponse>
 }
 
-export async function getMangaDxChapters(mangaId: string, limit = 100, offset = 0, translatedLanguage = "en") {
+async function getMangaDxChapters(mangaId: string, limit = 100, offset = 0, translatedLanguage: string | string[] = "en") {
   const params = {
     limit: limit.toString(),
     offset: offset.toString(),
-    translatedLanguage: [translatedLanguage],
+    translatedLanguage: Array.isArray(translatedLanguage) ? translatedLanguage : [translatedLanguage],
+    includes: ["scanlation_group"],
     order: { volume: "asc", chapter: "asc" },
   }
   const queryString = formatMangaDxQueryParams(params)
@@ -222,31 +76,68 @@ export async function getMangaDxChapters(mangaId: string, limit = 100, offset =
   return response.json() as Promise<ChapterList>
 }
 
-export async function getMangaDxChapter(id: string) {
-  const response = await fetch(`/api/proxy/mangadx/chapter/${id}?includes[]=scanlation_group`)
-  return response.json()
+// The feed endpoint returns at most 500 chapters per request
+const CHAPTER_FEED_PAGE_SIZE = 500
+// How long a fetched feed is reused before it is requested again
+const CHAPTER_FEED_TTL_MS = 5 * 60 * 1000
+
+const chapterFeedCache = new Map<string, { fetchedAt: number; chapters: Promise<Chapter[]> }>()
+
+async function fetchFullChapterFeed(mangaId: string, translatedLanguages: string[]): Promise<Chapter[]> {
+  const chapters: Chapter[] = []
+  let offset = 0
+  let total = Infinity
+
+  while (offset < total) {
+    const page = await getMangaDxChapters(mangaId, CHAPTER_FEED_PAGE_SIZE, offset, translatedLanguages)
+    if (page.result !== "ok" || !Array.isArray(page.data)) {
+      throw new Error(`Failed to fetch chapter feed for ${mangaId} at offset ${offset}`)
+    }
+
+    chapters.push(...page.data)
+    total = page.total
+    if (page.data.length === 0) break
+    offset += page.data.length
+  }
+
+  return sortChapters(chapters)
 }
 
-export async function getMangaDxChapterPages(id: string) {
-  await atHomeRateLimiter.acquire() // Acquire a slot from the rate limiter
-  const response = await fetch(`/api/proxy/mangadx/at-home/server/${id}`)
-  if (!response.ok) {
-    const errorText = await response.text()
-    console.error(`MangaDx Chapter Pages API Error (${response.status}):`, errorText)
-    throw new Error(`Failed to fetch chapter pages: ${response.statusText}`)
+// Every chapter of a manga in reading order, in any of the given languages,
+// walking the feed until `total` is reached. Results are cached per manga and
+// language set so the manga page and the reader share one fetch.
+function getAllMangaDxChapters(mangaId: string, translatedLanguages: string[] = ["en"]): Promise<Chapter[]> {
+  const key = `${mangaId}:${[...translatedLanguages].sort().join(",")}`
+  const cached = chapterFeedCache.get(key)
+  if (cached && Date.now() - cached.fetchedAt < CHAPTER_FEED_TTL_MS) {
+    return cached.chapters
   }
-  return response.json()
+
+  const chapters = fetchFullChapterFeed(mangaId, translatedLanguages)
+  chapterFeedCache.set(key, { fetchedAt: Date.now(), chapters })
+  // Failed fetches are retried on the next call
+  chapters.catch(() => {
+    if (chapterFeedCache.get(key)?.chapters === chapters) {
+      chapterFeedCache.delete(key)
+    }
+  })
+  return chapters
 }
 
-export function getMangaDxCoverImage(mangaId: string, filename: string) {
-  return `https://uploads.mangadx.org/covers/${mangaId}/${filename}`
+async function getMangaDxChapter(id: string) {
+  const response = await fetch(`/api/proxy/mangadx/chapter/${id}?includes[]=scanlation_group`)
+  return response.json() as Promise<ChapterResponse>
 }
 
-export function getCoverImage(mangaId: string, filename: string) {
-  return getMangaDxCoverImage(mangaId, filename)
+export function getMangaDxCoverImage(mangaId: string, filename: string) {
+  // Demo fixtures ship their covers under public/demo, in one size
+  if (isDemoMode) {
+    return `/demo/covers/${filename.replace(/\.(256|512)\.jpg$/, "")}`
+  }
+  return `https://uploads.mangadex.org/covers/${mangaId}/${filename}`
 }
 
-export async function getMangaDxPopularManga(limit = 20, offset = 0) {
+async function getMangaDxPopularManga(limit = 20, offset = 0) {
   const params = {
     limit: limit.toString(),
     offset: offset.toString(),
@@ -260,7 +151,7 @@ export async function getMangaDxPopularManga(limit = 20, offset = 0) {
   return response.json() as Promise<MangaList>
 }
 
-export async function getLatestUpdates(limit = 20, offset = 0) {
+export async function getMangaDxLatestUpdates(limit = 20, offset = 0) {
   const params = {
     limit: limit.toString(),
     offset: offset.toString(),
@@ -274,10 +165,6 @@ export async function getLatestUpdates(limit = 20, offset = 0) {
   return response.json()
 }
 
-export async function getMangaDxLatestUpdates(limit = 20, offset = 0) {
-  return getLatestUpdates(limit, offset)
-}
-
 export async function getMangaDxRecentWithKitsuPosters(limit = 20) {
   try {
     // First, get recent updates from MangaDx
@@ -325,8 +212,9 @@ export async function getMangaDxRecentWithKitsuPosters(limit = 20) {
         if (uniqueTitles.has(normalizedTitle)) continue
         
         // Search Kitsu for matching manga
-        const kitsuSearchUrl = `https://kitsu.io/api/edge/manga?filter[text]=${encodeURIComponent(title)}&page[limit]=1`
-        const kitsuResponse = await fetch(`/api/proxy/kitsu?url=${encodeURIComponent(kitsuSearchUrl)}`)
+        const kitsuResponse = await fetch(
+          `/api/proxy/kitsu/manga?filter[text]=${encodeURIComponent(title)}&page[limit]=1`
+        )
         const kitsuData = await kitsuResponse.json()
         
         let posterImage = ''
@@ -384,8 +272,9 @@ export async function getMangaDxTrendingWithKitsuPosters(limit = 20) {
         if (uniqueTitles.has(normalizedTitle)) continue
         
         // Search Kitsu for matching manga
-        const kitsuSearchUrl = `https://kitsu.io/api/edge/manga?filter[text]=${encodeURIComponent(title)}&page[limit]=1`
-        const kitsuResponse = await fetch(`/api/proxy/kitsu?url=${encodeURIComponent(kitsuSearchUrl)}`)
+        const kitsuResponse = await fetch(
+          `/api/proxy/kitsu/manga?filter[text]=${encodeURIComponent(title)}&page[limit]=1`
+        )
         const kitsuData = await kitsuResponse.json()
         
         let posterImage = ''
@@ -419,22 +308,8 @@ export async function getMangaDxTrendingWithKitsuPosters(limit = 20) {
   }
 }
 
-// New function to search manga by title and return MangaDx ID
-export async function findMangaDxIdByTitle(title: string): Promise<string | null> {
-  try {
-    const searchResults = await searchMangaDxManga(title, 1)
-    if (searchResults.data && searchResults.data.length > 0) {
-      return searchResults.data[0].id
-    }
-    return null
-  } catch (error) {
-    console.error('Error finding MangaDx ID by title:', error)
-    return null
-  }
-}
-
 // Helper function to convert slug to MangaDx ID
-export async function slugToMangaDxId(slug: string): Promise<string | null> {
+async function slugToMangaDxId(slug: string): Promise<string | null> {
   // Check if slug is already a MangaDx ID (UUID format)
   const isUUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(slug)
   
@@ -456,4 +331,25 @@ export async function slugToMangaDxId(slug: string): Promise<string | null> {
     console.error('Error converting slug to MangaDx ID:', error)
     return null
   }
-}
\ No newline at end of file
+}
+
+export const mangadexSource: MangaSource = {
+  id: "mangadex",
+  name: "MangaDex",
+  resolveMangaId: slugToMangaDxId,
+  search: (query, { limit, offset } = {}) => searchMangaDxManga(query, limit, offset),
+  getManga: getMangaDxManga,
+  getChapterFeed: getAllMangaDxChapters,
+  getChapter: getMangaDxChapter,
+  // Pages come from the MangaDex@Home node handed out for the chapter,
+  // `refresh` asks for a different one
+  async getChapterPages(chapterId, { quality = "original", refresh = false, signal } = {}) {
+    return buildPageUrls(await getAtHomeServer(chapterId, refresh, signal), quality)
+  },
+  getCoverUrl(manga, size) {
+    const fileName = manga.relationships.find((rel) => rel.type === "cover_art")?.attributes?.fileName
+    if (!fileName) return null
+    return getMangaDxCoverImage(manga.id, size ? `${fileName}.${size}.jpg` : fileName)
+  },
+  pageRequestsLeft: getAtHomeRequestsLeft,
+}
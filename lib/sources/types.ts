@@ -0,0 +1,138 @@
+import type { ImageQuality } from '../at-home'
+
+// Manga and chapters follow the MangaDex API shapes, other sources map their
+// data onto them so pages and components only deal with one model.
+export interface MangaResponse {
+  result: string
+  response: string
+  data: Manga
+}
+
+export interface MangaList {
+  result: string
+  response: string
+  data: Manga[]
+  limit: number
+  offset: number
+  total: number
+}
+
+export interface Manga {
+  id: string
+  type: string
+  attributes: MangaAttributes
+  relationships: Relationship[]
+}
+
+export interface MangaAttributes {
+  title: Record<string, string>
+  altTitles: Record<string, string>[]
+  description: Record<string, string>
+  isLocked: boolean
+  links: Record<string, string>
+  originalLanguage: string
+  lastVolume: string | null
+  lastChapter: string | null
+  publicationDemographic: string | null
+  status: string
+  year: number | null
+  contentRating: string
+  tags: Tag[]
+  state: string
+  chapterNumbersResetOnNewVolume: boolean
+  createdAt: string
+  updatedAt: string
+  availableTranslatedLanguages: string[]
+  latestUploadedChapter: string
+}
+
+export interface Tag {
+  id: string
+  type: string
+  attributes: {
+    name: Record<string, string>
+    description: Record<string, string>
+    group: string
+    version: number
+  }
+}
+
+export interface Relationship {
+  id: string
+  type: string
+  related?: string
+  attributes?: any
+}
+
+export interface ChapterResponse {
+  result: string
+  response: string
+  data: Chapter
+}
+
+export interface ChapterList {
+  result: string
+  response: string
+  data: Chapter[]
+  limit: number
+  offset: number
+  total: number
+}
+
+export interface Chapter {
+  id: string
+  type: string
+  attributes: ChapterAttributes
+  relationships: Relationship[]
+}
+
+export interface ChapterAttributes {
+  title: string | null
+  volume: string | null
+  chapter: string | null
+  pages: number
+  translatedLanguage: string
+  uploader: string
+  externalUrl: string | null
+  version: number
+  createdAt: string
+  updatedAt: string
+  publishAt: string
+  readableAt: string
+}
+
+export type CoverSize = 256 | 512
+
+export interface SearchOptions {
+  limit?: number
+  offset?: number
+}
+
+export interface PageListOptions {
+  quality?: ImageQuality
+  // Skip any cached page list and ask the source again, e.g. after the
+  // image host kept failing
+  refresh?: boolean
+  signal?: AbortSignal
+}
+
+// Where manga come from. Ids handed out by a source are only meaningful to
+// that source, see getSourceForId for how they are told apart.
+export interface MangaSource {
+  id: string
+  name: string
+  // Turns a URL slug (a title or an id) into the source's manga id
+  resolveMangaId(slug: string): Promise<string | null>
+  search(query: string, options?: SearchOptions): Promise<MangaList>
+  getManga(id: string): Promise<MangaResponse>
+  // Every chapter in any of the given languages, in reading order
+  getChapterFeed(mangaId: string, languages: string[]): Promise<Chapter[]>
+  getChapter(id: string): Promise<ChapterResponse>
+  // Image URLs of a chapter's pages
+  getChapterPages(chapterId: string, options?: PageListOptions): Promise<string[]>
+  // Cover of a manga returned by this source, or null when it has none
+  getCoverUrl(manga: Pick<Manga, 'id' | 'relationships'>, size?: CoverSize): string | null
+  // Page list requests that can be made before the source starts throttling,
+  // for sources with a rate limit
+  pageRequestsLeft?(): number
+}
@@ -0,0 +1,33 @@
+import type { Chapter, Manga } from './types'
+
+// Helper function to get primary English title - ALWAYS use title.en first
+export function getPrimaryEnglishTitle(manga: Manga): string {
+  // ALWAYS prioritize the primary English title from title.en
+  if (manga.attributes.title.en) {
+    return manga.attributes.title.en
+  }
+  
+  // If no primary English title, try other languages in order of preference
+  const titleKeys = Object.keys(manga.attributes.title)
+  const preferredOrder = ['en-us', 'ja-ro', 'ja']
+  
+  for (const lang of preferredOrder) {
+    if (manga.attributes.title[lang]) {
+      return manga.attributes.title[lang]
+    }
+  }
+  
+  // Fallback to first available title
+  return Object.values(manga.attributes.title)[0] || 'Unknown Title'
+}
+
+export function sortChapters(chapters: Chapter[]): Chapter[] {
+  return [...chapters].sort((a, b) => {
+    const aVolume = Number.parseFloat(a.attributes.volume || "0")
+    const bVolume = Number.parseFloat(b.attributes.volume || "0")
+    if (aVolume !== bVolume) {
+      return aVolume - bVolume
+    }
+    return Number.parseFloat(a.attributes.chapter || "0") - Number.parseFloat(b.attributes.chapter || "0")
+  })
+}
@@ -1,9 +1,12 @@
 import { createClient } from '@supabase/supabase-js'
+import { isDemoMode } from './demo-mode'
+import { createDemoClient } from './demo-supabase'
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
 const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
 
-export const supabase = createClient(supabaseUrl, supabaseAnonKey)
+// Demo mode needs neither env var
+export const supabase = isDemoMode ? createDemoClient() : createClient(supabaseUrl, supabaseAnonKey)
 
 export type Database = {
   public: {
@@ -13,6 +16,7 @@ export type Database = {
           id: string
           username: string | null
           avatar_url: string | null
+          preferred_languages: string[]
           created_at: string
           updated_at: string
         }
@@ -20,6 +24,7 @@ export type Database = {
           id: string
           username?: string | null
           avatar_url?: string | null
+          preferred_languages?: string[]
           created_at?: string
           updated_at?: string
         }
@@ -27,6 +32,7 @@ export type Database = {
           id?: string
           username?: string | null
           avatar_url?: string | null
+          preferred_languages?: string[]
           created_at?: string
           updated_at?: string
         }
@@ -45,6 +51,7 @@ export type Database = {
           total_chapters: number | null
           rating: number | null
           notes: string | null
+          auto_track: boolean
           started_at: string | null
           completed_at: string | null
           created_at: string
@@ -63,6 +70,7 @@ export type Database = {
           total_chapters?: number | null
           rating?: number | null
           notes?: string | null
+          auto_track?: boolean
           started_at?: string | null
           completed_at?: string | null
           created_at?: string
@@ -81,6 +89,7 @@ export type Database = {
           total_chapters?: number | null
           rating?: number | null
           notes?: string | null
+          auto_track?: boolean
           started_at?: string | null
           completed_at?: string | null
           created_at?: string
@@ -116,6 +125,114 @@ export type Database = {
           updated_at?: string
         }
       }
+      reader_preferences: {
+        Row: {
+          id: string
+          user_id: string
+          manga_id: string
+          settings: Record<string, unknown>
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          manga_id: string
+          settings?: Record<string, unknown>
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          manga_id?: string
+          settings?: Record<string, unknown>
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      chapter_read_state: {
+        Row: {
+          id: string
+          user_id: string
+          manga_id: string
+          chapter_id: string
+          last_page: number
+          total_pages: number | null
+          completed: boolean
+          completed_at: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          manga_id: string
+          chapter_id: string
+          last_page?: number
+          total_pages?: number | null
+          completed?: boolean
+          completed_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          manga_id?: string
+          chapter_id?: string
+          last_page?: number
+          total_pages?: number | null
+          completed?: boolean
+          completed_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      page_bookmarks: {
+        Row: {
+          id: string
+          user_id: string
+          manga_id: string
+          manga_title: string
+          manga_slug: string
+          chapter_id: string
+          chapter_number: string | null
+          page: number
+          note: string | null
+          thumbnail: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          manga_id: string
+          manga_title: string
+          manga_slug: string
+          chapter_id: string
+          chapter_number?: string | null
+          page: number
+          note?: string | null
+          thumbnail?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          manga_id?: string
+          manga_title?: string
+          manga_slug?: string
+          chapter_id?: string
+          chapter_number?: string | null
+          page?: number
+          note?: string | null
+          thumbnail?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
     }
   }
 }
\ No newline at end of file
@@ -0,0 +1,51 @@
+/*
+  # Reader Preferences Migration
+
+  1. New Tables
+    - `reader_preferences`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references profiles)
+      - `manga_id` (text, manga identifier, or 'default' for the global defaults)
+      - `settings` (jsonb, reading mode, direction, zoom, theme and auto-play delay)
+      - `created_at` (timestamp)
+      - `updated_at` (timestamp)
+
+  2. Security
+    - Enable RLS
+    - Add policies for authenticated users to manage their own preferences
+*/
+
+-- Create reader_preferences table
+CREATE TABLE IF NOT EXISTS reader_preferences (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  manga_id text NOT NULL,
+  settings jsonb NOT NULL DEFAULT '{}'::jsonb,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE(user_id, manga_id)
+);
+
+-- Enable RLS
+ALTER TABLE reader_preferences ENABLE ROW LEVEL SECURITY;
+
+-- Reader preferences policies
+CREATE POLICY "Users can view own reader preferences"
+  ON reader_preferences
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can manage own reader preferences"
+  ON reader_preferences
+  FOR ALL
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_reader_preferences_user_id ON reader_preferences(user_id);
+
+-- Create trigger for updated_at
+CREATE TRIGGER update_reader_preferences_updated_at
+  BEFORE UPDATE ON reader_preferences
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
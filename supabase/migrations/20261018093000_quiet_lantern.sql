@@ -0,0 +1,59 @@
+/*
+  # Chapter Read State Migration
+
+  1. New Tables
+    - `chapter_read_state`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references profiles)
+      - `manga_id` (text, manga identifier)
+      - `chapter_id` (text, chapter identifier)
+      - `last_page` (integer, last page viewed)
+      - `total_pages` (integer, nullable)
+      - `completed` (boolean, default false)
+      - `completed_at` (timestamp, nullable)
+      - `created_at` (timestamp)
+      - `updated_at` (timestamp, last time the chapter was read)
+
+  2. Security
+    - Enable RLS
+    - Add policies for authenticated users to manage their own read state
+*/
+
+-- Create chapter_read_state table
+CREATE TABLE IF NOT EXISTS chapter_read_state (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  manga_id text NOT NULL,
+  chapter_id text NOT NULL,
+  last_page integer DEFAULT 1,
+  total_pages integer,
+  completed boolean DEFAULT false,
+  completed_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE(user_id, chapter_id)
+);
+
+-- Enable RLS
+ALTER TABLE chapter_read_state ENABLE ROW LEVEL SECURITY;
+
+-- Chapter read state policies
+CREATE POLICY "Users can view own chapter read state"
+  ON chapter_read_state
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can manage own chapter read state"
+  ON chapter_read_state
+  FOR ALL
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_chapter_read_state_user_manga ON chapter_read_state(user_id, manga_id);
+
+-- Create trigger for updated_at
+CREATE TRIGGER update_chapter_read_state_updated_at
+  BEFORE UPDATE ON chapter_read_state
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
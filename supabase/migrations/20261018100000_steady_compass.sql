@@ -0,0 +1,13 @@
+/*
+  # Library Progress Tracking Migration
+
+  1. Changes
+    - `user_manga_library`
+      - `auto_track` (boolean, default true): lets the reader update progress and status
+
+  2. Notes
+    - Existing entries keep being tracked until the user opts out for that title
+*/
+
+ALTER TABLE user_manga_library
+  ADD COLUMN IF NOT EXISTS auto_track boolean NOT NULL DEFAULT true;
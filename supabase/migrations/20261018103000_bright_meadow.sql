@@ -0,0 +1,13 @@
+/*
+  # Preferred Translation Languages Migration
+
+  1. Changes
+    - `profiles`
+      - `preferred_languages` (text[], default {en}): translation languages in order of preference
+
+  2. Notes
+    - Chapters missing in the first language fall back to the next one in the list
+*/
+
+ALTER TABLE profiles
+  ADD COLUMN IF NOT EXISTS preferred_languages text[] NOT NULL DEFAULT '{en}';
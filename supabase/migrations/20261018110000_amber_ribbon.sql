@@ -0,0 +1,63 @@
+/*
+  # Page Bookmarks Migration
+
+  1. New Tables
+    - `page_bookmarks`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references profiles)
+      - `manga_id` (text, manga identifier)
+      - `manga_title` (text)
+      - `manga_slug` (text, reader route segment)
+      - `chapter_id` (text, chapter identifier)
+      - `chapter_number` (text, nullable)
+      - `page` (integer, bookmarked page)
+      - `note` (text, nullable)
+      - `thumbnail` (text, nullable, small JPEG data URL of the page)
+      - `created_at` (timestamp)
+      - `updated_at` (timestamp)
+
+  2. Security
+    - Enable RLS
+    - Add policies for authenticated users to manage their own bookmarks
+*/
+
+-- Create page_bookmarks table
+CREATE TABLE IF NOT EXISTS page_bookmarks (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  manga_id text NOT NULL,
+  manga_title text NOT NULL,
+  manga_slug text NOT NULL,
+  chapter_id text NOT NULL,
+  chapter_number text,
+  page integer NOT NULL,
+  note text,
+  thumbnail text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE(user_id, chapter_id, page)
+);
+
+-- Enable RLS
+ALTER TABLE page_bookmarks ENABLE ROW LEVEL SECURITY;
+
+-- Page bookmark policies
+CREATE POLICY "Users can view own page bookmarks"
+  ON page_bookmarks
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can manage own page bookmarks"
+  ON page_bookmarks
+  FOR ALL
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_page_bookmarks_user_manga ON page_bookmarks(user_id, manga_id);
+
+-- Create trigger for updated_at
+CREATE TRIGGER update_page_bookmarks_updated_at
+  BEFORE UPDATE ON page_bookmarks
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();